@@ -3,7 +3,7 @@ import * as React from 'react';
 import { action, observable, reaction } from 'mobx';
 import { disposeOnUnmount, observer } from 'mobx-react';
 
-import { styled } from '../../styles';
+import { styled, css } from '../../styles';
 
 import { clickOnEnter } from '../component-utils';
 import { Button, TextInput } from './inputs';
@@ -36,6 +36,9 @@ interface EditablePairsProps<R = PairsArray> {
 
     // Disabled by default, but can be useful in some cases
     allowEmptyValues?: boolean;
+
+    // If set, no more pairs can be added once this many exist
+    maxPairs?: number;
 }
 
 const ReadOnlyPairsContainer = styled.div`
@@ -44,12 +47,14 @@ const ReadOnlyPairsContainer = styled.div`
     grid-template-columns: 1fr 2fr;
 `;
 
-const EditablePairsContainer = styled(ReadOnlyPairsContainer)`
+const EditablePairsContainer = styled(ReadOnlyPairsContainer)<{ canAddPairs: boolean }>`
     grid-template-columns: 1fr 2fr min-content;
 
-    > :last-child {
-        grid-column: 2 / span 2;
-    }
+    ${p => p.canAddPairs && css`
+        > :last-child {
+            grid-column: 2 / span 2;
+        }
+    `}
 `;
 
 const PairDeleteButton = styled(Button)`
@@ -132,12 +137,14 @@ export class EditablePairs<R> extends React.Component<EditablePairsProps<R>> {
             keyPattern,
             keyPlaceholder,
             valuePlaceholder,
-            allowEmptyValues
+            allowEmptyValues,
+            maxPairs
         } = this.props;
 
         const { values, onChangeValues } = this;
+        const canAddPairs = maxPairs === undefined || values.length < maxPairs;
 
-        return <EditablePairsContainer>
+        return <EditablePairsContainer canAddPairs={canAddPairs}>
             { _.flatMap(values, ({ key, value, disabled }, i) => [
                 <TextInput
                     value={key}
@@ -176,7 +183,7 @@ export class EditablePairs<R> extends React.Component<EditablePairsProps<R>> {
                 >
                     <Icon icon={['far', 'trash-alt']} />
                 </PairDeleteButton>
-            ]).concat([
+            ]).concat(canAddPairs ? [
                 <TextInput
                     value=''
                     pattern={keyPattern}
@@ -200,7 +207,7 @@ export class EditablePairs<R> extends React.Component<EditablePairsProps<R>> {
                         onChangeValues(values);
                     })}
                 />
-            ]) }
+            ] : []) }
         </EditablePairsContainer>
     }
 }
\ No newline at end of file
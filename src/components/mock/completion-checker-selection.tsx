@@ -0,0 +1,94 @@
+import * as React from 'react';
+import { observer } from 'mobx-react';
+import { completionCheckers } from 'mockttp';
+
+import { styled } from '../../styles';
+
+import {
+    CompletionChecker,
+    CompletionCheckerClass,
+    CompletionCheckerClassKey,
+    CompletionCheckerKeys,
+    CompletionCheckerLookup
+} from '../../model/rules/rules';
+import { summarizeCompletionCheckerClass } from '../../model/rules/rule-descriptions';
+
+import { Select, TextInput } from '../common/inputs';
+
+const getCheckerKey = (c: CompletionCheckerClass | CompletionChecker) =>
+    CompletionCheckerKeys.get(
+        typeof c === 'function' ? c : c.constructor as CompletionCheckerClass
+    );
+const getCheckerClassByKey = (k: CompletionCheckerClassKey) => CompletionCheckerLookup[k];
+
+const CheckerClasses = [
+    completionCheckers.Always,
+    completionCheckers.Once,
+    completionCheckers.Twice,
+    completionCheckers.Thrice,
+    completionCheckers.NTimes
+];
+
+const instantiateChecker = (checkerClass: CompletionCheckerClass): CompletionChecker => {
+    switch (checkerClass) {
+        case completionCheckers.NTimes:
+            return new completionCheckers.NTimes(4);
+        default:
+            return new (checkerClass as typeof completionCheckers.Always)();
+    }
+}
+
+const CheckerSelectorContainer = styled.div`
+    margin-top: 20px;
+
+    display: flex;
+    flex-direction: row;
+    align-items: center;
+`;
+
+const CheckerSelect = styled(Select)`
+    flex-grow: 1;
+`;
+
+const CountInput = styled(TextInput)`
+    width: 60px;
+    margin-left: 10px;
+`;
+
+export const CompletionCheckerSelector = observer((p: {
+    value: CompletionChecker,
+    onChange: (checker: CompletionChecker) => void
+}) => {
+    const { value } = p;
+
+    return <CheckerSelectorContainer>
+        <CheckerSelect
+            value={getCheckerKey(value)}
+            onChange={(event) => {
+                const checkerClass = getCheckerClassByKey(
+                    event.target.value as CompletionCheckerClassKey
+                );
+                p.onChange(instantiateChecker(checkerClass));
+            }}
+        >
+            { CheckerClasses.map((checkerClass) =>
+                <option key={getCheckerKey(checkerClass)} value={getCheckerKey(checkerClass)}>
+                    { summarizeCompletionCheckerClass(checkerClass) }
+                </option>
+            ) }
+        </CheckerSelect>
+        { value instanceof completionCheckers.NTimes &&
+            <CountInput
+                type='number'
+                min={1}
+                value={value.count}
+                title='The number of matching requests to handle'
+                onChange={(event) => {
+                    const count = parseInt(event.target.value, 10);
+                    if (isNaN(count) || count < 1) return;
+                    p.onChange(new completionCheckers.NTimes(count));
+                }}
+            />
+        }
+    </CheckerSelectorContainer>;
+});
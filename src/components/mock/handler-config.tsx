@@ -17,14 +17,24 @@ import {
     ForwardToHostHandler,
     PassThroughHandler,
     TransformingHandler,
+    DelayHandler,
+    DelayConfig,
+    ChaosHandler,
+    ChaosFailure,
     RequestTransform,
     ResponseTransform,
+    MatchReplacePair,
+    UrlRewrite,
+    BreakpointOptions,
     RequestBreakpointHandler,
     ResponseBreakpointHandler,
     RequestAndResponseBreakpointHandler,
     TimeoutHandler,
     CloseConnectionHandler,
-    FromFileResponseHandler
+    FromFileResponseHandler,
+    TemplatedResponseHandler,
+    WebSocketPassThroughHandler,
+    WebSocketForwardToHostHandler
 } from '../../model/rules/rule-definitions';
 import { HEADER_NAME_REGEX } from '../../model/http/http-docs';
 import { MethodName, MethodNames } from '../../model/http/methods';
@@ -34,10 +44,19 @@ import {
     getEditableContentType
 } from '../../model/http/content-types';
 import { RulesStore } from '../../model/rules/rules-store';
+import { requiresTransformCallback } from '../../model/rules/rule-transforms';
+import { describeBreakpointCondition } from '../../model/rules/breakpoint-conditions';
+import { EventsStore } from '../../model/http/events-store';
+import {
+    renderTemplate,
+    renderTemplateHeaders,
+    TemplateRequest
+} from '../../model/rules/response-templates';
 
 import { ThemedSelfSizedEditor } from '../editor/base-editor';
 import { TextInput, Select, Button } from '../common/inputs';
 import { EditableHeaders } from '../common/editable-headers';
+import { EditablePairs, PairsArray } from '../common/editable-pairs';
 import { EditableStatus } from '../common/editable-status';
 import { FormatButton } from '../common/format-button';
 import { byteLength, asBuffer, isProbablyUtf8 } from '../../util';
@@ -82,6 +101,8 @@ export function HandlerConfiguration(props: {
         return <StaticResponseHandlerConfig {...configProps} />;
     } else if (handler instanceof FromFileResponseHandler) {
         return <FromFileResponseHandlerConfig {...configProps} />;
+    } else if (handler instanceof TemplatedResponseHandler) {
+        return <TemplatedResponseHandlerConfig {...configProps} />;
     } else if (handler instanceof ForwardToHostHandler) {
         return <ForwardToHostHandlerConfig {...configProps} />;
     } else if (handler instanceof PassThroughHandler) {
@@ -94,10 +115,18 @@ export function HandlerConfiguration(props: {
         return <ResponseBreakpointHandlerConfig {...configProps} />;
     } else if (handler instanceof RequestAndResponseBreakpointHandler) {
         return <RequestAndResponseBreakpointHandlerConfig {...configProps} />;
+    } else if (handler instanceof DelayHandler) {
+        return <DelayHandlerConfig {...configProps} />;
+    } else if (handler instanceof ChaosHandler) {
+        return <ChaosHandlerConfig {...configProps} />;
     } else if (handler instanceof TimeoutHandler) {
         return <TimeoutHandlerConfig {...configProps} />;
     } else if (handler instanceof CloseConnectionHandler) {
         return <CloseConnectionHandlerConfig {...configProps} />;
+    } else if (handler instanceof WebSocketPassThroughHandler) {
+        return <WebSocketPassThroughHandlerConfig {...configProps} />;
+    } else if (handler instanceof WebSocketForwardToHostHandler) {
+        return <ForwardToHostHandlerConfig {...configProps} />;
     }
 
     throw new Error('Unknown handler: ' + handler.type);
@@ -480,6 +509,176 @@ class FromFileResponseHandlerConfig extends React.Component<HandlerConfigProps<F
     }
 }
 
+const TemplatePreview = styled.pre`
+    margin-top: 5px;
+    padding: 5px;
+    border-radius: 4px;
+    border: solid 1px ${p => p.theme.containerBorder};
+
+    font-family: ${p => p.theme.monoFontFamily};
+    white-space: pre-wrap;
+    word-break: break-word;
+`;
+
+// How many recent exchanges to offer for previewing templates
+const MAX_PREVIEW_EXCHANGES = 50;
+
+@inject('eventsStore')
+@observer
+class TemplatedResponseHandlerConfig extends React.Component<
+    HandlerConfigProps<TemplatedResponseHandler> & {
+        eventsStore?: EventsStore
+    }
+> {
+
+    @observable
+    statusCode: number | undefined = this.props.handler.status;
+
+    @observable
+    headers = this.props.handler.headers || {};
+
+    @observable
+    body = this.props.handler.body;
+
+    @observable
+    previewExchangeId: string | undefined;
+
+    componentDidMount() {
+        // If any of our data fields change, rebuild & update the handler
+        disposeOnUnmount(this, reaction(() => (
+            JSON.stringify(_.pick(this, ['statusCode', 'headers', 'body']))
+        ), () => this.updateHandler()));
+
+        // If the handler changes (or when its set initially), update our data fields
+        disposeOnUnmount(this, autorun(() => {
+            const { status, headers, body } = this.props.handler;
+            runInAction(() => {
+                this.statusCode = status;
+                this.headers = headers || {};
+                this.body = body;
+            });
+        }));
+    }
+
+    @computed
+    private get previewExchanges() {
+        return this.props.eventsStore!.exchanges
+            .slice(-MAX_PREVIEW_EXCHANGES)
+            .reverse();
+    }
+
+    @computed
+    private get previewRequest(): TemplateRequest | undefined {
+        const exchange = _.find(this.previewExchanges, { id: this.previewExchangeId });
+        if (!exchange) return;
+
+        const { request } = exchange;
+        return {
+            method: request.method,
+            url: request.url,
+            headers: request.headers,
+            body: request.body.decoded?.toString('utf8')
+        };
+    }
+
+    render() {
+        const { statusCode, headers, body, previewExchanges, previewRequest } = this;
+
+        return <ConfigContainer>
+            <SectionLabel>Status</SectionLabel>
+            <EditableStatus
+                httpVersion={1}
+                statusCode={statusCode}
+                statusMessage={undefined}
+                onChange={this.setStatus}
+            />
+
+            <SectionLabel>Headers</SectionLabel>
+            <EditableHeaders
+                headers={headers}
+                onChange={this.onHeadersChanged}
+            />
+
+            <SectionLabel>Response body</SectionLabel>
+            <BodyContainer>
+                <ThemedSelfSizedEditor
+                    language='text'
+                    value={body}
+                    onChange={this.setBody}
+                />
+            </BodyContainer>
+
+            <ConfigExplanation>
+                Headers and the body can include values from each request, using
+                {' {{request.method}}, {{request.url}}, {{request.path}}, {{request.query.<name>}}, '}
+                {'{{request.headers.<name>}}, {{request.body}} and {{request.body.json.<path>}}'}.
+                You can also use {'{{uuid}}'} for a random id, or {'{{now}}'} for the current time.
+            </ConfigExplanation>
+
+            <SectionLabel>Preview</SectionLabel>
+            <ConfigSelect
+                value={this.previewExchangeId ?? ''}
+                onChange={this.setPreviewExchange}
+                disabled={previewExchanges.length === 0}
+            >
+                <option value=''>
+                    { previewExchanges.length
+                        ? 'Select a captured request to preview this response'
+                        : 'No captured requests available to preview'
+                    }
+                </option>
+                { previewExchanges.map((exchange) =>
+                    <option key={exchange.id} value={exchange.id}>
+                        { exchange.request.method } { exchange.request.url }
+                    </option>
+                ) }
+            </ConfigSelect>
+            { previewRequest &&
+                <TemplatePreview>
+                    { statusCode }{'\n'}
+                    { Object.entries(renderTemplateHeaders(headers, previewRequest)).map(([key, value]) =>
+                        `${key}: ${_.isArray(value) ? value.join(', ') : value}\n`
+                    ) }
+                    {'\n'}{ renderTemplate(body, previewRequest) }
+                </TemplatePreview>
+            }
+        </ConfigContainer>;
+    }
+
+    @action.bound
+    setStatus(statusCode: number | undefined) {
+        this.statusCode = statusCode;
+    }
+
+    @action.bound
+    onHeadersChanged(headers: Headers) {
+        this.headers = headers;
+    }
+
+    @action.bound
+    setBody(body: string) {
+        this.body = body;
+    }
+
+    @action.bound
+    setPreviewExchange(event: React.ChangeEvent<HTMLSelectElement>) {
+        this.previewExchangeId = event.target.value || undefined;
+    }
+
+    updateHandler() {
+        if (
+            !this.statusCode ||
+            this.statusCode < 100 ||
+            this.statusCode >= 1000 ||
+            _.some(Object.keys(this.headers), (key) => !key.match(HEADER_NAME_REGEX))
+        ) return this.props.onInvalidState();
+
+        this.props.onChange(
+            new TemplatedResponseHandler(this.statusCode, this.headers, this.body)
+        );
+    }
+}
+
 const UrlInput = styled(TextInput)`
     margin-top: 5px;
     width: 100%;
@@ -488,9 +687,12 @@ const UrlInput = styled(TextInput)`
 
 @inject('rulesStore')
 @observer
-class ForwardToHostHandlerConfig extends HandlerConfig<ForwardToHostHandler, {
-    rulesStore?: RulesStore
-}> {
+class ForwardToHostHandlerConfig extends HandlerConfig<
+    ForwardToHostHandler | WebSocketForwardToHostHandler,
+    {
+        rulesStore?: RulesStore
+    }
+> {
 
     @observable
     private error: Error | undefined;
@@ -540,7 +742,11 @@ class ForwardToHostHandlerConfig extends HandlerConfig<ForwardToHostHandler, {
             </ConfigSelect>
             { savedTargetHost &&
                 <ConfigExplanation>
-                    All matching requests will be forwarded to {savedTargetHost},
+                    All matching {
+                        this.props.handler instanceof WebSocketForwardToHostHandler
+                            ? 'WebSockets'
+                            : 'requests'
+                    } will be forwarded to {savedTargetHost},
                     keeping their existing path{
                         !savedTargetHost.includes('://') ? ', protocol,' : ''
                     } and query string.{
@@ -576,7 +782,10 @@ class ForwardToHostHandlerConfig extends HandlerConfig<ForwardToHostHandler, {
                 }
             }
 
-            this.props.onChange(new ForwardToHostHandler(this.targetHost, this.updateHostHeader, this.props.rulesStore!));
+            const HandlerClass = this.props.handler instanceof WebSocketForwardToHostHandler
+                ? WebSocketForwardToHostHandler
+                : ForwardToHostHandler;
+            this.props.onChange(new HandlerClass(this.targetHost, this.updateHostHeader, this.props.rulesStore!));
             this.error = undefined;
         } catch (e) {
             console.log(e);
@@ -661,10 +870,10 @@ class TransformingHandlerConfig extends React.Component<HandlerConfigProps<Trans
 }> {
 
     @observable
-    transformRequest = this.props.handler.transformRequest || {};
+    transformRequest = this.props.handler.requestTransform || {};
 
     @observable
-    transformResponse = this.props.handler.transformResponse || {};
+    transformResponse = this.props.handler.responseTransform || {};
 
     render() {
         return <ConfigContainer>
@@ -673,6 +882,12 @@ class TransformingHandlerConfig extends React.Component<HandlerConfigProps<Trans
                 replacementMethod={this.transformRequest?.replaceMethod}
                 onChange={this.transformField('transformRequest')('replaceMethod')}
             />
+            <UrlTransformConfig
+                rewrite={this.transformRequest?.rewriteUrl}
+                // URL rewrites are applied by the UI, which can't read body files
+                disabled={this.transformRequest?.replaceBodyFromFile !== undefined}
+                onChange={this.transformField('transformRequest')('rewriteUrl')}
+            />
             <HeadersTransformConfig
                 type='request'
                 transform={this.transformRequest}
@@ -757,6 +972,69 @@ const MethodTransformConfig = (props: {
     </TransformConfig>;
 };
 
+const UrlTransformConfig = (props: {
+    rewrite: UrlRewrite | undefined,
+    disabled: boolean,
+    onChange: (rewrite: UrlRewrite | undefined) => void
+}) => {
+    const { rewrite } = props;
+
+    const updateRewrite = <K extends keyof UrlRewrite>(key: K) =>
+        (value: UrlRewrite[K]) => props.onChange({ ...rewrite, [key]: value });
+
+    return <TransformConfig active={!!rewrite}>
+        <SelectTransform
+            value={rewrite ? 'rewrite' : 'none'}
+            onChange={(event: React.ChangeEvent<HTMLSelectElement>) => {
+                props.onChange(event.target.value === 'rewrite' ? {} : undefined);
+            }
+        }>
+            <option value='none'>Pass through the real request URL</option>
+            <option value='rewrite' disabled={props.disabled}>Rewrite the request URL</option>
+        </SelectTransform>
+        {
+            rewrite && <TransformDetails>
+                <SectionLabel>Protocol</SectionLabel>
+                <ConfigSelect
+                    value={rewrite.replaceProtocol ?? 'none'}
+                    onChange={(event: React.ChangeEvent<HTMLSelectElement>) => {
+                        const value = event.target.value as 'none' | 'http' | 'https';
+                        updateRewrite('replaceProtocol')(value === 'none' ? undefined : value);
+                    }}
+                >
+                    <option value='none'>Keep the original protocol</option>
+                    <option value='http'>Switch to plain HTTP</option>
+                    <option value='https'>Switch to HTTPS</option>
+                </ConfigSelect>
+
+                <SectionLabel>Path</SectionLabel>
+                <MatchReplacePairs
+                    operations={rewrite.matchReplacePath ?? []}
+                    onChange={updateRewrite('matchReplacePath')}
+                    keyPlaceholder='Regex to find, e.g. ^/api/v1/(.*)'
+                    valuePlaceholder='Replacement path, e.g. /v2/$1'
+                />
+
+                <SectionLabel>Query parameters</SectionLabel>
+                <EditablePairs<UrlRewrite['updateQuery']>
+                    pairs={Object.entries(rewrite.updateQuery ?? {}).map(([key, value]) => ({
+                        key,
+                        value: value ?? ''
+                    }))}
+                    convertResult={(pairs: PairsArray) => _.fromPairs(pairs
+                        .filter(({ key }) => key !== '')
+                        .map(({ key, value }) => [key, value === '' ? undefined : value])
+                    )}
+                    onChange={updateRewrite('updateQuery')}
+                    keyPlaceholder='Query parameter name'
+                    valuePlaceholder='New value, or empty to remove the parameter'
+                    allowEmptyValues={true}
+                />
+            </TransformDetails>
+        }
+    </TransformConfig>;
+};
+
 const StatusTransformConfig = (props: {
     replacementStatus: number | undefined,
     onChange: (status: number | undefined) => void
@@ -804,7 +1082,8 @@ class HeadersTransformConfig<T extends RequestTransform | ResponseTransform> ext
 
     private static readonly FIELDS = [
         'replaceHeaders',
-        'updateHeaders'
+        'updateHeaders',
+        'matchReplaceHeaders'
     ] as const;
 
     @computed
@@ -820,7 +1099,8 @@ class HeadersTransformConfig<T extends RequestTransform | ResponseTransform> ext
             selected,
             convertHeaderResult,
             onTransformTypeChange,
-            setHeadersValue
+            setHeadersValue,
+            setMatchReplaceValue
         } = this;
 
         return <TransformConfig active={selected !== 'none'}>
@@ -831,16 +1111,30 @@ class HeadersTransformConfig<T extends RequestTransform | ResponseTransform> ext
                 <option value='none'>Pass through the real { type } headers</option>
                 <option value='updateHeaders'>Update the { type } headers</option>
                 <option value='replaceHeaders'>Replace the { type } headers</option>
+                <option
+                    value='matchReplaceHeaders'
+                    // Regex rewrites are applied by the UI, which can't read body files
+                    disabled={transform.replaceBodyFromFile !== undefined}
+                >
+                    Find & replace within the { type } header values
+                </option>
             </SelectTransform>
             {
-                selected !== 'none' && <TransformDetails>
-                    <EditableHeaders
-                        headers={transform[selected] || {}}
-                        convertResult={convertHeaderResult}
-                        onChange={setHeadersValue}
-                        allowEmptyValues={selected === 'updateHeaders'}
+                selected === 'matchReplaceHeaders'
+                    ? <MatchReplaceTransformConfig
+                        operations={transform.matchReplaceHeaders!}
+                        onChange={setMatchReplaceValue}
                     />
-                </TransformDetails>
+                : selected !== 'none'
+                    ? <TransformDetails>
+                        <EditableHeaders
+                            headers={transform[selected] || {}}
+                            convertResult={convertHeaderResult}
+                            onChange={setHeadersValue}
+                            allowEmptyValues={selected === 'updateHeaders'}
+                        />
+                    </TransformDetails>
+                : null
             }
         </TransformConfig>;
     }
@@ -850,7 +1144,11 @@ class HeadersTransformConfig<T extends RequestTransform | ResponseTransform> ext
         const value = event.currentTarget.value as 'none' | typeof HeadersTransformConfig.FIELDS[number];
 
         this.clearValues();
-        if (value !== 'none') this.props.onChange(value)({});
+        if (value === 'matchReplaceHeaders') {
+            this.props.onChange(value)([]);
+        } else if (value !== 'none') {
+            this.props.onChange(value)({});
+        }
     };
 
     @action.bound
@@ -870,11 +1168,19 @@ class HeadersTransformConfig<T extends RequestTransform | ResponseTransform> ext
 
     @action.bound
     setHeadersValue(value: Headers) {
+        const { selected } = this;
+
         this.clearValues();
-        if (this.selected !== 'none') {
-            this.props.onChange(this.selected)(value);
+        if (selected === 'updateHeaders' || selected === 'replaceHeaders') {
+            this.props.onChange(selected)(value);
         }
     }
+
+    @action.bound
+    setMatchReplaceValue(value: MatchReplacePair[]) {
+        this.clearValues();
+        this.props.onChange('matchReplaceHeaders')(value);
+    }
 };
 
 @observer
@@ -887,7 +1193,8 @@ class BodyTransformConfig<T extends RequestTransform | ResponseTransform> extend
     private static readonly FIELDS = [
         'replaceBody',
         'replaceBodyFromFile',
-        'updateJsonBody'
+        'updateJsonBody',
+        'matchReplaceBody'
     ] as const;
 
     @computed
@@ -902,7 +1209,8 @@ class BodyTransformConfig<T extends RequestTransform | ResponseTransform> extend
             onTransformTypeChange,
             setBodyReplacement,
             selectBodyReplacementFile,
-            setJsonBodyUpdate
+            setJsonBodyUpdate,
+            setMatchReplaceBody
         } = this;
 
         const selected = _.find(BodyTransformConfig.FIELDS, (field) =>
@@ -915,8 +1223,15 @@ class BodyTransformConfig<T extends RequestTransform | ResponseTransform> extend
                 onChange={onTransformTypeChange}>
                 <option value='none'>Pass through the real { type } body</option>
                 <option value='replaceBody'>Replace the { type } body with a fixed value</option>
-                <option value='replaceBodyFromFile'>Replace the { type } body with a file</option>
+                <option
+                    value='replaceBodyFromFile'
+                    // URL & header rewrites are applied by the UI, which can't read body files
+                    disabled={requiresTransformCallback(_.omit(transform, 'matchReplaceBody'))}
+                >
+                    Replace the { type } body with a file
+                </option>
                 <option value='updateJsonBody'>Update values within a JSON { type } body</option>
+                <option value='matchReplaceBody'>Find & replace within the { type } body</option>
             </SelectTransform>
             {
                 selected === 'replaceBody'
@@ -947,6 +1262,11 @@ class BodyTransformConfig<T extends RequestTransform | ResponseTransform> extend
                         body={transform.updateJsonBody!}
                         updateBody={setJsonBodyUpdate}
                     />
+                : selected === 'matchReplaceBody'
+                    ? <MatchReplaceTransformConfig
+                        operations={transform.matchReplaceBody!}
+                        onChange={setMatchReplaceBody}
+                    />
                 : null
             }
         </TransformConfig>;
@@ -962,6 +1282,8 @@ class BodyTransformConfig<T extends RequestTransform | ResponseTransform> extend
             this.props.onChange('replaceBody')('');
         } else if (value === 'replaceBodyFromFile') {
             this.props.onChange('replaceBodyFromFile')('');
+        } else if (value === 'matchReplaceBody') {
+            this.props.onChange('matchReplaceBody')([]);
         }
     };
 
@@ -993,8 +1315,62 @@ class BodyTransformConfig<T extends RequestTransform | ResponseTransform> extend
         this.clearValues();
         this.props.onChange('updateJsonBody')(body);
     };
+
+    @action.bound
+    setMatchReplaceBody(operations: MatchReplacePair[]) {
+        this.clearValues();
+        this.props.onChange('matchReplaceBody')(operations);
+    };
+};
+
+const isValidRegex = (pattern: string) => {
+    try {
+        new RegExp(pattern);
+        return true;
+    } catch (e) {
+        return false;
+    }
 };
 
+const MatchReplaceTransformConfig = (props: {
+    operations: MatchReplacePair[],
+    onChange: (operations: MatchReplacePair[]) => void
+}) => <TransformDetails>
+    <ConfigExplanation>
+        Each regular expression is applied in order, replacing every match. Replacements
+        can include capture groups from the match, as $1, $2, etc.
+    </ConfigExplanation>
+    <MatchReplacePairs
+        operations={props.operations}
+        onChange={props.onChange}
+        keyPlaceholder='Regex to find, e.g. www\.example\.com'
+        valuePlaceholder='Replacement text, e.g. staging.example.com'
+    />
+</TransformDetails>;
+
+const MatchReplacePairs = (props: {
+    operations: MatchReplacePair[],
+    onChange: (operations: MatchReplacePair[]) => void,
+    keyPlaceholder: string,
+    valuePlaceholder: string
+}) => <EditablePairs<MatchReplacePair[]>
+    pairs={props.operations.map(({ pattern, replacement }) => ({
+        key: pattern,
+        value: replacement
+    }))}
+    // Incomplete or invalid patterns are ignored until they're fixed:
+    convertResult={(pairs: PairsArray) => pairs
+        // Empty patterns match between every character, so they're never useful:
+        .filter(({ key }) => key !== '' && isValidRegex(key))
+        .map(({ key, value }) => ({ pattern: key, replacement: value }))
+    }
+    onChange={props.onChange}
+    keyTitle='A regular expression to find'
+    keyPlaceholder={props.keyPlaceholder}
+    valuePlaceholder={props.valuePlaceholder}
+    allowEmptyValues={true}
+/>;
+
 const RawBodyTransfomConfig = (props: {
     type: 'request' | 'response',
     body: Buffer,
@@ -1088,7 +1464,92 @@ class PassThroughHandlerConfig extends HandlerConfig<PassThroughHandler> {
 }
 
 @observer
-class RequestBreakpointHandlerConfig extends HandlerConfig<RequestBreakpointHandler> {
+class WebSocketPassThroughHandlerConfig extends HandlerConfig<WebSocketPassThroughHandler> {
+    render() {
+        return <ConfigContainer>
+            <ConfigExplanation>
+                All matching WebSockets will be transparently passed through to the upstream target host.
+            </ConfigExplanation>
+        </ConfigContainer>;
+    }
+}
+
+const BreakpointConditionInput = styled(TextInput)`
+    width: 100%;
+    box-sizing: border-box;
+`;
+
+const AutoResumeInput = styled(TextInput)`
+    width: 80px;
+    margin-right: 5px;
+`;
+
+const BreakpointOptionsConfig = (props: {
+    options: BreakpointOptions,
+    onChange: (options: BreakpointOptions) => void
+}) => {
+    const { condition, autoResumeAfter } = props.options;
+    const description = condition && describeBreakpointCondition(condition);
+
+    return <>
+        <SectionLabel>Condition</SectionLabel>
+        <BreakpointConditionInput
+            value={condition ?? ''}
+            placeholder='Optional filters, e.g. status>=500 body*=error'
+            spellCheck={false}
+            onChange={(event: React.ChangeEvent<HTMLInputElement>) => props.onChange({
+                ...props.options,
+                condition: event.target.value || undefined
+            })}
+        />
+        <ConfigExplanation>
+            { description
+                ? <>
+                    Only { description } will breakpoint. All other matching traffic
+                    will continue automatically.
+                </>
+                : <>
+                    Optionally, add a condition using the same filters as the View page,
+                    to only breakpoint some of the matching traffic.
+                </>
+            }
+        </ConfigExplanation>
+
+        <SectionLabel>Auto-resume</SectionLabel>
+        <AutoResumeInput
+            type='number'
+            min='1'
+            value={autoResumeAfter ?? ''}
+            placeholder='Never'
+            onChange={(event: React.ChangeEvent<HTMLInputElement>) => {
+                const seconds = parseInt(event.target.value, 10);
+                props.onChange({
+                    ...props.options,
+                    autoResumeAfter: _.isNaN(seconds) || seconds < 1 ? undefined : seconds
+                });
+            }}
+        /> seconds
+        <ConfigExplanation>
+            { autoResumeAfter !== undefined
+                ? <>
+                    Paused traffic will resume unmodified after { autoResumeAfter } second{
+                        autoResumeAfter === 1 ? '' : 's'
+                    }, unless you start editing it first.
+                </>
+                : <>
+                    Optionally, resume paused traffic automatically after a number of seconds,
+                    so that forgotten breakpoints don't leave clients waiting indefinitely.
+                </>
+            }
+        </ConfigExplanation>
+    </>;
+};
+
+@inject('rulesStore')
+@observer
+class RequestBreakpointHandlerConfig extends HandlerConfig<RequestBreakpointHandler, {
+    rulesStore?: RulesStore
+}> {
     render() {
         return <ConfigContainer>
             <ConfigExplanation>
@@ -1099,12 +1560,21 @@ class RequestBreakpointHandlerConfig extends HandlerConfig<RequestBreakpointHand
                 the request elsewhere, edit the method, headers, or body before they are sent upstream,
                 or provide your own response manually so the request is never sent onwards at all.
             </ConfigExplanation>
+            <BreakpointOptionsConfig
+                options={this.props.handler}
+                onChange={(options) => this.props.onChange(
+                    new RequestBreakpointHandler(this.props.rulesStore!, options)
+                )}
+            />
         </ConfigContainer>;
     }
 }
 
+@inject('rulesStore')
 @observer
-class ResponseBreakpointHandlerConfig extends HandlerConfig<ResponseBreakpointHandler> {
+class ResponseBreakpointHandlerConfig extends HandlerConfig<ResponseBreakpointHandler, {
+    rulesStore?: RulesStore
+}> {
     render() {
         return <ConfigContainer>
             <ConfigExplanation>
@@ -1114,12 +1584,22 @@ class ResponseBreakpointHandlerConfig extends HandlerConfig<ResponseBreakpointHa
                 Once a response is breakpointed, you can rewrite the received message, to edit the status
                 code, headers or body before they're returned to the downstream HTTP client.
             </ConfigExplanation>
+            <BreakpointOptionsConfig
+                options={this.props.handler}
+                onChange={(options) => this.props.onChange(
+                    new ResponseBreakpointHandler(this.props.rulesStore!, options)
+                )}
+            />
         </ConfigContainer>;
     }
 }
 
+@inject('rulesStore')
 @observer
-class RequestAndResponseBreakpointHandlerConfig extends HandlerConfig<RequestAndResponseBreakpointHandler> {
+class RequestAndResponseBreakpointHandlerConfig extends HandlerConfig<
+    RequestAndResponseBreakpointHandler,
+    { rulesStore?: RulesStore }
+> {
     render() {
         return <ConfigContainer>
             <ConfigExplanation>
@@ -1135,10 +1615,380 @@ class RequestAndResponseBreakpointHandlerConfig extends HandlerConfig<RequestAnd
                 From a response breakpoint, you can rewrite a received response, to edit the status
                 code, headers or body before they're returned to the downstream HTTP client.
             </ConfigExplanation>
+            <BreakpointOptionsConfig
+                options={this.props.handler}
+                onChange={(options) => this.props.onChange(
+                    new RequestAndResponseBreakpointHandler(this.props.rulesStore!, options)
+                )}
+            />
         </ConfigContainer>;
     }
 }
 
+const InlineConfigInputs = styled.div`
+    display: flex;
+    flex-direction: row;
+    align-items: center;
+
+    > ${ConfigSelect} {
+        margin-right: 5px;
+    }
+`;
+
+const DelayInput = styled(TextInput)`
+    width: 80px;
+    margin-right: 5px;
+`;
+
+const DelayResponseBodyInput = styled(TextInput)`
+    margin-top: 5px;
+    width: 100%;
+    box-sizing: border-box;
+`;
+
+const parseDelayInput = (value: string) => {
+    const result = parseInt(value, 10);
+    return _.isNaN(result) ? undefined : result;
+};
+
+@inject('rulesStore')
+@observer
+class DelayHandlerConfig extends HandlerConfig<DelayHandler, {
+    rulesStore?: RulesStore
+}> {
+
+    @observable
+    mode: DelayConfig['mode'] = 'fixed';
+
+    // Used as the fixed delay, or the center of the jittered delay
+    @observable
+    duration: number | undefined = 1000;
+
+    @observable
+    min: number | undefined = 500;
+
+    @observable
+    max: number | undefined = 2000;
+
+    @observable
+    jitter: number | undefined = 200;
+
+    @observable
+    respond = false;
+
+    @observable
+    statusCode: number | undefined = 200;
+
+    @observable
+    body = '';
+
+    componentDidMount() {
+        // If any of our data fields change, rebuild & update the handler
+        disposeOnUnmount(this, reaction(() => (
+            JSON.stringify(_.pick(this, [
+                'mode', 'duration', 'min', 'max', 'jitter', 'respond', 'statusCode', 'body'
+            ]))
+        ), () => this.updateHandler()));
+
+        // If the handler changes (or when its set initially), update our data fields
+        disposeOnUnmount(this, autorun(() => {
+            const { delay, response } = this.props.handler;
+            runInAction(() => {
+                this.mode = delay.mode;
+                if (delay.mode === 'random') {
+                    this.min = delay.min;
+                    this.max = delay.max;
+                } else {
+                    this.duration = delay.duration;
+                    if (delay.mode === 'jitter') this.jitter = delay.jitter;
+                }
+
+                this.respond = !!response;
+                if (response) {
+                    this.statusCode = response.status;
+                    this.body = response.body;
+                }
+            });
+        }));
+    }
+
+    render() {
+        const { mode, duration, min, max, jitter, respond, statusCode, body } = this;
+
+        return <ConfigContainer>
+            <SectionLabel>Delay (milliseconds)</SectionLabel>
+            <InlineConfigInputs>
+                <ConfigSelect value={mode} onChange={this.setMode}>
+                    <option value='fixed'>Fixed delay of</option>
+                    <option value='random'>Random delay between</option>
+                    <option value='jitter'>Delay with jitter of</option>
+                </ConfigSelect>
+                { mode === 'random'
+                    ? <>
+                        <DelayInput
+                            type='number'
+                            min={0}
+                            value={min ?? ''}
+                            invalid={min === undefined || (max !== undefined && min > max)}
+                            onChange={(e) => this.setDelayValue('min', e.target.value)}
+                        />
+                        and
+                        <DelayInput
+                            type='number'
+                            min={0}
+                            value={max ?? ''}
+                            invalid={max === undefined || (min !== undefined && min > max)}
+                            onChange={(e) => this.setDelayValue('max', e.target.value)}
+                        />
+                    </>
+                    : <DelayInput
+                        type='number'
+                        min={0}
+                        value={duration ?? ''}
+                        invalid={duration === undefined}
+                        onChange={(e) => this.setDelayValue('duration', e.target.value)}
+                    />
+                }
+                { mode === 'jitter' && <>
+                    ±
+                    <DelayInput
+                        type='number'
+                        min={0}
+                        value={jitter ?? ''}
+                        invalid={jitter === undefined}
+                        onChange={(e) => this.setDelayValue('jitter', e.target.value)}
+                    />
+                </> }
+            </InlineConfigInputs>
+
+            <SectionLabel>Then</SectionLabel>
+            <ConfigSelect value={respond.toString()} onChange={this.setRespond}>
+                <option value='false'>Pass the request through to the target host</option>
+                <option value='true'>Return a fixed response</option>
+            </ConfigSelect>
+
+            { respond && <>
+                <SectionLabel>Status</SectionLabel>
+                <EditableStatus
+                    httpVersion={1}
+                    statusCode={statusCode}
+                    statusMessage={undefined}
+                    onChange={this.setStatus}
+                />
+
+                <SectionLabel>Response body</SectionLabel>
+                <DelayResponseBodyInput
+                    value={body}
+                    spellCheck={false}
+                    onChange={this.setBody}
+                />
+            </> }
+
+            <ConfigExplanation>
+                All matching requests will be held for {
+                    mode === 'fixed'
+                        ? `${duration}ms`
+                    : mode === 'random'
+                        ? `a random time between ${min}ms and ${max}ms`
+                    : `${duration}ms, plus or minus up to ${jitter}ms`
+                }, and then {
+                    respond
+                        ? `receive a ${statusCode} response`
+                        : 'passed through to the upstream target host'
+                }.
+            </ConfigExplanation>
+        </ConfigContainer>;
+    }
+
+    @action.bound
+    setMode(event: React.ChangeEvent<HTMLSelectElement>) {
+        this.mode = event.target.value as DelayConfig['mode'];
+    }
+
+    @action.bound
+    setDelayValue(field: 'duration' | 'min' | 'max' | 'jitter', value: string) {
+        this[field] = parseDelayInput(value);
+    }
+
+    @action.bound
+    setRespond(event: React.ChangeEvent<HTMLSelectElement>) {
+        this.respond = event.target.value === 'true';
+    }
+
+    @action.bound
+    setStatus(statusCode: number | undefined) {
+        this.statusCode = statusCode;
+    }
+
+    @action.bound
+    setBody(event: React.ChangeEvent<HTMLInputElement>) {
+        this.body = event.target.value;
+    }
+
+    private buildDelayConfig(): DelayConfig | undefined {
+        const { mode, duration, min, max, jitter } = this;
+
+        if (mode === 'random') {
+            if (min === undefined || max === undefined || min < 0 || min > max) return;
+            return { mode, min, max };
+        }
+
+        if (duration === undefined || duration < 0) return;
+        if (mode === 'fixed') return { mode, duration };
+
+        if (jitter === undefined || jitter < 0) return;
+        return { mode, duration, jitter };
+    }
+
+    updateHandler() {
+        const delayConfig = this.buildDelayConfig();
+        if (!delayConfig) return this.props.onInvalidState();
+
+        if (this.respond && (
+            !this.statusCode ||
+            this.statusCode < 100 ||
+            this.statusCode >= 1000
+        )) return this.props.onInvalidState();
+
+        this.props.onChange(
+            new DelayHandler(
+                this.props.rulesStore!,
+                delayConfig,
+                this.respond
+                    ? { status: this.statusCode!, body: this.body }
+                    : undefined
+            )
+        );
+    }
+}
+
+const FailureRateInput = styled(TextInput)`
+    width: 80px;
+    margin-right: 5px;
+`;
+
+const ChaosStatus = styled(EditableStatus)`
+    margin-top: 0;
+    margin-left: 5px;
+    flex-grow: 1;
+`;
+
+@inject('rulesStore')
+@observer
+class ChaosHandlerConfig extends HandlerConfig<ChaosHandler, {
+    rulesStore?: RulesStore
+}> {
+
+    @observable
+    failureRate: number | undefined = 10;
+
+    @observable
+    failureType: ChaosFailure['type'] = 'status';
+
+    @observable
+    statusCode: number | undefined = 503;
+
+    componentDidMount() {
+        // If any of our data fields change, rebuild & update the handler
+        disposeOnUnmount(this, reaction(() => (
+            JSON.stringify(_.pick(this, ['failureRate', 'failureType', 'statusCode']))
+        ), () => this.updateHandler()));
+
+        // If the handler changes (or when its set initially), update our data fields
+        disposeOnUnmount(this, autorun(() => {
+            const { failureRate, failure } = this.props.handler;
+            runInAction(() => {
+                this.failureRate = failureRate;
+                this.failureType = failure.type;
+                if (failure.type === 'status') this.statusCode = failure.status;
+            });
+        }));
+    }
+
+    render() {
+        const { failureRate, failureType, statusCode } = this;
+
+        return <ConfigContainer>
+            <SectionLabel>Failure rate (%)</SectionLabel>
+            <FailureRateInput
+                type='number'
+                min={0}
+                max={100}
+                value={failureRate ?? ''}
+                invalid={failureRate === undefined || failureRate < 0 || failureRate > 100}
+                onChange={this.setFailureRate}
+            />
+
+            <SectionLabel>Failed requests will</SectionLabel>
+            <InlineConfigInputs>
+                <ConfigSelect value={failureType} onChange={this.setFailureType}>
+                    <option value='status'>Receive a response with status</option>
+                    <option value='reset'>Have their connection closed</option>
+                    <option value='timeout'>Time out with no response</option>
+                </ConfigSelect>
+                { failureType === 'status' &&
+                    <ChaosStatus
+                        httpVersion={1}
+                        statusCode={statusCode}
+                        statusMessage={undefined}
+                        onChange={this.setStatus}
+                    />
+                }
+            </InlineConfigInputs>
+
+            <ConfigExplanation>
+                {failureRate}% of matching requests will be chosen at random and {
+                    failureType === 'status'
+                        ? `receive a ${statusCode} response`
+                    : failureType === 'reset'
+                        ? 'have their connection closed immediately'
+                    : 'be held open with no response until the client gives up'
+                }. All other matching requests will be passed through to the upstream target host.
+            </ConfigExplanation>
+        </ConfigContainer>;
+    }
+
+    @action.bound
+    setFailureRate(event: React.ChangeEvent<HTMLInputElement>) {
+        const failureRate = parseFloat(event.target.value);
+        this.failureRate = _.isNaN(failureRate) ? undefined : failureRate;
+    }
+
+    @action.bound
+    setFailureType(event: React.ChangeEvent<HTMLSelectElement>) {
+        this.failureType = event.target.value as ChaosFailure['type'];
+    }
+
+    @action.bound
+    setStatus(statusCode: number | undefined) {
+        this.statusCode = statusCode;
+    }
+
+    updateHandler() {
+        const { failureRate, failureType, statusCode } = this;
+
+        if (
+            failureRate === undefined ||
+            failureRate < 0 ||
+            failureRate > 100
+        ) return this.props.onInvalidState();
+
+        let failure: ChaosFailure;
+        if (failureType === 'status') {
+            if (!statusCode || statusCode < 100 || statusCode >= 1000) {
+                return this.props.onInvalidState();
+            }
+            failure = { type: 'status', status: statusCode };
+        } else {
+            failure = { type: failureType };
+        }
+
+        this.props.onChange(
+            new ChaosHandler(this.props.rulesStore!, failureRate, failure)
+        );
+    }
+}
+
 @observer
 class TimeoutHandlerConfig extends HandlerConfig<TimeoutHandler> {
     render() {
@@ -19,13 +19,18 @@ import {
     StaticResponseHandler,
     ForwardToHostHandler,
     TransformingHandler,
+    DelayHandler,
+    ChaosHandler,
     RequestBreakpointHandler,
     ResponseBreakpointHandler,
     RequestAndResponseBreakpointHandler,
     PassThroughHandler,
     TimeoutHandler,
     CloseConnectionHandler,
-    FromFileResponseHandler
+    FromFileResponseHandler,
+    TemplatedResponseHandler,
+    WebSocketPassThroughHandler,
+    WebSocketForwardToHostHandler
 } from '../../model/rules/rule-definitions';
 
 import { Select } from '../common/inputs';
@@ -66,6 +71,8 @@ const instantiateHandler = (
             return new StaticResponseHandler(200);
         case FromFileResponseHandler:
             return new FromFileResponseHandler(200, undefined, '');
+        case TemplatedResponseHandler:
+            return new TemplatedResponseHandler(200, {}, '');
         case PassThroughHandler:
             return new PassThroughHandler(rulesStore);
         case ForwardToHostHandler:
@@ -78,10 +85,18 @@ const instantiateHandler = (
             return new ResponseBreakpointHandler(rulesStore);
         case RequestAndResponseBreakpointHandler:
             return new RequestAndResponseBreakpointHandler(rulesStore);
+        case DelayHandler:
+            return new DelayHandler(rulesStore, { mode: 'fixed', duration: 1000 });
+        case ChaosHandler:
+            return new ChaosHandler(rulesStore, 10, { type: 'status', status: 503 });
         case TimeoutHandler:
             return new TimeoutHandler();
         case CloseConnectionHandler:
             return new CloseConnectionHandler();
+        case WebSocketPassThroughHandler:
+            return new WebSocketPassThroughHandler(rulesStore);
+        case WebSocketForwardToHostHandler:
+            return new WebSocketForwardToHostHandler('', true, rulesStore);
     }
 }
 
@@ -97,20 +112,32 @@ export const HandlerSelector = inject('rulesStore', 'accountStore')(observer((p:
     rulesStore?: RulesStore,
     accountStore?: AccountStore,
     value: Handler,
+    isWebSocketRule: boolean,
     onChange: (handler: Handler) => void
 }) => {
-    const allHandlers = [
-        StaticResponseHandler,
-        supportsFileHandlers() && FromFileResponseHandler,
-        PassThroughHandler,
-        ForwardToHostHandler,
-        supportsTransforms() && TransformingHandler,
-        RequestBreakpointHandler,
-        ResponseBreakpointHandler,
-        RequestAndResponseBreakpointHandler,
-        TimeoutHandler,
-        CloseConnectionHandler
-    ].filter(Boolean);
+    const allHandlers = (p.isWebSocketRule
+        ? [
+            WebSocketPassThroughHandler,
+            WebSocketForwardToHostHandler,
+            TimeoutHandler,
+            CloseConnectionHandler
+        ]
+        : [
+            StaticResponseHandler,
+            supportsFileHandlers() && FromFileResponseHandler,
+            TemplatedResponseHandler,
+            PassThroughHandler,
+            ForwardToHostHandler,
+            supportsTransforms() && TransformingHandler,
+            RequestBreakpointHandler,
+            ResponseBreakpointHandler,
+            RequestAndResponseBreakpointHandler,
+            DelayHandler,
+            ChaosHandler,
+            TimeoutHandler,
+            CloseConnectionHandler
+        ] as Array<HandlerClass | false>
+    ).filter(Boolean);
 
     // Do some type tricks to make TS understand that we've filtered 'false' out of the handlers.
     type DefinedHandler = Exclude<typeof allHandlers[number], false>;
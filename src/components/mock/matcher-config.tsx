@@ -11,6 +11,7 @@ import { css, styled } from '../../styles';
 import { tryParseJson } from '../../util';
 
 import { Matcher, MatcherClass, MatcherLookup, MatcherClassKey } from "../../model/rules/rules";
+import { CookieMatcher, FormDataMatcher } from "../../model/rules/rule-definitions";
 
 import { TextInput } from '../common/inputs';
 import { EditablePairs, PairsArray } from '../common/editable-pairs';
@@ -60,6 +61,10 @@ export function MatcherConfiguration(props:
             return <ExactQueryMatcherConfig {...configProps} />;
         case matchers.HeaderMatcher:
             return <HeaderMatcherConfig {...configProps} />;
+        case CookieMatcher:
+            return <CookieMatcherConfig {...configProps} />;
+        case FormDataMatcher:
+            return <FormDataMatcherConfig {...configProps} />;
         case matchers.RawBodyMatcher:
             return <RawBodyExactMatcherConfig {...configProps} />;
         case matchers.RawBodyIncludesMatcher:
@@ -563,6 +568,105 @@ class HeaderMatcherConfig extends MatcherConfig<matchers.HeaderMatcher> {
     }
 }
 
+type FlatPairs = { [key: string]: string };
+
+const flatPairsToPairsArray = (pairs: FlatPairs): PairsArray =>
+    Object.entries(pairs).map(([key, value]) => ({ key, value }));
+
+const pairsArrayToFlatPairs = (pairs: PairsArray): FlatPairs =>
+    _.fromPairs(pairs.map(({ key, value }) => [key, value]));
+
+// Mockttp's cookie matcher matches a single name=value pair, so each matcher configures just
+// one cookie. Rules can require more cookies by adding more cookie matchers.
+@observer
+class CookieMatcherConfig extends MatcherConfig<CookieMatcher> {
+
+    render() {
+        const { matcherIndex, matcher } = this.props;
+
+        const cookie = flatPairsToPairsArray(matcher?.cookie || {});
+
+        return <MatcherConfigContainer>
+            { matcherIndex !== undefined &&
+                <ConfigLabel>
+                    { matcherIndex !== 0 && 'and ' } with cookie
+                </ConfigLabel>
+            }
+            <EditablePairs
+                pairs={cookie}
+                convertResult={pairsArrayToFlatPairs}
+                onChange={this.onChange}
+                keyPlaceholder='Cookie name'
+                valuePlaceholder='Cookie value'
+                allowEmptyValues={true}
+                maxPairs={1}
+            />
+        </MatcherConfigContainer>;
+    }
+
+    @action.bound
+    onChange(cookie: FlatPairs) {
+        try {
+            if (Object.keys(cookie).some(key => !key)) {
+                throw new Error("Invalid cookie; cookie names can't be empty");
+            }
+
+            if (Object.keys(cookie).length === 0) {
+                this.props.onChange();
+            } else {
+                this.props.onChange(new CookieMatcher(cookie));
+            }
+        } catch (e) {
+            console.log(e);
+            this.props.onInvalidState();
+        }
+    }
+}
+
+@observer
+class FormDataMatcherConfig extends MatcherConfig<FormDataMatcher> {
+
+    render() {
+        const { matcherIndex, matcher } = this.props;
+
+        const formData = flatPairsToPairsArray(matcher?.formData || {});
+
+        return <MatcherConfigContainer>
+            { matcherIndex !== undefined &&
+                <ConfigLabel>
+                    { matcherIndex !== 0 && 'and ' } with form data including
+                </ConfigLabel>
+            }
+            <EditablePairs
+                pairs={formData}
+                convertResult={pairsArrayToFlatPairs}
+                onChange={this.onChange}
+                keyPlaceholder='Form field name'
+                valuePlaceholder='Form field value'
+                allowEmptyValues={true}
+            />
+        </MatcherConfigContainer>;
+    }
+
+    @action.bound
+    onChange(formData: FlatPairs) {
+        try {
+            if (Object.keys(formData).some(key => !key)) {
+                throw new Error("Invalid form data; form field names can't be empty");
+            }
+
+            if (Object.keys(formData).length === 0) {
+                this.props.onChange();
+            } else {
+                this.props.onChange(new FormDataMatcher(formData));
+            }
+        } catch (e) {
+            console.log(e);
+            this.props.onInvalidState();
+        }
+    }
+}
+
 const BodyContainer = styled.div<{ error?: boolean }>`
     > div {
         border-radius: 4px;
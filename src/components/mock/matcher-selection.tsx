@@ -11,7 +11,8 @@ import {
     serverVersion as serverVersionObservable,
     versionSatisfies,
     HOST_MATCHER_SERVER_RANGE,
-    BODY_MATCHING_RANGE
+    BODY_MATCHING_RANGE,
+    WEBSOCKET_RULE_RANGE
 } from '../../services/service-versions';
 import { Button, Select } from '../common/inputs';
 
@@ -23,11 +24,17 @@ import {
     MatcherClassKey,
     InitialMatcher,
     InitialMatcherClass,
-    InitialMatcherClasses
+    InitialMatcherClasses,
+    isWebSocketRule
 } from '../../model/rules/rules';
 import {
     summarizeMatcherClass
 } from '../../model/rules/rule-descriptions';
+import {
+    CookieMatcher,
+    FormDataMatcher,
+    WebSocketWildcardMatcher
+} from '../../model/rules/rule-definitions';
 
 import { MatcherConfiguration } from './matcher-config';
 
@@ -71,6 +78,17 @@ export const InitialMatcherRow = React.forwardRef((p: {
     matcher?: InitialMatcher,
     onChange: (m: InitialMatcher) => void
 }, ref: React.Ref<HTMLSelectElement>) => {
+    const serverVersion = serverVersionObservable.state === 'fulfilled'
+        ? serverVersionObservable.value as string
+        : undefined;
+
+    // Only offer WebSocket rules if the server supports them (or this already is one)
+    const availableMatchers = InitialMatcherClasses.filter((matcherClass) =>
+        matcherClass !== WebSocketWildcardMatcher ||
+        p.matcher instanceof WebSocketWildcardMatcher ||
+        versionSatisfies(serverVersion, WEBSOCKET_RULE_RANGE)
+    );
+
     return <MatcherRow>
         <MatcherInputsContainer>
             <Select
@@ -90,7 +108,7 @@ export const InitialMatcherRow = React.forwardRef((p: {
                     </option>
                 }
 
-                <MatcherOptions matchers={InitialMatcherClasses} />
+                <MatcherOptions matchers={availableMatchers} />
             </Select>
         </MatcherInputsContainer>
     </MatcherRow>
@@ -225,10 +243,15 @@ export class NewMatcherRow extends React.Component<{
             matchers.ExactQueryMatcher,
             matchers.HeaderMatcher,
             ...(versionSatisfies(serverVersion, BODY_MATCHING_RANGE) ? [
-                matchers.RawBodyMatcher,
-                matchers.RawBodyIncludesMatcher,
-                matchers.JsonBodyMatcher,
-                matchers.JsonBodyFlexibleMatcher
+                CookieMatcher,
+                // WebSocket upgrade requests have no body, so body matchers never apply there
+                ...(!isWebSocketRule({ matchers: this.props.existingMatchers }) ? [
+                    FormDataMatcher,
+                    matchers.RawBodyMatcher,
+                    matchers.RawBodyIncludesMatcher,
+                    matchers.JsonBodyMatcher,
+                    matchers.JsonBodyFlexibleMatcher
+                ] : [])
             ] : [])
         ];
 
@@ -8,28 +8,34 @@ import { styled } from '../../styles';
 import { WithInjected } from '../../types';
 import { Icon } from '../../icons';
 import { reportError } from '../../errors';
-import { uploadFile, saveFile } from '../../util/ui';
+import { uploadFile, saveFile, useHotkeys, isEditable } from '../../util/ui';
 
 import { RulesStore } from '../../model/rules/rules-store';
 import { AccountStore } from '../../model/account/account-store';
+import { EventsStore } from '../../model/http/events-store';
 import { getNewRule } from '../../model/rules/rule-definitions';
 import {
     cloneItem,
     getItemAtPath,
     isRuleGroup,
+    HtkMockRuleGroup,
     ItemPath,
     mapRules
 } from '../../model/rules/rules-structure';
 import { serializeRules } from '../../model/rules/rule-serialization';
+import { importExternalRules } from '../../model/rules/rule-import';
 
 import { clickOnEnter } from '../component-utils';
 import { Button, SecondaryButton } from '../common/inputs';
 import { MockRuleList } from './mock-rule-list';
+import { TrafficReplayPanel } from './traffic-replay-panel';
+import { RuleProfileSelector } from './rule-profile-selector';
 
 interface MockPageProps {
     className?: string;
     rulesStore: RulesStore;
     accountStore: AccountStore;
+    eventsStore: EventsStore;
 
     navigate: (path: string) => void;
     initialRuleId?: string;
@@ -85,13 +91,37 @@ const OtherButton = styled(SecondaryButton)`
     margin-left: 10px;
 `;
 
+const MockPageKeyboardShortcuts = (props: {
+    onUndo: () => void,
+    onRedo: () => void
+}) => {
+    // Inputs & editors have their own undo history, so we only handle undo elsewhere
+    useHotkeys('Ctrl+z, Cmd+z', (event) => {
+        if (isEditable(event.target)) return;
+        props.onUndo();
+        event.preventDefault();
+    }, [props.onUndo]);
+
+    useHotkeys('Ctrl+Shift+z, Cmd+Shift+z', (event) => {
+        if (isEditable(event.target)) return;
+        props.onRedo();
+        event.preventDefault();
+    }, [props.onRedo]);
+
+    return null;
+};
+
 @inject('rulesStore')
 @inject('accountStore')
+@inject('eventsStore')
 @observer
 class MockPage extends React.Component<MockPageProps> {
 
     containerRef = React.createRef<HTMLDivElement>();
 
+    @observable
+    showReplayPanel = false;
+
     // Map from rule id -> collapsed (true/false)
     @observable
     collapsedRulesMap = _.fromPairs(
@@ -146,14 +176,25 @@ class MockPage extends React.Component<MockPageProps> {
             deleteDraftItem,
             moveDraftRule,
             updateGroupTitle,
-            combineDraftRulesAsGroup
+            combineDraftRulesAsGroup,
+            undoDraftChange,
+            redoDraftChange
         } = this.props.rulesStore;
         const { isPaidUser } = this.props.accountStore;
 
         return <MockPageContainer ref={this.containerRef}>
+            <MockPageKeyboardShortcuts
+                onUndo={undoDraftChange}
+                onRedo={redoDraftChange}
+            />
             <MockPageHeader>
                 <MockHeading>Mock & Rewrite HTTP</MockHeading>
 
+                <RuleProfileSelector
+                    rulesStore={this.props.rulesStore}
+                    isPaidUser={isPaidUser}
+                />
+
                 <OtherButton
                     disabled={!areSomeRulesNonDefault}
                     onClick={this.resetToDefaults}
@@ -168,7 +209,8 @@ class MockPage extends React.Component<MockPageProps> {
                     onKeyPress={clickOnEnter}
                     title={
                         isPaidUser
-                            ? 'Import a saved set of rules'
+                            ? 'Import a saved set of rules into this profile, or add rules from WireMock ' +
+                                'stub mappings or a Postman collection'
                             : (
                                 'With Pro: Import a set of saved rules, so you can build your ' +
                                 'own ready-to-use collections of predefined rules'
@@ -177,13 +219,28 @@ class MockPage extends React.Component<MockPageProps> {
                 >
                     <Icon icon={['fas', 'folder-open']} />
                 </OtherButton>
+                <OtherButton
+                    disabled={!isPaidUser}
+                    onClick={this.toggleReplayPanel}
+                    onKeyPress={clickOnEnter}
+                    title={
+                        isPaidUser
+                            ? 'Replay recorded traffic, mocking each request with its recorded response'
+                            : (
+                                'With Pro: Replay recorded traffic from a HAR file or the captured ' +
+                                'requests, mocking each request with its recorded response'
+                            )
+                    }
+                >
+                    <Icon icon={['fas', 'play']} />
+                </OtherButton>
                 <OtherButton
                     disabled={!isPaidUser || !areSomeRulesNonDefault || draftRules.items.length === 0}
                     onClick={this.exportRules}
                     onKeyPress={clickOnEnter}
                     title={
                         isPaidUser
-                            ? 'Export these rules'
+                            ? 'Export the rules in this profile'
                             : 'With Pro: Export these rules, to save them for quick reuse later'
                     }
                 >
@@ -207,6 +264,14 @@ class MockPage extends React.Component<MockPageProps> {
                 </SaveButton>
             </MockPageHeader>
 
+            { this.showReplayPanel &&
+                <TrafficReplayPanel
+                    exchanges={this.props.eventsStore.exchanges}
+                    onCreateGroup={this.addReplayGroup}
+                    onClose={this.toggleReplayPanel}
+                />
+            }
+
             <MockPageScrollContainer>
                 <MockRuleList
                     activeRules={rules}
@@ -304,6 +369,17 @@ class MockPage extends React.Component<MockPageProps> {
         }, 100);
     }
 
+    @action.bound
+    toggleReplayPanel() {
+        this.showReplayPanel = !this.showReplayPanel;
+    }
+
+    @action.bound
+    addReplayGroup(group: HtkMockRuleGroup) {
+        this.props.rulesStore.addDraftItem(group);
+        this.showReplayPanel = false;
+    }
+
     @action.bound
     toggleRuleCollapsed(ruleId: string) {
         this.collapsedRulesMap[ruleId] = !this.collapsedRulesMap[ruleId];
@@ -312,14 +388,36 @@ class MockPage extends React.Component<MockPageProps> {
     readonly importRules = async () => {
         const uploadedFile = await uploadFile('text', [
             '.htkrules',
+            '.json',
             'application/json',
             'application/htkrules+json'
         ]);
         if (uploadedFile) {
             try {
-                this.props.rulesStore.loadSavedRules(
-                    JSON.parse(uploadedFile)
-                );
+                const data = JSON.parse(uploadedFile);
+
+                // Rules from other tools (WireMock & Postman) are added as a new draft group,
+                // whilst our own rule files replace the existing rules completely.
+                const externalImport = importExternalRules(data);
+                if (!externalImport) {
+                    this.props.rulesStore.loadSavedRules(data);
+                    return;
+                }
+
+                const { format, group, issues } = externalImport;
+                if (group.items.length) {
+                    this.props.rulesStore.addDraftItem(group);
+                }
+
+                if (issues.length) {
+                    const issueList = issues.slice(0, 20).map((issue) => ` - ${issue}`);
+                    if (issues.length > 20) issueList.push(` ...and ${issues.length - 20} more`);
+
+                    alert(
+                        `Imported ${group.items.length} rules from ${format}, but some parts ` +
+                        `could not be converted:\n\n${issueList.join('\n')}`
+                    );
+                }
             } catch (e) {
                 reportError(e);
                 alert(`Rules could not be imported: ${e}`);
@@ -328,11 +426,12 @@ class MockPage extends React.Component<MockPageProps> {
     }
 
     readonly exportRules = async () => {
-        const rulesetContent = JSON.stringify(
-            serializeRules(this.props.rulesStore.draftRules)
-        );
+        const { draftRules, activeProfileName } = this.props.rulesStore;
+        const rulesetContent = JSON.stringify(serializeRules(draftRules));
 
         const filename = `HTTPToolkit_${
+            _.snakeCase(activeProfileName)
+        }_${
             dateFns.format(Date.now(), 'YYYY-MM-DD_HH-mm')
         }.htkrules`;
 
@@ -343,6 +442,6 @@ class MockPage extends React.Component<MockPageProps> {
 // Exclude stores etc from the external props, as they're injected
 const InjectedMockPage = MockPage as unknown as WithInjected<
     typeof MockPage,
-    'rulesStore' | 'accountStore' | 'navigate'
+    'rulesStore' | 'accountStore' | 'eventsStore' | 'navigate'
 >;
 export { InjectedMockPage as MockPage };
\ No newline at end of file
@@ -7,16 +7,28 @@ import { Method, matchers } from 'mockttp';
 import { Draggable, DraggingStyle, NotDraggingStyle, DraggableStateSnapshot } from 'react-beautiful-dnd';
 
 import { styled, css } from '../../styles';
-import { Icon } from '../../icons';
+import { Icon, WarningIcon } from '../../icons';
 
 import { getMethodColor } from '../../model/http/exchange-colors';
-import { Matcher, Handler, isPaidHandler } from '../../model/rules/rules';
+import {
+    Matcher,
+    Handler,
+    CompletionChecker,
+    isPaidHandler,
+    isWebSocketRule
+} from '../../model/rules/rules';
+import {
+    PassThroughHandler,
+    WebSocketPassThroughHandler
+} from '../../model/rules/rule-definitions';
 import { HtkMockRule, ItemPath } from '../../model/rules/rules-structure';
 import {
     summarizeMatcher,
-    summarizeHandler
+    summarizeHandler,
+    summarizeMatchCount
 } from '../../model/rules/rule-descriptions';
 import { AccountStore } from '../../model/account/account-store';
+import { RulesStore } from '../../model/rules/rules-store';
 
 import { clickOnEnter, noPropagation } from '../component-utils';
 import { GetProOverlay } from '../account/pro-placeholders';
@@ -28,6 +40,7 @@ import {
 } from './matcher-selection';
 import { HandlerSelector } from './handler-selection';
 import { HandlerConfiguration } from './handler-config';
+import { CompletionCheckerSelector } from './completion-checker-selection';
 import { DragHandle } from './mock-drag-handle';
 import { IconMenu, IconMenuButton } from './mock-item-menu';
 
@@ -140,6 +153,18 @@ const Summary = styled.h1`
     margin: -5px;
 `;
 
+const MatchCount = styled.span`
+    font-size: ${p => p.theme.textSize};
+    opacity: 0.7;
+    margin-left: 10px;
+`;
+
+const ShadowedRuleWarning = styled.p`
+    font-size: ${p => p.theme.textSize};
+    font-style: italic;
+    margin-bottom: 10px;
+`;
+
 const ArrowIcon = styled(Icon).attrs(() => ({
     icon: ['fas', 'arrow-left']
 }))`
@@ -241,9 +266,11 @@ const extendRowDraggableStyles = (
 };
 
 @inject('accountStore')
+@inject('rulesStore')
 @observer
 export class RuleRow extends React.Component<{
     accountStore?: AccountStore,
+    rulesStore?: RulesStore,
 
     index: number;
     path: ItemPath;
@@ -289,6 +316,11 @@ export class RuleRow extends React.Component<{
             isPaidUser,
             getPro
         } = this.props.accountStore!;
+        const matchCount = this.props.rulesStore!.ruleMatchCounts[rule.id] || 0;
+        const shadowingRule = this.props.rulesStore!.shadowedDraftRules[rule.id];
+        const shadowedWarning = shadowingRule && 'This rule will never match, because ' +
+            `an earlier rule matching '${summarizeMatcher(shadowingRule)}' always ` +
+            'handles all the same requests first.';
 
         const initialMatcher = rule.matchers.length ? rule.matchers[0] : undefined;
 
@@ -349,11 +381,15 @@ export class RuleRow extends React.Component<{
 
                 <MatcherOrHandler>
                     <Summary collapsed={collapsed} title={summarizeMatcher(rule)}>
+                        { shadowedWarning && <WarningIcon title={shadowedWarning} /> }
                         { summarizeMatcher(rule) }
                     </Summary>
 
                     {
                         !collapsed && <Details>
+                            { shadowedWarning && <ShadowedRuleWarning>
+                                <WarningIcon /> { shadowedWarning }
+                            </ShadowedRuleWarning> }
                             <div>Match:</div>
 
                             <MatchersList>
@@ -389,6 +425,9 @@ export class RuleRow extends React.Component<{
                 <MatcherOrHandler>
                     <Summary collapsed={collapsed} title={ summarizeHandler(rule) }>
                         { summarizeHandler(rule) }
+                        { (matchCount > 0 || !isNewRule) && <MatchCount>
+                            ({ summarizeMatchCount(rule, matchCount) })
+                        </MatchCount> }
                     </Summary>
 
                     {
@@ -396,6 +435,7 @@ export class RuleRow extends React.Component<{
                             <div>Then:</div>
                             <HandlerSelector
                                 value={ruleHandler}
+                                isWebSocketRule={isWebSocketRule(rule)}
                                 onChange={this.updateHandler}
                             />
 
@@ -413,6 +453,11 @@ export class RuleRow extends React.Component<{
                                     onChange={this.updateHandler}
                                 />
                             }
+
+                            <CompletionCheckerSelector
+                                value={rule.completionChecker}
+                                onChange={this.updateCompletionChecker}
+                            />
                         </Details>
                     }
                 </MatcherOrHandler>
@@ -456,7 +501,20 @@ export class RuleRow extends React.Component<{
 
     @action.bound
     updateMatcher(index: number, ...matchers: Matcher[]) {
-        this.props.rule.matchers.splice(index, 1, ...matchers);
+        const { rule } = this.props;
+        const wasWebSocketRule = isWebSocketRule(rule);
+
+        rule.matchers.splice(index, 1, ...matchers);
+
+        // HTTP & WebSocket rules use different handlers, so if the rule type changes
+        // then we need to reset the handler to the default for the new type.
+        if (isWebSocketRule(rule) !== wasWebSocketRule) {
+            const rulesStore = this.props.rulesStore!;
+            rule.handler = isWebSocketRule(rule)
+                ? new WebSocketPassThroughHandler(rulesStore)
+                : new PassThroughHandler(rulesStore);
+            this.demoHandler = undefined;
+        }
     }
 
     @action.bound
@@ -465,6 +523,11 @@ export class RuleRow extends React.Component<{
         rule.matchers = rule.matchers.filter(m => m !== matcher);
     }
 
+    @action.bound
+    updateCompletionChecker(completionChecker: CompletionChecker) {
+        this.props.rule.completionChecker = completionChecker;
+    }
+
     @action.bound
     updateHandler(handler: Handler) {
         const { isPaidUser } = this.props.accountStore!;
@@ -0,0 +1,127 @@
+import * as React from 'react';
+import { observer } from 'mobx-react';
+
+import { styled } from '../../styles';
+import { Icon, IconProp } from '../../icons';
+
+import { RulesStore } from '../../model/rules/rules-store';
+
+import { clickOnEnter } from '../component-utils';
+import { Select, SecondaryButton } from '../common/inputs';
+
+const ProfileSelectorContainer = styled.div`
+    display: flex;
+    flex-direction: row;
+    align-items: center;
+    margin-right: 10px;
+`;
+
+const ProfileSelect = styled(Select)`
+    font-size: ${p => p.theme.textSize};
+    width: auto;
+    max-width: 200px;
+    padding: 4px;
+`;
+
+const ProfileButton = styled(SecondaryButton)`
+    border: none;
+    font-size: ${p => p.theme.textSize};
+    padding: 5px 6px;
+    margin-left: 4px;
+`;
+
+const ProfileActionButton = (p: {
+    icon: IconProp,
+    title: string,
+    disabled: boolean,
+    onClick: () => void
+}) => <ProfileButton
+    disabled={p.disabled}
+    onClick={p.onClick}
+    onKeyPress={clickOnEnter}
+    title={p.title}
+>
+    <Icon icon={p.icon} />
+</ProfileButton>;
+
+const promptForName = (message: string, defaultName: string) => {
+    const name = prompt(message, defaultName);
+    return name?.trim() || undefined;
+};
+
+export const RuleProfileSelector = observer((p: {
+    rulesStore: RulesStore,
+    isPaidUser: boolean
+}) => {
+    const {
+        ruleProfiles,
+        activeProfileId,
+        activeProfileName,
+        switchRuleProfile,
+        createRuleProfile,
+        duplicateRuleProfile,
+        renameRuleProfile,
+        deleteRuleProfile
+    } = p.rulesStore;
+    const disabled = !p.isPaidUser;
+
+    return <ProfileSelectorContainer>
+        <ProfileSelect
+            value={activeProfileId}
+            disabled={disabled}
+            onChange={(e) => switchRuleProfile(e.target.value)}
+            title={
+                p.isPaidUser
+                    ? 'Switch between sets of rules'
+                    : 'With Pro: Create multiple named sets of rules, and switch between them'
+            }
+        >
+            { ruleProfiles.map((profile) =>
+                <option key={profile.id} value={profile.id}>
+                    { profile.name }
+                </option>
+            ) }
+        </ProfileSelect>
+
+        <ProfileActionButton
+            icon={['fas', 'plus']}
+            title='Create a new rule profile, starting from the default rules'
+            disabled={disabled}
+            onClick={() => {
+                const name = promptForName('Name the new rule profile:', 'New profile');
+                if (name) createRuleProfile(name);
+            }}
+        />
+        <ProfileActionButton
+            icon={['far', 'clone']}
+            title='Duplicate this rule profile'
+            disabled={disabled}
+            onClick={() => {
+                const name = promptForName(
+                    'Name the duplicated rule profile:',
+                    `${activeProfileName} (copy)`
+                );
+                if (name) duplicateRuleProfile(name);
+            }}
+        />
+        <ProfileActionButton
+            icon={['fas', 'edit']}
+            title='Rename this rule profile'
+            disabled={disabled}
+            onClick={() => {
+                const name = promptForName('Rename this rule profile:', activeProfileName);
+                if (name) renameRuleProfile(activeProfileId, name);
+            }}
+        />
+        <ProfileActionButton
+            icon={['far', 'trash-alt']}
+            title='Delete this rule profile'
+            disabled={disabled || ruleProfiles.length < 2}
+            onClick={() => {
+                if (confirm(`Delete the '${activeProfileName}' rule profile, and all its rules?`)) {
+                    deleteRuleProfile(activeProfileId);
+                }
+            }}
+        />
+    </ProfileSelectorContainer>;
+});
@@ -0,0 +1,162 @@
+import * as React from 'react';
+import { action, observable } from 'mobx';
+import { observer } from 'mobx-react';
+
+import { styled } from '../../styles';
+import { Icon } from '../../icons';
+import { reportError } from '../../errors';
+import { uploadFile } from '../../util/ui';
+
+import { HttpExchange } from '../../types';
+import { parseHar } from '../../model/http/har';
+import { HtkMockRuleGroup } from '../../model/rules/rules-structure';
+import {
+    buildReplayRuleGroup,
+    getRecordedExchanges,
+    getRecordedExchangesFromHar,
+    RecordedExchange,
+    ReplayMatchStrictness,
+    ReplayMissBehaviour
+} from '../../model/rules/traffic-replay';
+
+import { clickOnEnter } from '../component-utils';
+import { Button, SecondaryButton, Select } from '../common/inputs';
+
+const ReplayPanelContainer = styled.div`
+    box-sizing: border-box;
+    width: 100%;
+    padding: 10px 40px;
+    background-color: ${p => p.theme.containerBackground};
+    border-bottom: 1px solid rgba(0,0,0,0.12);
+
+    display: flex;
+    flex-direction: row;
+    align-items: center;
+    flex-wrap: wrap;
+
+    font-size: ${p => p.theme.textSize};
+
+    > * {
+        margin: 5px 10px 5px 0;
+    }
+`;
+
+const ReplayLabel = styled.label`
+    display: flex;
+    flex-direction: row;
+    align-items: center;
+
+    > select {
+        margin-left: 5px;
+        width: auto;
+    }
+`;
+
+const ReplayButton = styled(Button)`
+    font-size: ${p => p.theme.textSize};
+    padding: 6px 16px;
+`;
+
+const CloseButton = styled(SecondaryButton)`
+    border: none;
+    margin-left: auto;
+`;
+
+@observer
+export class TrafficReplayPanel extends React.Component<{
+    exchanges: HttpExchange[],
+    onCreateGroup: (group: HtkMockRuleGroup) => void,
+    onClose: () => void
+}> {
+
+    @observable
+    matching: ReplayMatchStrictness = 'query';
+
+    @observable
+    onMiss: ReplayMissBehaviour = 'pass-through';
+
+    render() {
+        const { exchanges, onClose } = this.props;
+
+        return <ReplayPanelContainer>
+            <span>Replay recorded responses:</span>
+
+            <ReplayLabel>
+                Match requests by
+                <Select
+                    value={this.matching}
+                    onChange={(e) => this.setMatching(e.target.value as ReplayMatchStrictness)}
+                >
+                    <option value='method-and-path'>Method & path</option>
+                    <option value='query'>Method, path & query</option>
+                    <option value='body'>Method, path, query & body</option>
+                </Select>
+            </ReplayLabel>
+
+            <ReplayLabel>
+                Other requests
+                <Select
+                    value={this.onMiss}
+                    onChange={(e) => this.setOnMiss(e.target.value as ReplayMissBehaviour)}
+                >
+                    <option value='pass-through'>Continue to later rules</option>
+                    <option value='not-found'>Receive a 404, if sent to a recorded host</option>
+                </Select>
+            </ReplayLabel>
+
+            <ReplayButton
+                disabled={exchanges.length === 0}
+                onClick={this.replayCapturedTraffic}
+                onKeyPress={clickOnEnter}
+                title='Create rules to replay the responses of all currently captured exchanges'
+            >
+                From captured traffic
+            </ReplayButton>
+            <ReplayButton
+                onClick={this.replayHar}
+                onKeyPress={clickOnEnter}
+                title='Create rules to replay the responses recorded in a HAR file'
+            >
+                From a HAR file
+            </ReplayButton>
+
+            <CloseButton onClick={onClose} onKeyPress={clickOnEnter} title='Close'>
+                <Icon icon={['fas', 'times']} />
+            </CloseButton>
+        </ReplayPanelContainer>;
+    }
+
+    @action.bound
+    setMatching(matching: ReplayMatchStrictness) {
+        this.matching = matching;
+    }
+
+    @action.bound
+    setOnMiss(onMiss: ReplayMissBehaviour) {
+        this.onMiss = onMiss;
+    }
+
+    private createGroup(title: string, recordedExchanges: RecordedExchange[]) {
+        this.props.onCreateGroup(buildReplayRuleGroup(title, recordedExchanges, {
+            matching: this.matching,
+            onMiss: this.onMiss
+        }));
+    }
+
+    readonly replayCapturedTraffic = () => {
+        this.createGroup('Replayed traffic', getRecordedExchanges(this.props.exchanges));
+    }
+
+    readonly replayHar = async () => {
+        const uploadedFile = await uploadFile('text', ['.har', 'application/har', 'application/har+json']);
+        if (!uploadedFile) return;
+
+        try {
+            const har = await parseHar(JSON.parse(uploadedFile));
+            this.createGroup('Replayed HAR traffic', getRecordedExchangesFromHar(har));
+        } catch (e) {
+            reportError(e);
+            alert(`HAR could not be replayed: ${e}`);
+        }
+    }
+}
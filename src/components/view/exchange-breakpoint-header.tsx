@@ -30,6 +30,7 @@ const SecondaryHeaderButton = styled(SecondaryButton)`${HeaderButtonStyles}`;
 export const ExchangeRequestBreakpointHeader = (p: {
     onResume: () => void,
     onCreateResponse: () => void,
+    onSaveAsRule: () => void,
     onClose: () => void
 }) =>
     <ExchangeHeaderCard>
@@ -54,6 +55,14 @@ export const ExchangeRequestBreakpointHeader = (p: {
             Respond directly
         </SecondaryHeaderButton>
 
+        <SecondaryHeaderButton
+            title='Create a rule that automatically makes these same edits to all matching requests from now on'
+            onClick={p.onSaveAsRule}
+            onKeyPress={clickOnEnter}
+        >
+            Save edits as a rule
+        </SecondaryHeaderButton>
+
         { versionSatisfies(serverVersion.value as string, CLOSE_IN_BREAKPOINT)
             ? <SecondaryHeaderButton onClick={p.onClose} onKeyPress={clickOnEnter}>
                 Close
@@ -68,6 +77,7 @@ export const ExchangeRequestBreakpointHeader = (p: {
 
 export const ExchangeResponseBreakpointHeader = (p: {
     onResume: () => void,
+    onSaveAsRule: () => void,
     onClose: () => void
 }) =>
     <ExchangeHeaderCard>
@@ -87,6 +97,14 @@ export const ExchangeResponseBreakpointHeader = (p: {
             }
         </HeaderExplanation>
 
+        <SecondaryHeaderButton
+            title='Create a rule that automatically makes these same edits to all matching responses from now on'
+            onClick={p.onSaveAsRule}
+            onKeyPress={clickOnEnter}
+        >
+            Save edits as a rule
+        </SecondaryHeaderButton>
+
         { versionSatisfies(serverVersion.value as string, CLOSE_IN_BREAKPOINT)
             ? <SecondaryHeaderButton onClick={p.onClose} onKeyPress={clickOnEnter}>
                 Close
@@ -12,7 +12,10 @@ import { getStatusColor } from '../../model/http/exchange-colors';
 import { ApiExchange } from '../../model/api/openapi';
 import { UiStore } from '../../model/ui-store';
 import { RulesStore } from '../../model/rules/rules-store';
-import { buildRuleFromRequest } from '../../model/rules/rule-definitions';
+import {
+    buildRuleFromRequest,
+    buildRuleFromBreakpointEdits
+} from '../../model/rules/rule-definitions';
 
 import { Pill } from '../common/pill';
 import { CollapsibleCardHeading } from '../common/card';
@@ -24,6 +27,7 @@ import { ExchangeResponseCard } from './exchange-response-card';
 import { AccountStore } from '../../model/account/account-store';
 import { ExchangePerformanceCard } from './exchange-performance-card';
 import { ExchangeExportCard } from './exchange-export-card';
+import { ExchangeRulesCard } from './exchange-rules-card';
 import { ThemedSelfSizedEditor } from '../editor/base-editor';
 import { ExchangeErrorHeader, tagsToErrorType } from './exchange-error-header';
 import { ExchangeDetailsFooter } from './exchange-details-footer';
@@ -105,6 +109,7 @@ const cardKeys = [
     'response',
     'responseBody',
     'performance',
+    'rules',
     'export'
 ] as const;
 
@@ -214,6 +219,7 @@ export class ExchangeDetailsPane extends React.Component<{
             return <ExchangeRequestBreakpointHeader
                 key='breakpoint-header'
                 onCreateResponse={respondToBreakpointedRequest}
+                onSaveAsRule={this.saveBreakpointEditsAsRule}
                 onResume={requestBreakpoint.resume}
                 onClose={requestBreakpoint.close}
             />;
@@ -223,6 +229,7 @@ export class ExchangeDetailsPane extends React.Component<{
             return <ExchangeResponseBreakpointHeader
                 key='breakpoint-header'
                 onResume={responseBreakpoint.resume}
+                onSaveAsRule={this.saveBreakpointEditsAsRule}
                 onClose={responseBreakpoint.close}
             />;
         }
@@ -386,6 +393,12 @@ export class ExchangeDetailsPane extends React.Component<{
             {...this.cardProps.performance}
         />);
 
+        cards.push(<ExchangeRulesCard
+            exchange={exchange}
+            navigate={this.props.navigate}
+            {...this.cardProps.rules}
+        />);
+
         cards.push(<ExchangeExportCard
             exchange={exchange}
             {...this.cardProps.export}
@@ -494,6 +507,15 @@ export class ExchangeDetailsPane extends React.Component<{
         navigate(`/mock/${rule.id}`);
     }
 
+    @action.bound
+    private saveBreakpointEditsAsRule() {
+        const { exchange, rulesStore, navigate } = this.props;
+
+        const rule = buildRuleFromBreakpointEdits(rulesStore!, exchange);
+        rulesStore!.draftRules.items.unshift(rule);
+        navigate(`/mock/${rule.id}`);
+    }
+
     @action.bound
     private ignoreError() {
         const { exchange } = this.props;
@@ -0,0 +1,172 @@
+import * as React from 'react';
+import { computed } from 'mobx';
+import { inject, observer } from 'mobx-react';
+
+import { Omit, HttpExchange } from '../../types';
+import { styled } from '../../styles';
+import { Icon, IconProp } from '../../icons';
+import { observablePromise } from '../../util/observable';
+
+import { UiStore } from '../../model/ui-store';
+import { RulesStore } from '../../model/rules/rules-store';
+import { getStatusColor } from '../../model/http/exchange-colors';
+import { summarizeMatcher, summarizeHandler } from '../../model/rules/rule-descriptions';
+import {
+    evaluateRules,
+    MatcherEvaluation,
+    RuleEvaluation,
+    RuleSetEvaluation
+} from '../../model/rules/rule-matching';
+
+import { CollapsibleCardHeading } from '../common/card';
+import { Pill } from '../common/pill';
+import { ExchangeCard, ExchangeCardProps, LoadingCardContent } from './exchange-card';
+
+interface ExchangeRulesCardProps extends Omit<ExchangeCardProps, 'children'> {
+    exchange: HttpExchange;
+    navigate: (path: string) => void;
+
+    uiStore?: UiStore;
+    rulesStore?: RulesStore;
+}
+
+const RuleList = styled.ol`
+    font-size: ${p => p.theme.textSize};
+`;
+
+const RuleResult = styled.li<{ skipped: boolean, winner: boolean }>`
+    margin-bottom: 10px;
+
+    ${p => p.skipped && 'opacity: 0.6;'}
+    ${p => p.winner && 'font-weight: bold;'}
+`;
+
+const RuleSummary = styled.button`
+    border: none;
+    background: none;
+    padding: 0;
+    color: ${p => p.theme.linkColor};
+    font: inherit;
+    text-align: left;
+    cursor: pointer;
+
+    &:hover {
+        text-decoration: underline;
+    }
+`;
+
+const RuleNote = styled.span`
+    font-style: italic;
+    font-weight: normal;
+    margin-left: 5px;
+`;
+
+const MatcherList = styled.ul`
+    margin: 5px 0 0 25px;
+    font-weight: normal;
+`;
+
+const ResultIcon = observer((p: {
+    matched: boolean | undefined,
+    uiStore: UiStore
+}) => {
+    const [icon, color, title]: [IconProp, string, string] = p.matched === true
+        ? [['fas', 'check'], getStatusColor(200, p.uiStore.theme), 'Matches']
+    : p.matched === false
+        ? [['fas', 'times'], getStatusColor(500, p.uiStore.theme), 'Does not match']
+    : [['fas', 'question'], p.uiStore.theme.mainColor, "Can't be checked outside the proxy"];
+
+    return <Icon icon={icon} fixedWidth={true} style={{ color }} title={title} />;
+});
+
+const MatcherResult = observer((p: { result: MatcherEvaluation, uiStore: UiStore }) =>
+    <li>
+        <ResultIcon matched={p.result.matched} uiStore={p.uiStore} /> {
+            p.result.matcher.explain()
+        }{
+            p.result.actual && <RuleNote>({ p.result.actual })</RuleNote>
+        }
+    </li>
+);
+
+@inject('uiStore')
+@inject('rulesStore')
+@observer
+export class ExchangeRulesCard extends React.Component<ExchangeRulesCardProps> {
+
+    // Recalculated whenever the rules change. All rule state is read synchronously within
+    // evaluateRules, so the computed value tracks changes to any of them.
+    @computed
+    get evaluation() {
+        return observablePromise(evaluateRules(
+            this.props.rulesStore!.draftRules,
+            this.props.exchange.request
+        ));
+    }
+
+    render() {
+        const { evaluation } = this;
+        const result = evaluation.state === 'fulfilled'
+            ? evaluation.value as RuleSetEvaluation
+            : undefined;
+
+        const winningIndex = result?.matchingRule
+            ? result.ruleResults.findIndex((r) => r.rule === result.matchingRule)
+            : -1;
+
+        return <ExchangeCard {...this.props}>
+            <header>
+                { result && <Pill>{
+                    winningIndex !== -1
+                        ? `Rule ${winningIndex + 1}`
+                    : result.ruleResults.some((r) => r.matched === undefined)
+                        ? 'Unknown'
+                    : 'No matching rule'
+                }</Pill> }
+                <CollapsibleCardHeading onCollapseToggled={this.props.onCollapseToggled}>
+                    Mock Rules
+                </CollapsibleCardHeading>
+            </header>
+
+            { !result
+                ? <LoadingCardContent height='100px' />
+                : <RuleList>
+                    { result.ruleResults.map((ruleResult, i) =>
+                        this.renderRuleResult(ruleResult, i, winningIndex)
+                    ) }
+                </RuleList>
+            }
+        </ExchangeCard>;
+    }
+
+    renderRuleResult(ruleResult: RuleEvaluation, index: number, winningIndex: number) {
+        const { uiStore, navigate } = this.props;
+        const { rule, matched, matcherResults, skippedReason } = ruleResult;
+
+        const note = skippedReason
+            ? `Skipped, because ${skippedReason}`
+        : index === winningIndex
+            ? 'This rule would handle this request'
+        : matched && winningIndex !== -1 && index > winningIndex
+            ? 'Would match, but an earlier rule handles this request first'
+        : undefined;
+
+        return <RuleResult
+            key={rule.id}
+            skipped={!!skippedReason}
+            winner={index === winningIndex}
+        >
+            { !skippedReason && <ResultIcon matched={matched} uiStore={uiStore!} /> }
+            <RuleSummary onClick={() => navigate(`/mock/${rule.id}`)}>
+                { summarizeMatcher(rule) } → { summarizeHandler(rule) }
+            </RuleSummary>
+            { note && <RuleNote>{ note }</RuleNote> }
+
+            { !skippedReason && <MatcherList>
+                { matcherResults.map((matcherResult, i) =>
+                    <MatcherResult key={i} result={matcherResult} uiStore={uiStore!} />
+                ) }
+            </MatcherList> }
+        </RuleResult>;
+    }
+}
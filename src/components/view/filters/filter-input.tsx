@@ -152,7 +152,7 @@ export const FilterInput = <T extends unknown>(props: {
         ) {
             if (data.suggestion.matchType === 'full') {
                 props.onFiltersConsidered(
-                    applySuggestionToFilters(props.activeFilters, data.suggestion)
+                    applySuggestionToFilters(props.activeFilters, data.suggestion, props.suggestionContext)
                 );
             } else {
                 // If you highlight a partial match, we show the filtered events as if you haven't
@@ -167,7 +167,7 @@ export const FilterInput = <T extends unknown>(props: {
         } else {
             props.onFiltersConsidered(undefined);
         }
-    }, [props.onFiltersConsidered, props.activeFilters, autosuggestRef]);
+    }, [props.onFiltersConsidered, props.activeFilters, props.suggestionContext, autosuggestRef]);
 
     // Ephemerally track the updated suggestions, so we can detect a selection in clearSuggestions()
     // and update to show ongoing suggestions instead of hiding suggestions.
@@ -194,7 +194,7 @@ export const FilterInput = <T extends unknown>(props: {
             return;
         }
 
-        updatedFilters = applySuggestionToFilters(props.activeFilters, data.suggestion);
+        updatedFilters = applySuggestionToFilters(props.activeFilters, data.suggestion, props.suggestionContext);
         if (updatedFilters.length !== props.activeFilters.length) {
             trackEvent({
                 category: 'Filters',
@@ -204,7 +204,15 @@ export const FilterInput = <T extends unknown>(props: {
             });
         }
         props.onFiltersChanged(updatedFilters);
-    }, [updatedFilters, props.value, props.isPaidUser, props.getPro, props.activeFilters, props.onFiltersChanged]);
+    }, [
+        updatedFilters,
+        props.value,
+        props.isPaidUser,
+        props.getPro,
+        props.activeFilters,
+        props.suggestionContext,
+        props.onFiltersChanged
+    ]);
 
     const clearSuggestions = React.useCallback(() => {
         const autosuggest = autosuggestRef.current as any;
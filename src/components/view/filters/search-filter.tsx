@@ -140,7 +140,7 @@ export class SearchFilter<T> extends React.Component<{
         const builtInFilters = this.props.availableFilters;
         const customFilters = Object.entries(this.props.uiStore!.customFilters)
             .map(([name, filterString]) =>
-                buildCustomFilter(name, filterString, builtInFilters)
+                buildCustomFilter(name, filterString, builtInFilters, this.props.filterSuggestionContext)
             );
 
         return builtInFilters.concat(customFilters);
@@ -404,11 +404,11 @@ export class SearchFilter<T> extends React.Component<{
             selectedFilters,
             activeFilters,
             onFiltersChanged,
-            props: { availableFilters }
+            props: { availableFilters, filterSuggestionContext }
         } = this;
 
         const pastedText = e.clipboardData.getData("text");
-        const pastedFilters = matchFilters(availableFilters, pastedText);
+        const pastedFilters = matchFilters(availableFilters, pastedText, filterSuggestionContext);
 
         const pastedStringInput = pastedFilters[0].filter;
         const selectionStart = input.selectionStart ?? 0;
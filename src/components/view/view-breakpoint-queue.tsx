@@ -0,0 +1,177 @@
+import * as React from 'react';
+import { observer } from 'mobx-react';
+import { now } from 'mobx-utils';
+
+import { styled, css } from '../../styles';
+import { WarningIcon } from '../../icons';
+
+import { versionSatisfies, serverVersion, CLOSE_IN_BREAKPOINT } from '../../services/service-versions';
+import { HttpExchange } from '../../model/http/exchange';
+
+import { clickOnEnter } from '../component-utils';
+import { Button, SecondaryButton } from '../common/inputs';
+import { IconButton } from '../common/icon-button';
+import { HEADER_FOOTER_HEIGHT } from './view-event-list-footer';
+
+const QueueHeader = styled.div`
+    min-height: ${HEADER_FOOTER_HEIGHT}px;
+    padding: 0 0 0 10px;
+
+    display: flex;
+    align-items: center;
+`;
+
+const QueueTitle = styled.span`
+    margin-right: auto;
+    font-weight: bold;
+`;
+
+const QueueButtonStyles = css`
+    font-size: ${p => p.theme.textSize};
+    padding: 4px 10px;
+    margin-right: 10px;
+`;
+
+const QueueButton = styled(Button)`${QueueButtonStyles}`;
+const SecondaryQueueButton = styled(SecondaryButton)`${QueueButtonStyles}`;
+
+const QueueList = styled.ol`
+    max-height: 150px;
+    overflow-y: auto;
+`;
+
+const QueueRow = styled.li`
+    display: flex;
+    align-items: center;
+    padding-left: 10px;
+
+    cursor: pointer;
+
+    ${(p: { selected: boolean }) => p.selected && css`
+        font-weight: bold;
+    `}
+
+    &:hover {
+        background-color: ${p => p.theme.warningBackground};
+    }
+`;
+
+const QueueRowStage = styled.span`
+    flex-shrink: 0;
+    width: 70px;
+    opacity: ${p => p.theme.lowlightTextOpacity};
+`;
+
+const QueueRowUrl = styled.span`
+    flex-grow: 1;
+    overflow: hidden;
+    text-overflow: ellipsis;
+    white-space: nowrap;
+`;
+
+const QueueRowCountdown = styled.span`
+    flex-shrink: 0;
+    padding-left: 5px;
+    opacity: ${p => p.theme.lowlightTextOpacity};
+`;
+
+// Re-renders every second, but only while a countdown is actually shown
+const AutoResumeCountdown = observer((p: { resumeAt: number }) => {
+    const secondsRemaining = Math.max(0, Math.ceil((p.resumeAt - now(1000)) / 1000));
+    return <QueueRowCountdown title='This breakpoint will resume automatically, unless edited'>
+        resumes in { secondsRemaining }s
+    </QueueRowCountdown>;
+});
+
+const BreakpointQueueRow = observer((p: {
+    exchange: HttpExchange,
+    selected: boolean,
+    onSelected: (exchange: HttpExchange) => void
+}) => {
+    const { exchange } = p;
+    const breakpoint = exchange.activeBreakpoint;
+    if (!breakpoint) return null;
+
+    return <QueueRow
+        selected={p.selected}
+        tabIndex={0}
+        onClick={() => p.onSelected(exchange)}
+        onKeyPress={clickOnEnter}
+    >
+        <QueueRowStage>
+            { exchange.requestBreakpoint ? 'Request' : 'Response' }
+        </QueueRowStage>
+        <QueueRowUrl title={exchange.request.url}>
+            { exchange.request.method } { exchange.request.url }
+        </QueueRowUrl>
+        { breakpoint.autoResumeAt !== undefined &&
+            <AutoResumeCountdown resumeAt={breakpoint.autoResumeAt} />
+        }
+        <IconButton
+            icon={['fas', 'play']}
+            title='Resume this exchange, with any edits made so far'
+            onClick={(e) => {
+                e.stopPropagation();
+                breakpoint.resume();
+            }}
+        />
+    </QueueRow>;
+});
+
+export const ViewBreakpointQueue = styled(observer((props: {
+    className?: string,
+    exchanges: HttpExchange[],
+    selectedEvent: { id: string } | undefined,
+    onSelected: (exchange: HttpExchange) => void
+}) => {
+    const { exchanges, selectedEvent } = props;
+
+    return <div className={props.className}>
+        <QueueHeader>
+            <QueueTitle>
+                <WarningIcon /> { exchanges.length } {
+                    exchanges.length === 1 ? 'exchange is' : 'exchanges are'
+                } paused at a breakpoint
+            </QueueTitle>
+
+            { versionSatisfies(serverVersion.value as string, CLOSE_IN_BREAKPOINT) &&
+                <SecondaryQueueButton
+                    title='Immediately close the connection for every paused exchange'
+                    onClick={() => exchanges.forEach((exchange) =>
+                        exchange.activeBreakpoint?.close()
+                    )}
+                >
+                    Close all
+                </SecondaryQueueButton>
+            }
+            <QueueButton
+                title='Resume every paused exchange, with any edits made so far'
+                onClick={() => exchanges.forEach((exchange) =>
+                    exchange.activeBreakpoint?.resume()
+                )}
+            >
+                Resume all
+            </QueueButton>
+        </QueueHeader>
+
+        <QueueList>
+            { exchanges.map((exchange) =>
+                <BreakpointQueueRow
+                    key={exchange.id}
+                    exchange={exchange}
+                    selected={exchange.id === selectedEvent?.id}
+                    onSelected={props.onSelected}
+                />
+            ) }
+        </QueueList>
+    </div>;
+}))`
+    width: 100%;
+    box-sizing: border-box;
+
+    background-color: ${p => p.theme.warningBackground};
+    color: ${p => p.theme.mainColor};
+    font-size: ${p => p.theme.textSize};
+
+    border-bottom: 1px solid ${p => p.theme.containerBorder};
+`;
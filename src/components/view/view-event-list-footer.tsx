@@ -7,6 +7,7 @@ import { CollectedEvent } from '../../types';
 
 import {
     FilterSet,
+    SearchFilterContext,
     SelectableSearchFilterClasses
 } from '../../model/filters/search-filters';
 
@@ -63,6 +64,7 @@ export const ViewEventListFooter = styled(observer((props: {
     onScrollToEnd: () => void,
 
     allEvents: CollectedEvent[],
+    filterContext: SearchFilterContext,
     filteredEvents: CollectedEvent[],
 
     // We track this separately because it's not 100% accurate to show it
@@ -76,7 +78,7 @@ export const ViewEventListFooter = styled(observer((props: {
     <SearchFilter
         onFiltersConsidered={props.onFiltersConsidered}
         availableFilters={SelectableSearchFilterClasses}
-        filterSuggestionContext={props.allEvents}
+        filterSuggestionContext={props.filterContext}
         placeholder={'Filter by method, host, headers, status...'}
         searchInputRef={props.searchInputRef}
     />
@@ -0,0 +1,88 @@
+import * as React from 'react';
+import { observer, inject } from 'mobx-react';
+
+import { CollectedEvent } from '../../types';
+import { styled } from '../../styles';
+
+import { AccountStore } from '../../model/account/account-store';
+import { HttpExchange } from '../../model/http/exchange';
+
+import { IconButton } from '../common/icon-button';
+import { ExportAsHarButton } from './view-event-list-buttons';
+import { HEADER_FOOTER_HEIGHT } from './view-event-list-footer';
+
+const SelectionCount = styled.span`
+    padding: 0 10px;
+    margin-right: auto;
+    font-weight: bold;
+`;
+
+export const ViewEventListSelectionBar = inject('accountStore')(styled(observer((props: {
+    className?: string,
+    accountStore?: AccountStore,
+
+    selectedEvents: CollectedEvent[],
+    onPin: (events: HttpExchange[]) => void,
+    onDelete: (events: CollectedEvent[]) => void,
+    onMock: (exchanges: HttpExchange[]) => void,
+    onClearSelection: () => void
+}) => {
+    const { isPaidUser } = props.accountStore!;
+    const { selectedEvents } = props;
+
+    const selectedExchanges = selectedEvents.filter(
+        (event): event is HttpExchange => event instanceof HttpExchange
+    );
+    const allPinned = selectedExchanges.length > 0 &&
+        selectedExchanges.every((exchange) => exchange.pinned);
+
+    return <div className={props.className}>
+        <SelectionCount>
+            { selectedEvents.length } selected
+        </SelectionCount>
+
+        <IconButton
+            icon={['fas', 'thumbtack']}
+            title={allPinned
+                ? 'Unpin the selected exchanges'
+                : 'Pin the selected exchanges, so they are not deleted by default'
+            }
+            disabled={selectedExchanges.length === 0}
+            onClick={() => props.onPin(selectedExchanges)}
+        />
+        <IconButton
+            icon={['far', 'trash-alt']}
+            title='Delete the selected exchanges'
+            onClick={() => props.onDelete(selectedEvents)}
+        />
+        <ExportAsHarButton events={selectedEvents} />
+        <IconButton
+            icon={['fas', 'theater-masks']}
+            title={
+                isPaidUser
+                    ? 'Create a group of mock rules from the selected exchanges'
+                    : 'With Pro: create a group of mock rules from the selected exchanges'
+            }
+            disabled={!isPaidUser || selectedExchanges.length === 0}
+            onClick={() => props.onMock(selectedExchanges)}
+        />
+        <IconButton
+            icon={['fas', 'times']}
+            title='Clear the selection'
+            onClick={props.onClearSelection}
+        />
+    </div>;
+}))`
+    min-height: ${HEADER_FOOTER_HEIGHT}px;
+    width: 100%;
+    box-sizing: border-box;
+
+    background-color: ${p => p.theme.highlightBackground};
+    color: ${p => p.theme.mainColor};
+    font-size: ${p => p.theme.textSize};
+
+    border-bottom: 1px solid ${p => p.theme.containerBorder};
+
+    display: flex;
+    align-items: center;
+`);
@@ -39,10 +39,12 @@ interface ViewEventListProps {
     events: CollectedEvent[];
     filteredEvents: CollectedEvent[];
     selectedEvent: CollectedEvent | undefined;
+    multiSelectedEventIds: ReadonlySet<string>;
     isPaused: boolean;
 
     moveSelection: (distance: number) => void;
     onSelected: (event: CollectedEvent | undefined) => void;
+    onMultiSelected: (eventIds: ReadonlySet<string>) => void;
 }
 
 const ListContainer = styled.div`
@@ -248,16 +250,20 @@ export const TableHeader = styled.header`
 interface EventRowProps extends ListChildComponentProps {
     data: {
         selectedEvent: CollectedEvent | undefined;
+        multiSelectedEventIds: ReadonlySet<string>;
         events: CollectedEvent[];
     }
 }
 
 const EventRow = observer((props: EventRowProps) => {
     const { index, style } = props;
-    const { events, selectedEvent } = props.data;
+    const { events, selectedEvent, multiSelectedEventIds } = props.data;
     const event = events[index];
 
-    const isSelected = (selectedEvent === event);
+    // When several events are selected, that selection replaces the normal one
+    const isSelected = multiSelectedEventIds.size > 0
+        ? multiSelectedEventIds.has(event.id)
+        : selectedEvent === event;
 
     if ('failureCause' in event) {
         return <FailedRequestRow
@@ -369,6 +375,7 @@ export class ViewEventList extends React.Component<ViewEventListProps> {
     @computed get listItemData(): EventRowProps['data'] {
         return {
             selectedEvent: this.props.selectedEvent,
+            multiSelectedEventIds: this.props.multiSelectedEventIds,
             events: this.props.filteredEvents
         };
     }
@@ -558,7 +565,15 @@ export class ViewEventList extends React.Component<ViewEventListProps> {
 
         const eventIndex = parseInt(ariaRowIndex, 10) - 1;
         const event = this.props.filteredEvents[eventIndex];
-        if (event !== this.props.selectedEvent) {
+
+        if (mouseEvent.shiftKey) {
+            this.onEventRangeSelected(eventIndex);
+        } else if (mouseEvent.ctrlKey || mouseEvent.metaKey) {
+            this.onEventSelectionToggled(eventIndex);
+        } else if (
+            event !== this.props.selectedEvent ||
+            this.props.multiSelectedEventIds.size > 0
+        ) {
             this.onEventSelected(eventIndex);
         } else {
             // Clicking the selected row deselects it
@@ -566,9 +581,52 @@ export class ViewEventList extends React.Component<ViewEventListProps> {
         }
     }
 
+    // The event that shift-click ranges start from: the last clicked event
+    private selectionAnchorId: string | undefined;
+
     @action.bound
     onEventSelected(index: number) {
-        this.props.onSelected(this.props.filteredEvents[index]);
+        const event = this.props.filteredEvents[index];
+        this.selectionAnchorId = event.id;
+        this.props.onSelected(event);
+    }
+
+    @action.bound
+    onEventSelectionToggled(index: number) {
+        const { filteredEvents, selectedEvent, multiSelectedEventIds } = this.props;
+        const event = filteredEvents[index];
+
+        // Ctrl-clicking starts a multi-selection from the currently selected event
+        const eventIds = new Set(
+            multiSelectedEventIds.size > 0
+                ? multiSelectedEventIds
+                : selectedEvent ? [selectedEvent.id] : []
+        );
+
+        if (eventIds.has(event.id)) eventIds.delete(event.id);
+        else eventIds.add(event.id);
+
+        this.selectionAnchorId = event.id;
+        this.props.onMultiSelected(eventIds);
+    }
+
+    @action.bound
+    onEventRangeSelected(index: number) {
+        const { filteredEvents, selectedEvent } = this.props;
+
+        const anchorId = this.selectionAnchorId ?? selectedEvent?.id;
+        const anchorIndex = _.findIndex(filteredEvents, { id: anchorId });
+        if (anchorIndex === -1) {
+            this.onEventSelected(index);
+            return;
+        }
+
+        const rangeEvents = filteredEvents.slice(
+            Math.min(anchorIndex, index),
+            Math.max(anchorIndex, index) + 1
+        );
+
+        this.props.onMultiSelected(new Set(rangeEvents.map((event) => event.id)));
     }
 
     @action.bound
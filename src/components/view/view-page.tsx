@@ -21,15 +21,19 @@ import { debounceComputed } from '../../util/observable';
 
 import { UiStore } from '../../model/ui-store';
 import { ProxyStore } from '../../model/proxy-store';
+import { RulesStore } from '../../model/rules/rules-store';
 import { EventsStore } from '../../model/http/events-store';
 import { HttpExchange } from '../../model/http/exchange';
-import { FilterSet } from '../../model/filters/search-filters';
+import { FilterSet, SearchFilterContext } from '../../model/filters/search-filters';
+import { buildRuleGroupFromExchanges } from '../../model/rules/rule-definitions';
 
 import { SplitPane } from '../split-pane';
 import { EmptyState } from '../common/empty-state';
 
 import { ViewEventList } from './view-event-list';
 import { ViewEventListFooter } from './view-event-list-footer';
+import { ViewEventListSelectionBar } from './view-event-list-selection-bar';
+import { ViewBreakpointQueue } from './view-breakpoint-queue';
 import { ExchangeDetailsPane } from './exchange-details-pane';
 import { TlsFailureDetailsPane } from './tls-failure-details-pane';
 import { ThemedSelfSizedEditor, SelfSizedBaseEditor } from '../editor/base-editor';
@@ -38,6 +42,7 @@ interface ViewPageProps {
     className?: string;
     eventsStore: EventsStore;
     proxyStore: ProxyStore;
+    rulesStore: RulesStore;
     uiStore: UiStore;
     navigate: (path: string) => void;
     eventId?: string;
@@ -91,6 +96,7 @@ const ViewPageKeyboardShortcuts = (props: {
 
 @inject('eventsStore')
 @inject('proxyStore')
+@inject('rulesStore')
 @inject('uiStore')
 @observer
 class ViewPage extends React.Component<ViewPageProps> {
@@ -108,6 +114,11 @@ class ViewPage extends React.Component<ViewPageProps> {
     @observable
     private searchFiltersUnderConsideration: FilterSet | undefined;
 
+    // Ids of the events selected together via ctrl/shift-click, for bulk actions. This
+    // is separate from the single selected event, which is driven by the URL.
+    @observable.ref
+    private multiSelectedEventIds: ReadonlySet<string> = new Set();
+
     get confirmedSearchFilters() {
         return this.props.uiStore.activeFilterSet;
     }
@@ -137,6 +148,22 @@ class ViewPage extends React.Component<ViewPageProps> {
         };
     }
 
+    @computed
+    get searchFilterContext(): SearchFilterContext {
+        return {
+            events: this.props.eventsStore.events,
+            rules: this.props.rulesStore.rules,
+            sources: this.props.eventsStore.activeSources
+        };
+    }
+
+    @computed
+    get multiSelectedEvents() {
+        return this.props.eventsStore.events.filter((event) =>
+            this.multiSelectedEventIds.has(event.id)
+        );
+    }
+
     @computed
     get selectedEvent() {
         return _.find(this.props.eventsStore.events, {
@@ -212,7 +239,7 @@ class ViewPage extends React.Component<ViewPageProps> {
     }
 
     render(): JSX.Element {
-        const { isPaused, events } = this.props.eventsStore;
+        const { isPaused, events, breakpointedExchanges } = this.props.eventsStore;
         const { certPath } = this.props.proxyStore;
 
         const { filteredEvents, filteredEventCount } = this.filteredEventState;
@@ -255,9 +282,26 @@ class ViewPage extends React.Component<ViewPageProps> {
                 maxSize={-300}
             >
                 <LeftPane>
+                    { breakpointedExchanges.length > 0 &&
+                        <ViewBreakpointQueue
+                            exchanges={breakpointedExchanges}
+                            selectedEvent={this.selectedEvent}
+                            onSelected={this.onSelected}
+                        />
+                    }
+                    { this.multiSelectedEvents.length > 0 &&
+                        <ViewEventListSelectionBar
+                            selectedEvents={this.multiSelectedEvents}
+                            onPin={this.onPinAll}
+                            onDelete={this.onDeleteAll}
+                            onMock={this.onMockAll}
+                            onClearSelection={this.onClearMultiSelection}
+                        />
+                    }
                     <ViewEventListFooter // Footer above the list to ensure correct tab order
                         searchInputRef={this.searchInputRef}
                         allEvents={events}
+                        filterContext={this.searchFilterContext}
                         filteredEvents={filteredEvents}
                         filteredCount={filteredEventCount}
                         onFiltersConsidered={this.onSearchFiltersConsidered}
@@ -268,10 +312,12 @@ class ViewPage extends React.Component<ViewPageProps> {
                         events={events}
                         filteredEvents={filteredEvents}
                         selectedEvent={this.selectedEvent}
+                        multiSelectedEventIds={this.multiSelectedEventIds}
                         isPaused={isPaused}
 
                         moveSelection={this.moveSelection}
                         onSelected={this.onSelected}
+                        onMultiSelected={this.onMultiSelected}
 
                         ref={this.listRef}
                     />
@@ -296,6 +342,7 @@ class ViewPage extends React.Component<ViewPageProps> {
 
     @action.bound
     onSelected(event: CollectedEvent | undefined) {
+        this.multiSelectedEventIds = new Set();
         this.props.navigate(event
             ? `/view/${event.id}`
             : '/view'
@@ -357,6 +404,57 @@ class ViewPage extends React.Component<ViewPageProps> {
         }
     }
 
+    @action.bound
+    onMultiSelected(eventIds: ReadonlySet<string>) {
+        this.multiSelectedEventIds = eventIds;
+    }
+
+    @action.bound
+    onClearMultiSelection() {
+        this.multiSelectedEventIds = new Set();
+    }
+
+    @action.bound
+    onPinAll(exchanges: HttpExchange[]) {
+        // Pin everything, unless everything is already pinned, in which case we unpin
+        const pinned = !exchanges.every((exchange) => exchange.pinned);
+        exchanges.forEach((exchange) => {
+            exchange.pinned = pinned;
+        });
+    }
+
+    @action.bound
+    onDeleteAll(events: CollectedEvent[]) {
+        const pinnedCount = events.filter((event) => event.pinned).length;
+        if (pinnedCount > 0 && !confirm(
+            `Delete ${events.length} selected exchanges, including ${pinnedCount} pinned?`
+        )) return;
+
+        const deleteEvents = () => {
+            events.forEach((event) => this.props.eventsStore.deleteEvent(event));
+            this.onClearMultiSelection();
+        };
+
+        // As in onDelete, navigation is async, so we deselect first, and delete later
+        if (this.selectedEvent && events.includes(this.selectedEvent)) {
+            this.onSelected(undefined);
+            when(() => this.selectedEvent === undefined, deleteEvents);
+        } else {
+            deleteEvents();
+        }
+    }
+
+    @action.bound
+    onMockAll(exchanges: HttpExchange[]) {
+        const title = prompt("Name the new group of mock rules:", "Mocked traffic");
+        if (title === null) return;
+
+        const ruleGroup = buildRuleGroupFromExchanges(title || "Mocked traffic", exchanges);
+        this.props.rulesStore.addDraftItem(ruleGroup);
+        this.onClearMultiSelection();
+        this.props.navigate('/mock');
+    }
+
     @action.bound
     onForceClear() {
         this.onClear(false);
@@ -420,7 +518,7 @@ const LeftPane = styled.div`
 
 const StyledViewPage = styled(
     // Exclude stores etc from the external props, as they're injected
-    ViewPage as unknown as WithInjected<typeof ViewPage, 'uiStore' | 'proxyStore' | 'eventsStore' | 'navigate'>
+    ViewPage as unknown as WithInjected<typeof ViewPage, 'uiStore' | 'proxyStore' | 'rulesStore' | 'eventsStore' | 'navigate'>
 )`
     height: 100vh;
     position: relative;
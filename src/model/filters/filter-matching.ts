@@ -18,8 +18,14 @@ import { FixedStringSyntax } from './syntax-parts';
  * Takes a full string, parses it completely for filters, and returns a
  * list of the parser result. Used when pasting a complete list of
  * filters into the search input.
+ *
+ * Optionally also takes context, which is passed to the filters as they're created.
  */
-export function matchFilters(filterClasses: FilterClass[], value: string): FilterSet {
+export function matchFilters<T>(
+    filterClasses: FilterClass<T>[],
+    value: string,
+    context?: T
+): FilterSet {
     let remainingString = value.trim();
     let filters = [];
 
@@ -39,7 +45,7 @@ export function matchFilters(filterClasses: FilterClass[], value: string): Filte
         remainingString = remainingString.slice(consumed).trimLeft();
 
         // Unshift here, because filter array runs in reverse to the inputs
-        filters.unshift(new firstFullMatch.filterClass(matchedString));
+        filters.unshift(new firstFullMatch.filterClass(matchedString, context));
     }
 
     // We've either run out of string, or stopped being able to match anything
@@ -90,9 +96,10 @@ export function getFilterSuggestions<T>(
  * This either updates the string content (given the suggestion for part
  * of a rule) or clears the string content and creates a new filter.
  */
-export function applySuggestionToFilters(
+export function applySuggestionToFilters<T>(
     filterSet: FilterSet,
-    suggestion: FilterSuggestion
+    suggestion: FilterSuggestion,
+    context?: T
 ): FilterSet {
     const text = filterSet[0].filter;
 
@@ -104,7 +111,7 @@ export function applySuggestionToFilters(
             ..._.flatten([
                 // Flattened because a filterClass can expand to multiple filter
                 // instances, e.g. for saved custom filters
-                new suggestion.filterClass(updatedText.trim())
+                new (suggestion.filterClass as FilterClass<T>)(updatedText.trim(), context)
             ]),
             ...filterSet.slice(1)
         ];
@@ -116,17 +123,18 @@ export function applySuggestionToFilters(
     }
 }
 
-export interface CustomFilterClass extends FilterClass {
+export interface CustomFilterClass extends FilterClass<unknown> {
     isCustomFilter: true;
     filterName: string;
 }
 
-export function buildCustomFilter(
+export function buildCustomFilter<T>(
     name: string, // A name for your custom filter
     filterString: string, // The full filter string it expands to
-    availableFilters: FilterClass[] // Parsed in the context of this set of filter classes
+    availableFilters: FilterClass<T>[], // Parsed in the context of this set of filter classes
+    context?: T // And with this context, if available
 ): CustomFilterClass {
-    const parsedFilters = matchFilters(availableFilters, filterString);
+    const parsedFilters = matchFilters(availableFilters, filterString, context);
 
     // Skip empty string filters
     const filtersToInsert = parsedFilters[0].filter === ''
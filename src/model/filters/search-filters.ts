@@ -1,12 +1,22 @@
 import * as _ from 'lodash';
+import { parse as parseSetCookie } from 'set-cookie-parser';
 
 import { CollectedEvent } from '../../types';
-import { joinAnd } from '../../util';
+import { asHeaderArray, joinAnd, tryParseJson } from '../../util';
 
 import { HttpExchange } from '../http/exchange';
+import { TrafficSource } from '../http/sources';
 import { getStatusDocs } from '../http/http-docs';
 import { getReadableSize } from '../http/bodies';
 import { ExchangeCategories } from '../http/exchange-colors';
+import {
+    HtkMockRuleRoot,
+    HtkMockRule,
+    findItem,
+    flattenRules,
+    isRuleGroup
+} from '../rules/rules-structure';
+import { summarizeMatcher, summarizeHandler } from '../rules/rule-descriptions';
 
 import {
     matchSyntax,
@@ -16,11 +26,13 @@ import {
 import {
     charRange,
     CombinedSyntax,
+    ConditionalSyntax,
     FixedLengthNumberSyntax,
     FixedStringSyntax,
     NumberSyntax,
     OptionalSyntax,
     OptionsSyntax,
+    RegexSyntax,
     StringOptionsSyntax,
     StringSyntax,
     SyntaxRepeaterSyntax,
@@ -52,6 +64,16 @@ export type FilterSet = readonly [StringFilter, ...Filter[]];
 export type Filters = readonly Filter[];
 export const emptyFilterSet = () => [new StringFilter('')] as const;
 
+/**
+ * The context available to the search filters, used to generate suggestions and to
+ * look up any referenced data when creating filters.
+ */
+export interface SearchFilterContext {
+    events: CollectedEvent[];
+    rules?: HtkMockRuleRoot;
+    sources?: TrafficSource[];
+}
+
 export type FilterClass<T extends unknown = never> = {
     /**
      * The constructor for the filter, which can take a string that fully matches
@@ -59,8 +81,10 @@ export type FilterClass<T extends unknown = never> = {
      *
      * May return multiple filters only for custom filter aliases, where a single
      * keyword expands to create a whole set of filters when created.
+     *
+     * The context is provided if available, but filters must be creatable without it.
      */
-    new (input: string): Filter | Filters;
+    new (input: string, context?: T): Filter | Filters;
 
     /**
      * A list of syntax parts that describe how to enter the filter as a string.
@@ -144,11 +168,41 @@ const bufferOperations = {
     "$=": (value: Buffer, expected: Buffer) => value.slice(-expected.length).equals(expected)
 };
 
+// Regex operations match against a RegExp, parsed from a /pattern/flags value
+const regexOperations = {
+    "~=": (value: string, expected: RegExp) => expected.test(value)
+};
+
 type EqualityOperation = keyof typeof operations;
 type NumberOperation = keyof typeof numberOperations;
 type StringOperation = keyof typeof stringOperations;
+type RegexOperation = keyof typeof regexOperations;
+type StringOrRegexOperation = StringOperation | RegexOperation;
+
+const isRegexOperation = (op: string): op is RegexOperation => op in regexOperations;
+
+// Used by syntax to parse values as /regexes/ only when directly after a regex operation
+const followsRegexOperation = (value: string, index: number) =>
+    Object.keys(regexOperations).some((op) => value.slice(0, index).endsWith(op));
+
+/**
+ * Builds a predicate for a string filter, either for a string operation with an expected
+ * string, or for a regex operation with an expected RegExp.
+ */
+function buildStringPredicate(
+    op: StringOrRegexOperation,
+    expected: string | RegExp
+): (value: string) => boolean {
+    if (isRegexOperation(op)) {
+        return (value) => regexOperations[op](value, expected as RegExp);
+    } else {
+        return (value) => stringOperations[op](value, expected as string);
+    }
+}
 
-const operationDescriptions: { [key in NumberOperation | StringOperation]: string } = {
+const operationDescriptions: {
+    [key in NumberOperation | StringOrRegexOperation]: string
+} = {
     "=": "equal to",
     "!=": "not equal to",
     ">": "greater than",
@@ -157,7 +211,8 @@ const operationDescriptions: { [key in NumberOperation | StringOperation]: strin
     "<=": "less than or equal to",
     "*=": "containing",
     "^=": "starting with",
-    "$=": "ending with"
+    "$=": "ending with",
+    "~=": "matching"
 } as const;
 
 const sizeOperationDescriptions: { [key in NumberOperation]: string } = {
@@ -168,6 +223,14 @@ const sizeOperationDescriptions: { [key in NumberOperation]: string } = {
     "<=": "smaller than or equal to"
 } as const;
 
+const durationOperationDescriptions: { [key in NumberOperation]: string } = {
+    ...operationDescriptions,
+    ">": "longer than",
+    ">=": "longer than or equal to",
+    "<": "shorter than",
+    "<=": "shorter than or equal to"
+} as const;
+
 type FilterPartValues<F extends FilterClass> = SyntaxPartValues<F['filterSyntax']>;
 
 /**
@@ -243,7 +306,7 @@ class StatusFilter extends Filter {
             "<"
         ]),
         new FixedLengthNumberSyntax(3, {
-            suggestionGenerator: (_v, _i, events: CollectedEvent[]) =>
+            suggestionGenerator: (_v, _i, { events }: SearchFilterContext) =>
                 _(events)
                 .map(e =>
                     'response' in e &&
@@ -389,6 +452,44 @@ class ErrorFilter extends Filter {
     }
 }
 
+class PinnedFilter extends Filter {
+
+    static filterSyntax = [new FixedStringSyntax("pinned")] as const;
+
+    static filterName = "pinned";
+
+    static filterDescription(value: string) {
+        return "exchanges that have been pinned";
+    }
+
+    matches(event: CollectedEvent): boolean {
+        return event.pinned;
+    }
+
+    toString() {
+        return `Pinned`;
+    }
+}
+
+class UnpinnedFilter extends Filter {
+
+    static filterSyntax = [new FixedStringSyntax("unpinned")] as const;
+
+    static filterName = "unpinned";
+
+    static filterDescription(value: string) {
+        return "exchanges that have not been pinned";
+    }
+
+    matches(event: CollectedEvent): boolean {
+        return !event.pinned;
+    }
+
+    toString() {
+        return `Unpinned`;
+    }
+}
+
 class CategoryFilter extends Filter {
 
     static filterSyntax = [
@@ -440,7 +541,7 @@ class MethodFilter extends Filter {
                 charRange('a', 'z'),
                 charRange('A', 'Z')
             ],
-            suggestionGenerator: (_v, _i, events: CollectedEvent[]) =>
+            suggestionGenerator: (_v, _i, { events }: SearchFilterContext) =>
                 _(events)
                 .map(e => 'request' in e && e.request.method)
                 .uniq()
@@ -580,28 +681,33 @@ class HostnameFilter extends Filter {
 
     static filterSyntax = [
         new FixedStringSyntax("hostname"),
-        new StringOptionsSyntax<StringOperation>([
+        new StringOptionsSyntax<StringOrRegexOperation>([
             "=",
             "!=",
             "*=",
             "^=",
-            "$="
+            "$=",
+            "~="
         ]),
-        new StringSyntax("hostname", {
-            allowedChars: [
-                charRange("a", "z"),
-                charRange("A", "Z"),
-                charRange("0", "9"),
-                charRange("-"),
-                charRange(".")
-            ],
-            suggestionGenerator: (_v, _i, events: CollectedEvent[]) =>
-                _(events)
-                .map(e => 'request' in e && e.request.parsedUrl.hostname.toLowerCase())
-                .uniq()
-                .filter(Boolean)
-                .valueOf() as string[]
-        })
+        new ConditionalSyntax(
+            followsRegexOperation,
+            new RegexSyntax("hostname pattern"),
+            new StringSyntax("hostname", {
+                allowedChars: [
+                    charRange("a", "z"),
+                    charRange("A", "Z"),
+                    charRange("0", "9"),
+                    charRange("-"),
+                    charRange(".")
+                ],
+                suggestionGenerator: (_v, _i, { events }: SearchFilterContext) =>
+                    _(events)
+                    .map(e => 'request' in e && e.request.parsedUrl.hostname.toLowerCase())
+                    .uniq()
+                    .filter(Boolean)
+                    .valueOf() as string[]
+            })
+        )
     ] as const;
 
     static filterName = "hostname";
@@ -618,24 +724,23 @@ class HostnameFilter extends Filter {
         }
     }
 
-    private expectedHostname: string;
-    private op: StringOperation;
-    private predicate: (host: string, expectedHost: string) => boolean;
+    private expectedHostname: string | RegExp;
+    private op: StringOrRegexOperation;
+    private predicate: (host: string) => boolean;
 
     constructor(filter: string) {
         super(filter);
         const [, op, hostname] = parseFilter(HostnameFilter, filter);
         this.op = op;
-        this.predicate = stringOperations[op];
-        this.expectedHostname = hostname.toLowerCase();
+        this.expectedHostname = _.isString(hostname)
+            ? hostname.toLowerCase()
+            : hostname;
+        this.predicate = buildStringPredicate(op, this.expectedHostname);
     }
 
     matches(event: CollectedEvent): boolean {
         return event instanceof HttpExchange &&
-            this.predicate(
-                event.request.parsedUrl.hostname.toLowerCase(),
-                this.expectedHostname
-            );
+            this.predicate(event.request.parsedUrl.hostname.toLowerCase());
     }
 
     toString() {
@@ -710,21 +815,26 @@ class PathFilter extends Filter {
 
     static filterSyntax = [
         new FixedStringSyntax("path"),
-        new StringOptionsSyntax<StringOperation>([
+        new StringOptionsSyntax<StringOrRegexOperation>([
             "=",
             "!=",
             "*=",
             "^=",
-            "$="
+            "$=",
+            "~="
         ]),
-        new StringSyntax("path", {
-            suggestionGenerator: (_v, _i, events: CollectedEvent[]) =>
-                _(events)
-                .map(e => 'request' in e && e.request.parsedUrl.pathname)
-                .uniq()
-                .filter(Boolean)
-                .valueOf() as string[]
-        })
+        new ConditionalSyntax(
+            followsRegexOperation,
+            new RegexSyntax("path pattern"),
+            new StringSyntax("path", {
+                suggestionGenerator: (_v, _i, { events }: SearchFilterContext) =>
+                    _(events)
+                    .map(e => 'request' in e && e.request.parsedUrl.pathname)
+                    .uniq()
+                    .filter(Boolean)
+                    .valueOf() as string[]
+            })
+        )
     ] as const;
 
     static filterName = "path";
@@ -741,19 +851,19 @@ class PathFilter extends Filter {
         }
     }
 
-    private expectedPath: string;
-    private op: StringOperation;
-    private predicate: (path: string, expectedPath: string) => boolean;
+    private expectedPath: string | RegExp;
+    private op: StringOrRegexOperation;
+    private predicate: (path: string) => boolean;
 
     constructor(filter: string) {
         super(filter);
         [, this.op, this.expectedPath] = parseFilter(PathFilter, filter);
-        this.predicate = stringOperations[this.op];
+        this.predicate = buildStringPredicate(this.op, this.expectedPath);
     }
 
     matches(event: CollectedEvent): boolean {
         return event instanceof HttpExchange &&
-            this.predicate(event.request.parsedUrl.pathname, this.expectedPath);
+            this.predicate(event.request.parsedUrl.pathname);
     }
 
     toString() {
@@ -765,31 +875,36 @@ class QueryFilter extends Filter {
 
     static filterSyntax = [
         new FixedStringSyntax("query"),
-        new StringOptionsSyntax<StringOperation>([
+        new StringOptionsSyntax<StringOrRegexOperation>([
             "=",
             "!=",
             "*=",
             "^=",
-            "$="
+            "$=",
+            "~="
         ]),
-        new StringSyntax("query", {
-            // We allow an empty query only with = and !=, which means we need to get the op:
-            allowEmpty: (value, index): boolean => {
-                // Slightly messy logic to roll backwards and find the index of the start
-                // of the string operation just before this.
-                const opIndex = value.slice(0, index).lastIndexOf("query") + "query".length;
-                const op = QueryFilter.filterSyntax[1].parse(value, opIndex);
-
-                // You can pass an empty query only to = or !=
-                return op === "=" || op === "!=";
-            },
-            suggestionGenerator: (_v, _i, events: CollectedEvent[]) =>
-                _(events)
-                .map(e => 'request' in e && e.request.parsedUrl.search)
-                .uniq()
-                .filter(Boolean)
-                .valueOf() as string[]
-        })
+        new ConditionalSyntax(
+            followsRegexOperation,
+            new RegexSyntax("query pattern"),
+            new StringSyntax("query", {
+                // We allow an empty query only with = and !=, which means we need to get the op:
+                allowEmpty: (value, index): boolean => {
+                    // Slightly messy logic to roll backwards and find the index of the start
+                    // of the string operation just before this.
+                    const opIndex = value.slice(0, index).lastIndexOf("query") + "query".length;
+                    const op = QueryFilter.filterSyntax[1].parse(value, opIndex);
+
+                    // You can pass an empty query only to = or !=
+                    return op === "=" || op === "!=";
+                },
+                suggestionGenerator: (_v, _i, { events }: SearchFilterContext) =>
+                    _(events)
+                    .map(e => 'request' in e && e.request.parsedUrl.search)
+                    .uniq()
+                    .filter(Boolean)
+                    .valueOf() as string[]
+            })
+        )
     ] as const;
 
     static filterName = "query";
@@ -823,19 +938,19 @@ class QueryFilter extends Filter {
         }
     }
 
-    private expectedQuery: string;
-    private op: StringOperation;
-    private predicate: (query: string, expectedQuery: string) => boolean;
+    private expectedQuery: string | RegExp;
+    private op: StringOrRegexOperation;
+    private predicate: (query: string) => boolean;
 
     constructor(filter: string) {
         super(filter);
         [, this.op, this.expectedQuery] = parseFilter(QueryFilter, filter);
-        this.predicate = stringOperations[this.op];
+        this.predicate = buildStringPredicate(this.op, this.expectedQuery);
     }
 
     matches(event: CollectedEvent): boolean {
         return event instanceof HttpExchange &&
-            this.predicate(event.request.parsedUrl.search, this.expectedQuery);
+            this.predicate(event.request.parsedUrl.search);
     }
 
     toString() {
@@ -858,41 +973,53 @@ class HeaderFilter extends Filter {
 
     // Separated out so we can do subparsing here ourselves
     private static valueMatchSyntax = [
-        new StringOptionsSyntax([
+        new StringOptionsSyntax<StringOrRegexOperation>([
             "=",
             "!=",
             "*=",
             "^=",
-            "$="
+            "$=",
+            "~="
         ]),
-        new SyntaxWrapperSyntax(
-            ['[', ']'],
-            new StringSyntax("header value", {
-                allowedChars: [[0, 255]], // Any ASCII! Wrapper guards against spaces for us.
-                suggestionGenerator: (value, index, events: CollectedEvent[]) => {
-                    // Find the start of the wrapped header name text that preceeds this
-                    const headerNameIndex = value.slice(0, index - 1).lastIndexOf('[');
-
-                    const headerNamePart = HeaderFilter.filterSyntax[1];
-                    const expectedHeaderName = headerNamePart
-                        .parse(value, headerNameIndex)
-                        .toLowerCase();
-
-                    return _(events)
-                        .map(e =>
-                            getAllHeaders(e)
-                            .filter(([headerName]): boolean =>
-                                headerName.toLowerCase() === expectedHeaderName
+        new ConditionalSyntax(
+            followsRegexOperation,
+            new SyntaxWrapperSyntax(
+                ['[', ']'],
+                new RegexSyntax("header value pattern", {
+                    allowedChars: [[0, 255]] // Any ASCII! Wrapper guards against spaces for us.
+                }),
+                // [] should be required/suggested only if the pattern contains a space
+                { optional: true }
+            ),
+            new SyntaxWrapperSyntax(
+                ['[', ']'],
+                new StringSyntax("header value", {
+                    allowedChars: [[0, 255]], // Any ASCII! Wrapper guards against spaces for us.
+                    suggestionGenerator: (value, index, { events }: SearchFilterContext) => {
+                        // Find the start of the wrapped header name text that preceeds this
+                        const headerNameIndex = value.slice(0, index - 1).lastIndexOf('[');
+
+                        const headerNamePart = HeaderFilter.filterSyntax[1];
+                        const expectedHeaderName = headerNamePart
+                            .parse(value, headerNameIndex)
+                            .toLowerCase();
+
+                        return _(events)
+                            .map(e =>
+                                getAllHeaders(e)
+                                .filter(([headerName]): boolean =>
+                                    headerName.toLowerCase() === expectedHeaderName
+                                )
+                                .map(([_hn, headerValue]) => headerValue)
                             )
-                            .map(([_hn, headerValue]) => headerValue)
-                        )
-                        .flatten()
-                        .uniq()
-                        .valueOf() as string[];
-                }
-            }),
-            // [] should be required/suggested only if value contains a space
-            { optional: true }
+                            .flatten()
+                            .uniq()
+                            .valueOf() as string[];
+                    }
+                }),
+                // [] should be required/suggested only if value contains a space
+                { optional: true }
+            )
         )
     ] as const;
 
@@ -901,7 +1028,7 @@ class HeaderFilter extends Filter {
         new SyntaxWrapperSyntax(
             ['[', ']'],
             new StringSyntax("header name", {
-                suggestionGenerator: (_v, _i, events: CollectedEvent[]) =>
+                suggestionGenerator: (_v, _i, { events }: SearchFilterContext) =>
                     _(events)
                     .map(e =>
                         getAllHeaders(e).map(([headerName]) =>
@@ -913,7 +1040,7 @@ class HeaderFilter extends Filter {
                     .valueOf() as string[]
             }),
         ),
-        new OptionalSyntax<[StringOperation, string]>(...HeaderFilter.valueMatchSyntax)
+        new OptionalSyntax<[StringOrRegexOperation, string | RegExp]>(...HeaderFilter.valueMatchSyntax)
     ] as const;
 
     static filterName = "header";
@@ -941,10 +1068,10 @@ class HeaderFilter extends Filter {
 
     private expectedHeaderName: string;
 
-    private expectedHeaderValue: string | undefined;
+    private expectedHeaderValue: string | RegExp | undefined;
 
-    private op: StringOperation | undefined;
-    private predicate: ((headerValue: string, expectedValue: string) => boolean) | undefined;
+    private op: StringOrRegexOperation | undefined;
+    private predicate: ((headerValue: string) => boolean) | undefined;
 
     constructor(filter: string) {
         super(filter);
@@ -954,8 +1081,11 @@ class HeaderFilter extends Filter {
 
         if (op && headerValue) {
             this.op = op;
-            this.predicate = stringOperations[op];
-            this.expectedHeaderValue = headerValue.toLowerCase();
+            // String operations are case-insensitive, but regexes are used as-is
+            this.expectedHeaderValue = _.isString(headerValue)
+                ? headerValue.toLowerCase()
+                : headerValue;
+            this.predicate = buildStringPredicate(op, this.expectedHeaderValue);
         }
     }
 
@@ -964,15 +1094,17 @@ class HeaderFilter extends Filter {
 
         const headers = getAllHeaders(event);
 
-        const { predicate, expectedHeaderValue } = this;
-        if (!predicate || !expectedHeaderValue) {
+        const { op, predicate } = this;
+        if (!op || !predicate) {
             return headers.some(([key]) => key.toLowerCase() === this.expectedHeaderName);
         }
 
         return _(headers)
             .filter(([key]) => key.toLowerCase() === this.expectedHeaderName)
             .flatMap(([_k, value]) => value ?? []) // Flatten our array/undefined values
-            .some((value) => predicate(value.toLowerCase(), expectedHeaderValue));
+            .some((value) => predicate(
+                isRegexOperation(op) ? value : value.toLowerCase()
+            ));
     }
 
     toString() {
@@ -981,6 +1113,219 @@ class HeaderFilter extends Filter {
     }
 }
 
+type CookieSource = 'request' | 'response';
+
+const CookieAttributes = [
+    "domain",
+    "path",
+    "expires",
+    "maxAge",
+    "secure",
+    "httpOnly",
+    "sameSite"
+] as const;
+type CookieAttribute = typeof CookieAttributes[number];
+
+interface ParsedCookie {
+    name: string;
+    value: string;
+    // Attributes are stringified as they'd appear in a Set-Cookie header
+    attributes: { [A in CookieAttribute]?: string };
+}
+
+const getRequestCookies = (e: HttpExchange): ParsedCookie[] =>
+    asHeaderArray(e.request.headers['cookie'], ';')
+        .filter(cookie => !!cookie)
+        .map((cookie) => {
+            const [name, ...valueParts] = cookie.split('=');
+            return { name, value: valueParts.join('='), attributes: {} };
+        });
+
+const getResponseCookies = (e: HttpExchange): ParsedCookie[] => {
+    if (!e.isSuccessfulExchange()) return [];
+
+    const setCookieHeader = e.response.headers['set-cookie'];
+    if (!setCookieHeader) return [];
+
+    return parseSetCookie(setCookieHeader).map((
+        cookie: ReturnType<typeof parseSetCookie>[0] & { sameSite?: string }
+    ) => ({
+        name: cookie.name,
+        value: cookie.value,
+        attributes: _.omitBy({
+            domain: cookie.domain,
+            path: cookie.path,
+            expires: cookie.expires?.toUTCString(),
+            maxAge: cookie.maxAge?.toString(),
+            secure: cookie.secure ? 'true' : undefined,
+            httpOnly: cookie.httpOnly ? 'true' : undefined,
+            sameSite: cookie.sameSite
+        }, _.isUndefined)
+    }));
+};
+
+const getCookies = (e: CollectedEvent, source: CookieSource): ParsedCookie[] => {
+    if (!(e instanceof HttpExchange)) return [];
+    return source === 'request'
+        ? getRequestCookies(e)
+        : getResponseCookies(e);
+};
+
+class CookieFilter extends Filter {
+
+    // Separated out so we can do subparsing here ourselves
+    private static attributeSyntax = [
+        new FixedStringSyntax("."),
+        new StringOptionsSyntax<CookieAttribute>(CookieAttributes)
+    ] as const;
+
+    private static valueMatchSyntax = [
+        new StringOptionsSyntax<StringOrRegexOperation>([
+            "=",
+            "!=",
+            "*=",
+            "^=",
+            "$=",
+            "~="
+        ]),
+        new ConditionalSyntax(
+            followsRegexOperation,
+            new SyntaxWrapperSyntax(
+                ['[', ']'],
+                new RegexSyntax("cookie value pattern", {
+                    allowedChars: [[0, 255]] // Any ASCII! Wrapper guards against spaces for us.
+                }),
+                // [] should be required/suggested only if the pattern contains a space
+                { optional: true }
+            ),
+            new SyntaxWrapperSyntax(
+                ['[', ']'],
+                new StringSyntax("cookie value", {
+                    allowedChars: [[0, 255]] // Any ASCII! Wrapper guards against spaces for us.
+                }),
+                // [] should be required/suggested only if value contains a space
+                { optional: true }
+            )
+        )
+    ] as const;
+
+    static filterSyntax = [
+        new FixedStringSyntax("cookie"),
+        new FixedStringSyntax("."),
+        new StringOptionsSyntax<CookieSource>(["request", "response"]),
+        new SyntaxWrapperSyntax(
+            ['[', ']'],
+            new StringSyntax("cookie name", {
+                suggestionGenerator: (value, index, { events }: SearchFilterContext) => {
+                    const source = value.slice(0, index).endsWith('response[')
+                        ? 'response'
+                        : 'request';
+
+                    return _(events)
+                        .flatMap(e => getCookies(e, source).map(c => c.name))
+                        .uniq()
+                        .valueOf();
+                }
+            }),
+        ),
+        new OptionalSyntax<[string, CookieAttribute]>(...CookieFilter.attributeSyntax),
+        new OptionalSyntax<[StringOrRegexOperation, string | RegExp]>(...CookieFilter.valueMatchSyntax)
+    ] as const;
+
+    static filterName = "cookie";
+
+    static filterDescription(value: string): string {
+        const [, , source, cookieName] = tryParseFilter(CookieFilter, value);
+
+        if (!source) {
+            return "exchanges by cookie";
+        }
+
+        const messageDescription = source === 'request'
+            ? "requests that sent"
+            : "responses that set";
+
+        if (!cookieName) {
+            return `${messageDescription} a given cookie`;
+        }
+
+        // We have to manually parse optional parts unfortunately, since otherwise
+        // any half-optional matches are treated as non-matches and left undefined.
+        let remainingValue = value.slice(`cookie.${source}[${cookieName}]`.length);
+        const [, attribute] = tryParseFilterParts(remainingValue, ...CookieFilter.attributeSyntax);
+        if (attribute) remainingValue = remainingValue.slice(`.${attribute}`.length);
+        const [op, cookieValue] = tryParseFilterParts(remainingValue, ...CookieFilter.valueMatchSyntax);
+
+        const cookieDescription = `${messageDescription} a '${cookieName}' cookie`;
+        const fieldDescription = attribute
+            ? `with a ${attribute} attribute`
+            : 'with a value';
+
+        if (!op) {
+            return attribute
+                ? `${cookieDescription} ${fieldDescription}`
+                : cookieDescription;
+        } else {
+            return `${cookieDescription} ${fieldDescription} ${
+                operationDescriptions[op]
+            } ${cookieValue ? `'${cookieValue}'` : 'a given value'}`;
+        }
+    }
+
+    private source: CookieSource;
+    private cookieName: string;
+    private attribute: CookieAttribute | undefined;
+
+    private expectedValue: string | RegExp | undefined;
+    private op: StringOrRegexOperation | undefined;
+    private predicate: ((value: string) => boolean) | undefined;
+
+    constructor(filter: string) {
+        super(filter);
+        const [, , source, cookieName, [, attribute], [op, cookieValue]] =
+            parseFilter(CookieFilter, filter);
+
+        this.source = source;
+        this.cookieName = cookieName;
+        this.attribute = attribute;
+
+        if (op && cookieValue) {
+            this.op = op;
+            // Attribute string comparisons are case-insensitive (SameSite=none works just
+            // like SameSite=None), but cookie values & regexes are used as-is.
+            this.expectedValue = attribute && _.isString(cookieValue)
+                ? cookieValue.toLowerCase()
+                : cookieValue;
+            this.predicate = buildStringPredicate(op, this.expectedValue);
+        }
+    }
+
+    matches(event: CollectedEvent): boolean {
+        const { attribute, op, predicate } = this;
+
+        const values = getCookies(event, this.source)
+            .filter(c => c.name === this.cookieName)
+            .map(c => attribute ? c.attributes[attribute] : c.value)
+            .filter((v): v is string => v !== undefined);
+
+        if (!op || !predicate) return values.length > 0;
+
+        return values.some((value) => predicate(
+            attribute && !isRegexOperation(op) ? value.toLowerCase() : value
+        ));
+    }
+
+    toString() {
+        const source = _.upperFirst(this.source);
+        const field = this.attribute
+            ? `${this.cookieName} ${this.attribute}`
+            : this.cookieName;
+
+        if (!this.op) return `${source} has ${field} cookie`;
+        return `${source} cookie ${field} ${this.op} ${this.expectedValue!}`;
+    }
+}
+
 class BodySizeFilter extends Filter {
 
     static filterSyntax = [
@@ -1043,24 +1388,129 @@ class BodySizeFilter extends Filter {
     }
 }
 
+const durationUnits = {
+    "ms": 1,
+    "s": 1000
+} as const;
+
+type DurationUnit = keyof typeof durationUnits;
+
+// Returns the total duration of the exchange in milliseconds, from the start of the request
+// until the response completed or the request was aborted, or undefined if it's not done yet.
+const getExchangeDuration = (exchange: HttpExchange): number | undefined => {
+    const { timingEvents } = exchange;
+    if (!('startTimestamp' in timingEvents)) return; // Old servers (<0.1.7) send no timing data
+
+    const doneTimestamp = timingEvents.responseSentTimestamp ?? timingEvents.abortedTimestamp;
+    if (doneTimestamp === undefined) return;
+
+    return doneTimestamp - timingEvents.startTimestamp;
+};
+
+class DurationFilter extends Filter {
+
+    static filterSyntax = [
+        new FixedStringSyntax("duration"),
+        new StringOptionsSyntax<NumberOperation>([
+            "=",
+            "!=",
+            ">=",
+            ">",
+            "<=",
+            "<"
+        ]),
+        new NumberSyntax("duration"),
+        new OptionalSyntax<[DurationUnit]>(
+            new StringOptionsSyntax<DurationUnit>(["ms", "s"])
+        )
+    ] as const;
+
+    static filterName = "duration";
+
+    static filterDescription(value: string) {
+        const [, op, duration, [unit] = []] = tryParseFilter(DurationFilter, value);
+
+        if (!op) {
+            return "exchanges by duration";
+        } else {
+            return `exchanges with a duration ${
+                durationOperationDescriptions[op]
+            } ${
+                duration !== undefined
+                ? `${duration}${unit || 'ms'}`
+                : 'a given duration'
+            }`;
+        }
+    }
+
+    private expectedDuration: number;
+    private unit: DurationUnit;
+    private op: NumberOperation;
+    private predicate: (duration: number, expectedDuration: number) => boolean;
+
+    constructor(filter: string) {
+        super(filter);
+        const [, op, duration, [unit]] = parseFilter(DurationFilter, filter);
+        this.op = op;
+        this.expectedDuration = duration;
+        this.unit = unit || 'ms';
+        this.predicate = numberOperations[this.op];
+    }
+
+    matches(event: CollectedEvent): boolean {
+        if (!(event instanceof HttpExchange)) return false;
+
+        // Pending exchanges have no duration yet, so never match. Aborted exchanges are
+        // measured up until the point where they were aborted.
+        const durationMs = getExchangeDuration(event);
+        if (durationMs === undefined) return false;
+
+        const duration = durationMs / durationUnits[this.unit];
+
+        return this.predicate(
+            // Timings are fractional, so equality is checked to the precision of the given unit
+            this.op === '=' || this.op === '!='
+                ? Math.round(duration)
+                : duration,
+            this.expectedDuration
+        );
+    }
+
+    toString() {
+        return `Duration ${this.op} ${this.expectedDuration}${this.unit}`;
+    }
+}
+
 class BodyFilter extends Filter {
 
     static filterSyntax = [
         new FixedStringSyntax("body"),
-        new StringOptionsSyntax<StringOperation>([
+        new StringOptionsSyntax<StringOrRegexOperation>([
             "=",
             "!=",
             "*=",
             "^=",
-            "$="
+            "$=",
+            "~="
         ]),
-        new SyntaxWrapperSyntax(
-            ['[', ']'],
-            new StringSyntax("body content", {
-                allowedChars: [[0, Infinity]] // Match all characters, all unicode included
-            }),
-            // [] should be required/suggested only if value contains a space
-            { optional: true }
+        new ConditionalSyntax(
+            followsRegexOperation,
+            new SyntaxWrapperSyntax(
+                ['[', ']'],
+                new RegexSyntax("body pattern", {
+                    allowedChars: [[0, Infinity]] // Match all characters, all unicode included
+                }),
+                // [] should be required/suggested only if the pattern contains a space
+                { optional: true }
+            ),
+            new SyntaxWrapperSyntax(
+                ['[', ']'],
+                new StringSyntax("body content", {
+                    allowedChars: [[0, Infinity]] // Match all characters, all unicode included
+                }),
+                // [] should be required/suggested only if value contains a space
+                { optional: true }
+            )
         )
     ] as const;
 
@@ -1076,18 +1526,26 @@ class BodyFilter extends Filter {
         }
     }
 
-    private expectedBody: Buffer;
+    private expectedBody: Buffer | RegExp;
 
-    private op: StringOperation;
-    private predicate: (body: Buffer, expectedBody: Buffer) => boolean;
+    private op: StringOrRegexOperation;
+    private predicate: (body: Buffer) => boolean;
 
     constructor(filter: string) {
         super(filter);
         const [, op, expectedBody] = parseFilter(BodyFilter, filter);
         this.op = op;
 
-        this.expectedBody = Buffer.from(expectedBody);
-        this.predicate = bufferOperations[this.op];
+        if (isRegexOperation(op)) {
+            // Regexes are matched against the decoded body, as text
+            const expectedRegex = expectedBody as RegExp;
+            this.expectedBody = expectedRegex;
+            this.predicate = (body) => regexOperations[op](body.toString('utf8'), expectedRegex);
+        } else {
+            const expectedBuffer = Buffer.from(expectedBody as string);
+            this.expectedBody = expectedBuffer;
+            this.predicate = (body) => bufferOperations[op](body, expectedBuffer);
+        }
     }
 
     matches(event: CollectedEvent): boolean {
@@ -1100,10 +1558,10 @@ class BodyFilter extends Filter {
             : undefined;
 
         const matchesRequestBody = !!requestBody && requestBody.byteLength > 0 &&
-            this.predicate(requestBody, this.expectedBody);
+            this.predicate(requestBody);
 
         const matchesResponseBody = !!responseBody && responseBody.byteLength > 0 &&
-            this.predicate(responseBody, this.expectedBody);
+            this.predicate(responseBody);
 
         return matchesRequestBody || matchesResponseBody;
     }
@@ -1113,23 +1571,437 @@ class BodyFilter extends Filter {
     }
 }
 
-const BaseSearchFilterClasses: FilterClass[] = [
+type JsonBodySource = 'request' | 'response';
+type JsonOperation = NumberOperation | StringOrRegexOperation;
+
+// Parsing is relatively expensive, and filters are rerun often, so we cache parsed bodies
+const parsedJsonBodies = new WeakMap<Buffer, unknown>();
+
+const parseJsonBody = (body: Buffer): unknown => {
+    if (!parsedJsonBodies.has(body)) {
+        parsedJsonBodies.set(body, tryParseJson(body.toString('utf8')));
+    }
+    return parsedJsonBodies.get(body);
+};
+
+// Returns every value in the JSON at the given path, where '*' matches all children
+const getJsonPathValues = (json: unknown, path: string[]): unknown[] =>
+    path.reduce<unknown[]>((values, key) =>
+        _.flatMap(values, (value) => {
+            if (typeof value !== 'object' || value === null) return [];
+            if (key === '*') return Object.values(value);
+            return _.has(value, key) ? [(value as any)[key]] : [];
+        }),
+        [json]
+    );
+
+/**
+ * Builds a predicate for JSON values, given an operation and the expected value as entered.
+ * The expected value is parsed as JSON where possible, so that numbers & strings can be
+ * compared appropriately, but unquoted values can still match string values directly.
+ */
+function buildJsonValuePredicate(
+    op: JsonOperation,
+    expectedValue: string | RegExp
+): (value: unknown) => boolean {
+    if (isRegexOperation(op)) {
+        const expectedRegex = expectedValue as RegExp;
+        return (value) => _.isString(value) && regexOperations[op](value, expectedRegex);
+    }
+
+    const rawValue = expectedValue as string;
+    // tryParseJson returns undefined for failures, but null is a successfully parsed value:
+    const parsedJson = tryParseJson(rawValue);
+    const expectedJson = parsedJson !== undefined || rawValue.trim() === 'null'
+        ? parsedJson
+        : rawValue;
+
+    switch (op) {
+        case '=':
+        case '!=': {
+            const isEqual = (value: unknown) =>
+                _.isEqual(value, expectedJson) || value === rawValue;
+            return op === '='
+                ? isEqual
+                : (value) => !isEqual(value);
+        }
+        case '>':
+        case '>=':
+        case '<':
+        case '<=': {
+            return (value) => _.isNumber(value) && _.isNumber(expectedJson) &&
+                numberOperations[op](value, expectedJson);
+        }
+        case '*=':
+        case '^=':
+        case '$=': {
+            const expectedString = _.isString(expectedJson) ? expectedJson : rawValue;
+            return (value) => _.isString(value) &&
+                stringOperations[op](value, expectedString);
+        }
+    }
+}
+
+class JsonBodyFilter extends Filter {
+
+    // Separated out so we can do subparsing here ourselves
+    private static valueMatchSyntax = [
+        new StringOptionsSyntax<JsonOperation>([
+            "=",
+            "!=",
+            ">=",
+            ">",
+            "<=",
+            "<",
+            "*=",
+            "^=",
+            "$=",
+            "~="
+        ]),
+        new ConditionalSyntax(
+            followsRegexOperation,
+            new SyntaxWrapperSyntax(
+                ['[', ']'],
+                new RegexSyntax("value pattern", {
+                    allowedChars: [[0, 255]] // Any ASCII! Wrapper guards against spaces for us.
+                }),
+                // [] should be required/suggested only if the pattern contains a space
+                { optional: true }
+            ),
+            new SyntaxWrapperSyntax(
+                ['[', ']'],
+                new StringSyntax("value", {
+                    allowedChars: [[0, 255]] // Any ASCII! Wrapper guards against spaces for us.
+                }),
+                // [] should be required/suggested only if value contains a space
+                { optional: true }
+            )
+        )
+    ] as const;
+
+    static filterSyntax = [
+        new FixedStringSyntax("json"),
+        new FixedStringSyntax("."),
+        new StringOptionsSyntax<JsonBodySource>(["request", "response"]),
+        new FixedStringSyntax("."),
+        new SyntaxRepeaterSyntax(
+            ".",
+            new OptionsSyntax([
+                new FixedStringSyntax("*"),
+                new StringSyntax("field", {
+                    allowedChars: [
+                        charRange("a", "z"),
+                        charRange("A", "Z"),
+                        charRange("0", "9"),
+                        charRange("_"),
+                        charRange("-")
+                    ]
+                })
+            ]),
+            { minimumRepetitions: 1, placeholderName: 'field' }
+        ),
+        new OptionalSyntax<[JsonOperation, string | RegExp]>(...JsonBodyFilter.valueMatchSyntax)
+    ] as const;
+
+    static filterName = "json";
+
+    static filterDescription(value: string): string {
+        const [, , source, , path] = tryParseFilter(JsonBodyFilter, value);
+
+        if (!source) {
+            return "exchanges by a field in their JSON body";
+        } else if (!path) {
+            return `exchanges by a field in their JSON ${source} body`;
+        }
+
+        // We have to manually parse optional parts unfortunately, since otherwise
+        // any half-optional matches are treated as non-matches and left undefined.
+        const pathLength = `json.${source}.${path.join('.')}`.length;
+        const [op, fieldValue] = tryParseFilterParts(
+            value.slice(pathLength),
+            ...JsonBodyFilter.valueMatchSyntax
+        );
+
+        if (!op) {
+            return `exchanges with a '${path.join('.')}' field in their JSON ${source} body`;
+        } else {
+            return `exchanges with a JSON ${source} body '${path.join('.')}' field ${
+                operationDescriptions[op]
+            } ${fieldValue ? `'${fieldValue}'` : 'a given value'}`;
+        }
+    }
+
+    private source: JsonBodySource;
+    private path: string[];
+
+    private op: JsonOperation | undefined;
+    private expectedValue: string | RegExp | undefined;
+    private predicate: ((value: unknown) => boolean) | undefined;
+
+    constructor(filter: string) {
+        super(filter);
+        const [, , source, , path, [op, value]] = parseFilter(JsonBodyFilter, filter);
+
+        this.source = source;
+        this.path = path;
+
+        if (op && value) {
+            this.op = op;
+            this.expectedValue = value;
+            this.predicate = buildJsonValuePredicate(op, value);
+        }
+    }
+
+    matches(event: CollectedEvent): boolean {
+        if (!(event instanceof HttpExchange)) return false;
+        if (!event.isCompletedRequest()) return false; // No body yet, no match
+
+        const body = this.source === 'request'
+            ? event.request.body.decoded
+            : event.isSuccessfulExchange()
+                ? event.response.body.decoded
+                : undefined;
+        if (!body || body.byteLength === 0) return false;
+
+        const json = parseJsonBody(body);
+        if (json === undefined) return false; // Not JSON, no match
+
+        const values = getJsonPathValues(json, this.path);
+
+        if (!this.predicate) return values.length > 0;
+        else return values.some(this.predicate);
+    }
+
+    toString() {
+        const source = _.upperFirst(this.source);
+        const path = this.path.join('.');
+
+        if (!this.op) return `${source} JSON has ${path}`;
+        return `${source} JSON ${path} ${this.op} ${this.expectedValue!}`;
+    }
+}
+
+const describeRule = (rule: HtkMockRule) =>
+    `${summarizeMatcher(rule)}, ${_.lowerFirst(summarizeHandler(rule))}`;
+
+class RuleFilter extends Filter {
+
+    static filterSyntax = [
+        new FixedStringSyntax("rule"),
+        new StringOptionsSyntax<EqualityOperation>([
+            "=",
+            "!="
+        ]),
+        new StringSyntax("rule", {
+            suggestionGenerator: (_v, _i, { rules }: SearchFilterContext) =>
+                rules
+                    ? flattenRules(rules).map((rule) => ({
+                        showAs: describeRule(rule),
+                        value: rule.id
+                    }))
+                    : []
+        })
+    ] as const;
+
+    static filterName = "rule";
+
+    static filterDescription(value: string) {
+        const [, op, ruleId] = tryParseFilter(RuleFilter, value);
+
+        if (!op) {
+            return "requests handled by a given mock rule";
+        } else if (op === '=') {
+            return `requests handled by ${ruleId ? `rule ${ruleId}` : 'a given rule'}`;
+        } else {
+            return `requests not handled by ${ruleId ? `rule ${ruleId}` : 'a given rule'}`;
+        }
+    }
+
+    private expectedRuleId: string;
+    private op: EqualityOperation;
+    private predicate: (ruleId: string | undefined, expectedRuleId: string) => boolean;
+
+    // The rule itself, if it could be found in the rules when this filter was created.
+    private rule: HtkMockRule | undefined;
+
+    constructor(filter: string, context?: SearchFilterContext) {
+        super(filter);
+        [, this.op, this.expectedRuleId] = parseFilter(RuleFilter, filter);
+        this.predicate = operations[this.op];
+
+        // Rules may be nested within groups, so we need to search the whole tree:
+        const rule = context?.rules && findItem(context.rules, { id: this.expectedRuleId });
+        this.rule = rule && !isRuleGroup(rule) ? rule : undefined;
+    }
+
+    matches(event: CollectedEvent): boolean {
+        return event instanceof HttpExchange &&
+            // Requests that haven't completed yet haven't been handled by any rule
+            event.isCompletedRequest() &&
+            this.predicate(event.matchedRuleId, this.expectedRuleId);
+    }
+
+    get filterDescription() {
+        if (!this.rule) return super.filterDescription;
+
+        return `requests ${
+            this.op === '=' ? '' : 'not '
+        }handled by the rule: ${describeRule(this.rule)}`;
+    }
+
+    toString() {
+        const ruleName = this.rule
+            ? summarizeMatcher(this.rule)
+            : this.expectedRuleId;
+
+        return `Rule ${this.op} ${ruleName}`;
+    }
+}
+
+class SourceFilter extends Filter {
+
+    static filterSyntax = [
+        new FixedStringSyntax("source"),
+        new StringOptionsSyntax<EqualityOperation | "*=">([
+            "=",
+            "!=",
+            "*="
+        ]),
+        new SyntaxWrapperSyntax(
+            ['[', ']'],
+            new StringSyntax("source", {
+                allowedChars: [[0, 255]], // Any ASCII! Wrapper guards against spaces for us.
+                suggestionGenerator: (_v, _i, { sources }: SearchFilterContext) =>
+                    _.map(sources, s => s.summary)
+            }),
+            // [] should be required/suggested only if the source contains a space
+            { optional: true }
+        )
+    ] as const;
+
+    static filterName = "source";
+
+    static filterDescription(value: string) {
+        const [, op, source] = tryParseFilter(SourceFilter, value);
+
+        if (!op) {
+            return "requests sent by a given client";
+        } else if (op === '=') {
+            return `requests sent by ${source ? source : 'a given client'}`;
+        } else if (op === '!=') {
+            return `requests not sent by ${source ? source : 'a given client'}`;
+        } else {
+            return `requests sent by a client containing ${source ? source : 'a given value'}`;
+        }
+    }
+
+    private expectedSource: string;
+    private op: EqualityOperation | "*=";
+    private predicate: (source: string, expectedSource: string) => boolean;
+
+    constructor(filter: string) {
+        super(filter);
+        [, this.op, this.expectedSource] = parseFilter(SourceFilter, filter);
+        this.predicate = stringOperations[this.op];
+    }
+
+    matches(event: CollectedEvent): boolean {
+        // Sources are matched case-insensitively, since UA casing is inconsistent
+        return event instanceof HttpExchange && this.predicate(
+            event.request.source.summary.toLowerCase(),
+            this.expectedSource.toLowerCase()
+        );
+    }
+
+    toString() {
+        return `Source ${this.op} ${this.expectedSource}`;
+    }
+}
+
+class TagFilter extends Filter {
+
+    static filterSyntax = [
+        new FixedStringSyntax("tag"),
+        new StringOptionsSyntax<EqualityOperation | "*=">([
+            "=",
+            "!=",
+            "*="
+        ]),
+        new StringSyntax("tag", {
+            suggestionGenerator: (_v, _i, { events }: SearchFilterContext) =>
+                _(events)
+                .flatMap(e => e.tags)
+                .uniq()
+                .valueOf()
+        })
+    ] as const;
+
+    static filterName = "tag";
+
+    static filterDescription(value: string) {
+        const [, op, tag] = tryParseFilter(TagFilter, value);
+
+        if (!op) {
+            return "exchanges by their tags";
+        } else if (op === '=') {
+            return `exchanges tagged with ${tag ? tag : 'a given tag'}`;
+        } else if (op === '!=') {
+            return `exchanges not tagged with ${tag ? tag : 'a given tag'}`;
+        } else {
+            return `exchanges with a tag containing ${tag ? tag : 'a given value'}`;
+        }
+    }
+
+    private expectedTag: string;
+    private op: EqualityOperation | "*=";
+
+    constructor(filter: string) {
+        super(filter);
+        [, this.op, this.expectedTag] = parseFilter(TagFilter, filter);
+    }
+
+    matches(event: CollectedEvent): boolean {
+        const { tags } = event;
+
+        if (this.op === '=') {
+            return tags.includes(this.expectedTag);
+        } else if (this.op === '!=') {
+            return !tags.includes(this.expectedTag);
+        } else {
+            return tags.some(tag => tag.includes(this.expectedTag));
+        }
+    }
+
+    toString() {
+        return `Tag ${this.op} ${this.expectedTag}`;
+    }
+}
+
+const BaseSearchFilterClasses: FilterClass<SearchFilterContext>[] = [
     MethodFilter,
     HostnameFilter,
     PathFilter,
     QueryFilter,
     StatusFilter,
     HeaderFilter,
+    CookieFilter,
     BodyFilter,
+    JsonBodyFilter,
     BodySizeFilter,
+    DurationFilter,
     CompletedFilter,
     PendingFilter,
     AbortedFilter,
     ErrorFilter,
+    PinnedFilter,
+    UnpinnedFilter,
     CategoryFilter,
     PortFilter,
     ProtocolFilter,
-    HttpVersionFilter
+    HttpVersionFilter,
+    RuleFilter,
+    SourceFilter,
+    TagFilter
 ];
 
 // Meta-filters, which can wrap the base filters above:
@@ -1174,7 +2046,7 @@ class NotFilter extends Filter {
 
     private innerFilter: Filter;
 
-    constructor(private filterValue: string) {
+    constructor(private filterValue: string, context?: SearchFilterContext) {
         super(filterValue);
 
         const innerValue = filterValue.slice(4, -1);
@@ -1182,7 +2054,7 @@ class NotFilter extends Filter {
         const matchingFilterClass = _.find(BaseSearchFilterClasses, (filter) =>
             matchSyntax(filter.filterSyntax, innerValue, 0)?.type === 'full'
         )!;
-        this.innerFilter = new matchingFilterClass(innerValue) as Filter; // Never Filters - we don't support filter aliases here
+        this.innerFilter = new matchingFilterClass(innerValue, context) as Filter; // Never Filters - we don't support filter aliases here
     }
 
     matches(event: CollectedEvent): boolean {
@@ -1249,14 +2121,14 @@ class OrFilter extends Filter {
 
     private innerFilters: Filter[];
 
-    constructor(private filterValue: string) {
+    constructor(private filterValue: string, context?: SearchFilterContext) {
         super(filterValue);
 
         this.innerFilters = filterValue.slice(3).split(', ').map((valuePart) => {
             const matchingFilterClass = _.find(BaseSearchFilterClasses, (filter) =>
                 matchSyntax(filter.filterSyntax, valuePart, 0)?.type === 'full'
             )!;
-            return new matchingFilterClass(valuePart) as Filter; // Never Filters - we don't support filter aliases here
+            return new matchingFilterClass(valuePart, context) as Filter; // Never Filters - we don't support filter aliases here
         });
     }
 
@@ -1269,7 +2141,7 @@ class OrFilter extends Filter {
     }
 }
 
-export const SelectableSearchFilterClasses: FilterClass[] = [
+export const SelectableSearchFilterClasses: FilterClass<SearchFilterContext>[] = [
     ...BaseSearchFilterClasses,
     NotFilter,
     OrFilter
@@ -57,7 +57,7 @@ function getStringAt(value: string, index: number, allowedCharRanges: CharRange[
 
 const NUMBER_CHARS = [48, 57] as const; // 0-9 ascii codes
 
-function getParsedValue(part: SyntaxPart, value: string, index: number): string {
+function getParsedValue(part: SyntaxPart<unknown>, value: string, index: number): string {
     const match = part.match(value, index);
     if (!match || match.type !== 'full') {
         console.log("Unparseable expected-parseable input", value);
@@ -66,29 +66,41 @@ function getParsedValue(part: SyntaxPart, value: string, index: number): string
     return value.slice(index, index + match.consumed);
 }
 
+/**
+ * A contextual suggestion, either as a plain string, or as a raw value to insert
+ * along with a more readable label to show in its place.
+ */
+export type ContextualSuggestion = string | { showAs: string, value: string };
+
 function filterContextualSuggestions<S>(
     value: string,
     index: number,
     context: S | undefined,
     existingInput: string | undefined,
-    suggestionGenerator: ((value: string, index: number, context: S) => string[]) | undefined,
+    suggestionGenerator: ((value: string, index: number, context: S) => ContextualSuggestion[]) | undefined,
     filter: (suggestion: string) => boolean
 ): SyntaxSuggestion[] {
     if (!context || !suggestionGenerator) return [];
 
     const lowercaseInput = (existingInput || '').toLowerCase();
     return suggestionGenerator(value, index, context)
+        .map((suggestion) => _.isString(suggestion)
+            ? { showAs: suggestion, value: suggestion }
+            : suggestion
+        )
         .filter((suggestion) =>
             (
                 !lowercaseInput ||
-                suggestion.toLowerCase().startsWith(lowercaseInput)
+                suggestion.value.toLowerCase().startsWith(lowercaseInput) ||
+                // Labelled suggestions can be found by their label too:
+                suggestion.showAs.toLowerCase().startsWith(lowercaseInput)
             ) && filter
         )
         .slice(0, 10) // Max 10 results
         .map(s => ({
-            showAs: s,
+            showAs: s.showAs,
             index,
-            value: s,
+            value: s.value,
             matchType: 'full'
         }));
 }
@@ -149,7 +161,7 @@ export class StringSyntax<C = never> implements SyntaxPart<string, C> {
         private options: {
             allowEmpty?: (value: string, index: number) => boolean,
             allowedChars?: CharRange[],
-            suggestionGenerator?: (value: string, index: number, context: C) => string[]
+            suggestionGenerator?: (value: string, index: number, context: C) => ContextualSuggestion[]
         } = {}
     ) {
         this.allowedCharRanges = options.allowedChars ||
@@ -223,6 +235,128 @@ export class StringSyntax<C = never> implements SyntaxPart<string, C> {
 
 }
 
+// Flags that make sense for filter matching. Stateful flags (g & y) are deliberately excluded.
+const REGEX_FLAGS = ['i', 'm', 's', 'u'];
+
+/**
+ * Match a /pattern/flags regex at a given position, allowing only characters from the
+ * given ranges. The regex is closed by the last slash that's followed only by flags, so
+ * slashes within the pattern don't need escaping, e.g. /users/\d+/orders/.
+ *
+ * Returns undefined if the value can't be a regex, or the pattern, flags & closed state
+ * of the regex entered so far.
+ */
+function getRegexAt(value: string, index: number, allowedCharRanges: CharRange[]) {
+    if (index >= value.length) {
+        // We're at the end of the string, that's an empty partial match:
+        return { pattern: '', flags: '', isClosed: false, consumed: 0 };
+    }
+
+    if (value[index] !== '/') return undefined;
+
+    const regexText = getStringAt(value, index, allowedCharRanges);
+    if (!regexText) return undefined;
+
+    const closedRegex = /^\/([^]*)\/([a-zA-Z]*)$/.exec(regexText);
+
+    return {
+        pattern: closedRegex ? closedRegex[1] : regexText.slice(1),
+        flags: closedRegex ? closedRegex[2] : '',
+        isClosed: !!closedRegex,
+        consumed: regexText.length
+    };
+}
+
+// Returns the reason the given regex is invalid, or undefined if it's valid
+function getRegexError(pattern: string, flags: string): string | undefined {
+    if (!pattern) return "Empty regular expression";
+
+    const unsupportedFlag = [...flags].find(f => !REGEX_FLAGS.includes(f));
+    if (unsupportedFlag) return `Unsupported regular expression flag '${unsupportedFlag}'`;
+
+    try {
+        new RegExp(pattern, flags);
+    } catch (e) {
+        return e.message;
+    }
+}
+
+/**
+ * Matches a regular expression, written as /pattern/flags, and parses it as a RegExp.
+ * This only fully matches valid regexes, and suggests the validation error otherwise,
+ * so that mistakes are visible as you type.
+ */
+export class RegexSyntax implements SyntaxPart<RegExp> {
+
+    private allowedCharRanges: CharRange[];
+
+    constructor(
+        private templateText: string = "pattern",
+        options: {
+            allowedChars?: CharRange[]
+        } = {}
+    ) {
+        this.allowedCharRanges = options.allowedChars ||
+            StringSyntax.AnyAsciiExceptSpaces;
+    }
+
+    match(value: string, index: number): undefined | SyntaxPartMatch {
+        const regex = getRegexAt(value, index, this.allowedCharRanges);
+        if (!regex) return;
+
+        return {
+            type: regex.isClosed && !getRegexError(regex.pattern, regex.flags)
+                ? 'full'
+                : 'partial',
+            consumed: regex.consumed
+        };
+    }
+
+    getSuggestions(value: string, index: number): SyntaxSuggestion[] {
+        const regex = getRegexAt(value, index, this.allowedCharRanges);
+
+        if (!regex?.pattern) {
+            return [{
+                showAs: `/{${this.templateText}}/`,
+                index,
+                value: "/",
+                matchType: 'template'
+            }];
+        }
+
+        // Suggest closing the regex, if it's not closed already:
+        const regexText = value.slice(index, index + regex.consumed) +
+            (regex.isClosed ? '' : '/');
+
+        const error = getRegexError(regex.pattern, regex.flags);
+
+        if (error) {
+            return [{
+                showAs: `${regexText} (${error})`,
+                index,
+                value: regexText,
+                matchType: 'partial'
+            }];
+        } else {
+            return [{
+                showAs: regexText,
+                index,
+                value: regexText,
+                matchType: 'full'
+            }];
+        }
+    }
+
+    parse(value: string, index: number): RegExp {
+        // Ensure the parsing matches correctly
+        getParsedValue(this, value, index);
+
+        const { pattern, flags } = getRegexAt(value, index, this.allowedCharRanges)!;
+        return new RegExp(pattern, flags);
+    }
+
+}
+
 export class SyntaxWrapperSyntax<P> implements SyntaxPart<P> {
 
     private optional: boolean;
@@ -818,6 +952,38 @@ export class StringOptionsSyntax<
 
 }
 
+/**
+ * Matches one of two syntaxes, depending on a condition checked against the preceeding
+ * input. Useful when earlier parts (e.g. an operator) change how a later value is written.
+ */
+export class ConditionalSyntax<A, B, C = never> implements SyntaxPart<A | B, C> {
+
+    constructor(
+        private condition: (value: string, index: number) => boolean,
+        private ifTrue: SyntaxPart<A, C>,
+        private ifFalse: SyntaxPart<B, C>
+    ) {}
+
+    private getSyntax(value: string, index: number): SyntaxPart<A | B, C> {
+        return this.condition(value, index)
+            ? this.ifTrue
+            : this.ifFalse;
+    }
+
+    match(value: string, index: number): SyntaxPartMatch | undefined {
+        return this.getSyntax(value, index).match(value, index);
+    }
+
+    getSuggestions(value: string, index: number, context?: C): SyntaxSuggestion[] {
+        return this.getSyntax(value, index).getSuggestions(value, index, context);
+    }
+
+    parse(value: string, index: number): A | B {
+        return this.getSyntax(value, index).parse(value, index);
+    }
+
+}
+
 /**
  * Matches a chunk of syntax, but also matches fully if that syntax does not
  * appear. In effect, this always matches. Either it fully matches nothing
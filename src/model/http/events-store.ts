@@ -104,6 +104,11 @@ export class EventsStore {
         );
     }
 
+    @computed
+    get breakpointedExchanges(): Array<HttpExchange> {
+        return this.exchanges.filter((exchange) => exchange.isBreakpointed);
+    }
+
     @computed get activeSources() {
         return _(this.exchanges)
             .map(e => e.request.headers['user-agent'])
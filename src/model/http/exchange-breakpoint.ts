@@ -66,6 +66,7 @@ export function getDummyResponseBreakpoint(httpVersion: 1 | 2) {
         Buffer.from(''),
         Buffer.from('')
     );
+    breakpoint.isDirectResponse = true;
 
     return breakpoint;
 }
@@ -106,6 +107,9 @@ export abstract class Breakpoint<T extends BreakpointInProgress> {
     private resultMetadata: Omit<T, 'body'>;
     private readonly editableBody: EditableBody;
 
+    // The message as it was when first paused, before any edits, with its decoded body
+    readonly original: Omit<T, 'body'> & { body: Buffer };
+
     constructor(
         result: Omit<T, 'body'>,
         decodedBody: Buffer,
@@ -113,6 +117,12 @@ export abstract class Breakpoint<T extends BreakpointInProgress> {
     ) {
         this.deferred = getDeferred();
         this.resultMetadata = result;
+        this.original = {
+            ...result,
+            // Headers may be mutated in place later, so we need our own copy:
+            headers: { ...result.headers },
+            body: decodedBody
+        };
         this.editableBody = new EditableBody(
             decodedBody,
             encodedBody,
@@ -148,6 +158,28 @@ export abstract class Breakpoint<T extends BreakpointInProgress> {
 
             lastContentLength = newContentLength;
         });
+
+        // However the breakpoint completes, it shouldn't then try to auto-resume:
+        this.deferred.promise.then(this.cancelAutoResume, this.cancelAutoResume);
+    }
+
+    // If set, the time (in ms since epoch) when this breakpoint will automatically resume
+    @observable
+    autoResumeAt: number | undefined;
+    private autoResumeTimer: ReturnType<typeof setTimeout> | undefined;
+
+    @action.bound
+    scheduleAutoResume(delayMs: number) {
+        this.cancelAutoResume();
+        this.autoResumeAt = Date.now() + delayMs;
+        this.autoResumeTimer = setTimeout(this.resume, delayMs);
+    }
+
+    @action.bound
+    cancelAutoResume() {
+        if (this.autoResumeTimer !== undefined) clearTimeout(this.autoResumeTimer);
+        this.autoResumeTimer = undefined;
+        this.autoResumeAt = undefined;
     }
 
     get inProgressResult(): T {
@@ -161,6 +193,7 @@ export abstract class Breakpoint<T extends BreakpointInProgress> {
 
     @action.bound
     updateMetadata(update: Partial<BreakpointMetadata>) {
+        this.cancelAutoResume(); // Never auto-resume halfway through manual editing
         this.resultMetadata = {
             ...this.resultMetadata,
             ..._.omit(update, 'body')
@@ -169,6 +202,7 @@ export abstract class Breakpoint<T extends BreakpointInProgress> {
 
     @action.bound
     updateBody(body: Buffer) {
+        this.cancelAutoResume(); // Never auto-resume halfway through manual editing
         this.editableBody.updateDecodedBody(body);
     }
 
@@ -205,6 +239,10 @@ class RequestBreakpoint extends Breakpoint<BreakpointRequestResult> {
 }
 
 class ResponseBreakpoint extends Breakpoint<BreakpointResponseResult> {
+    // Set for responses written from scratch in place of a request breakpoint, rather
+    // than received from the upstream server.
+    isDirectResponse = false;
+
     close = () => {
         this.deferred.resolve('close');
     }
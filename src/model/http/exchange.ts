@@ -28,6 +28,7 @@ import { lazyObservablePromise, ObservablePromise, observablePromise } from "../
 import { parseSource } from './sources';
 import { getContentType } from './content-types';
 import { getExchangeCategory, ExchangeCategory } from './exchange-colors';
+import { getStatusMessage } from './http-docs';
 
 import { ApiStore } from '../api/api-store';
 import { ApiExchange } from '../api/openapi';
@@ -372,13 +373,21 @@ export class HttpExchange {
         return this._responseBreakpoint;
     }
 
+    // The breakpoint this exchange is currently paused at, if any. There's only ever one
+    // at a time, as request breakpoints are cleared before response breakpoints begin.
     @computed
-    get isBreakpointed() {
+    get activeBreakpoint(): RequestBreakpoint | ResponseBreakpoint | undefined {
         return this.requestBreakpoint || this.responseBreakpoint;
     }
 
-    async triggerRequestBreakpoint(request: MockttpBreakpointedRequest) {
+    @computed
+    get isBreakpointed() {
+        return !!this.activeBreakpoint;
+    }
+
+    async triggerRequestBreakpoint(request: MockttpBreakpointedRequest, autoResumeDelay?: number) {
         const breakpoint = await getRequestBreakpoint(request);
+        if (autoResumeDelay !== undefined) breakpoint.scheduleAutoResume(autoResumeDelay);
         runInAction(() => { this._requestBreakpoint = breakpoint; });
 
         const result = await breakpoint.waitForCompletedResult();
@@ -390,8 +399,24 @@ export class HttpExchange {
         return result;
     }
 
-    async triggerResponseBreakpoint(response: MockttpBreakpointedResponse) {
+    // A view of this exchange, as if the given response had already been received. Useful to
+    // inspect responses (e.g. at breakpoints) before the UI receives the real response event.
+    withPendingResponse(response: MockttpBreakpointedResponse): HttpExchange {
+        return Object.create(this, {
+            response: {
+                value: addResponseMetadata({
+                    ...response,
+                    statusMessage: response.statusMessage ?? getStatusMessage(response.statusCode),
+                    timingEvents: {},
+                    tags: []
+                })
+            }
+        });
+    }
+
+    async triggerResponseBreakpoint(response: MockttpBreakpointedResponse, autoResumeDelay?: number) {
         const breakpoint = await getResponseBreakpoint(response);
+        if (autoResumeDelay !== undefined) breakpoint.scheduleAutoResume(autoResumeDelay);
         runInAction(() => { this._responseBreakpoint = breakpoint; });
 
         const result = await breakpoint.waitForCompletedResult();
@@ -409,6 +434,7 @@ export class HttpExchange {
         this._responseBreakpoint = getDummyResponseBreakpoint(this.httpVersion);
 
         const requestBreakpoint = this.requestBreakpoint!;
+        requestBreakpoint.cancelAutoResume();
         this._requestBreakpoint = undefined;
 
         // When the response resumes, return it as the request result's response
@@ -0,0 +1,39 @@
+import { joinAnd } from '../../util';
+
+import { HttpExchange } from '../http/exchange';
+import { FilterSet, SelectableSearchFilterClasses } from '../filters/search-filters';
+import { matchFilters } from '../filters/filter-matching';
+
+/**
+ * Breakpoint conditions are written in the same filter language as the View page's search
+ * filters. Just like that search, any text that isn't a filter matches as free text search.
+ */
+export const parseBreakpointCondition = (condition: string): FilterSet =>
+    matchFilters(SelectableSearchFilterClasses, condition);
+
+export function describeBreakpointCondition(condition: string): string | undefined {
+    const [stringFilter, ...filters] = parseBreakpointCondition(condition);
+
+    // Filter sets are in reverse order, so we reverse them to match the condition text
+    const descriptions = filters.slice().reverse().map((filter) => filter.filterDescription);
+    if (stringFilter.filter) {
+        descriptions.push(`exchanges containing "${stringFilter.filter}"`);
+    }
+
+    return descriptions.length ? joinAnd(descriptions) : undefined;
+}
+
+export async function matchesBreakpointCondition(
+    condition: string,
+    exchange: HttpExchange
+): Promise<boolean> {
+    const filters = parseBreakpointCondition(condition);
+
+    // Bodies are decoded lazily, but body filters only match once they're decoded
+    await exchange.request.body.decodedPromise;
+    if (exchange.isSuccessfulExchange()) {
+        await exchange.response.body.decodedPromise;
+    }
+
+    return filters.every((filter) => filter.matches(exchange));
+}
@@ -0,0 +1,91 @@
+import * as _ from 'lodash';
+import * as uuid from 'uuid/v4';
+
+import { Headers } from '../../types';
+import { tryParseJson } from '../../util';
+
+// The request data available to response templates. This can be built from either
+// a live request (when handling it in a rule) or a captured exchange (for previews).
+export interface TemplateRequest {
+    method: string;
+    url: string;
+    headers: Headers;
+    body: string | undefined;
+}
+
+const TEMPLATE_EXPRESSION_REGEX = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+const formatTemplateValue = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    if (_.isString(value)) return value;
+    return JSON.stringify(value);
+};
+
+const getHeaderValue = (headers: Headers, name: string) => {
+    const value = headers[name.toLowerCase()];
+    return _.isArray(value) ? value.join(', ') : value;
+};
+
+const parseUrl = (url: string) => {
+    try {
+        return new URL(url);
+    } catch (e) {
+        return undefined;
+    }
+};
+
+// Returns the value for a template expression, or undefined if the expression isn't
+// something we understand (as opposed to '' for valid expressions with no value).
+function evaluateExpression(expression: string, request: TemplateRequest): string | undefined {
+    if (expression === 'uuid') return uuid();
+    if (expression === 'now') return new Date().toISOString();
+
+    const [root, field, ...path] = expression.split('.');
+    if (root !== 'request') return undefined;
+
+    switch (field) {
+        case 'method':
+            return path.length ? undefined : request.method;
+        case 'url':
+            return path.length ? undefined : request.url;
+        case 'path':
+            return path.length ? undefined : formatTemplateValue(parseUrl(request.url)?.pathname);
+        case 'query':
+            if (path.length === 0) return formatTemplateValue(parseUrl(request.url)?.search);
+            return formatTemplateValue(parseUrl(request.url)?.searchParams.get(path.join('.')));
+        case 'headers':
+            if (path.length === 0) return undefined;
+            // Header names can include dots, so we treat the rest as one name
+            return formatTemplateValue(getHeaderValue(request.headers, path.join('.')));
+        case 'body':
+            if (path.length === 0) return formatTemplateValue(request.body);
+            if (path[0] !== 'json') return undefined;
+
+            const json = tryParseJson(request.body ?? '');
+            return formatTemplateValue(path.length > 1
+                ? _.get(json, path.slice(1))
+                : json
+            );
+        default:
+            return undefined;
+    }
+}
+
+/**
+ * Render a template string, replacing each {{expression}} with the corresponding
+ * value from the given request. Unrecognized expressions are left untouched.
+ */
+export function renderTemplate(template: string, request: TemplateRequest): string {
+    return template.replace(TEMPLATE_EXPRESSION_REGEX, (match, expression: string) => {
+        const result = evaluateExpression(expression, request);
+        return result === undefined ? match : result;
+    });
+}
+
+export function renderTemplateHeaders(headers: Headers, request: TemplateRequest): Headers {
+    return _.mapValues(headers, (value) =>
+        _.isArray(value)
+            ? value.map((v) => renderTemplate(v, request))
+            : renderTemplate(value!, request)
+    );
+}
@@ -1,7 +1,7 @@
 import * as _ from 'lodash';
 import * as uuid from 'uuid/v4'
 import { observable } from 'mobx';
-import { Method, matchers, handlers, completionCheckers } from 'mockttp';
+import { Method, matchers, handlers, webSocketHandlers, completionCheckers } from 'mockttp';
 import * as serializr from 'serializr';
 import * as querystring from 'querystring';
 
@@ -12,7 +12,14 @@ import {
     Headers,
     MockttpSerializedBuffer
 } from '../../types';
-import { byteLength, isSerializedBuffer, tryParseJson } from '../../util';
+import { byteLength, isSerializedBuffer, joinAnd, tryParseJson } from '../../util';
+import { delay } from '../../util/promise';
+import { renderTemplate, renderTemplateHeaders, TemplateRequest } from './response-templates';
+import {
+    requiresTransformCallback,
+    buildRequestTransformCallback,
+    buildResponseTransformCallback
+} from './rule-transforms';
 import * as amIUsingHtml from '../../amiusing.html';
 
 import { ProxyStore } from '../proxy-store';
@@ -72,6 +79,35 @@ export class DefaultWildcardMatcher extends matchers.WildcardMatcher {
     }
 }
 
+const explainPairs = (pairs: { [key: string]: string }) =>
+    joinAnd(Object.entries(pairs).map(([key, value]) => `${key}=${value}`));
+
+// Mockttp's cookie matcher only matches a single name=value pair per matcher, so we
+// explain (and configure) them individually.
+export class CookieMatcher extends matchers.CookieMatcher {
+    explain() {
+        const [name, value] = Object.entries(this.cookie)[0] ?? [];
+        return `with cookie '${name}' set to '${value}'`;
+    }
+}
+
+export class FormDataMatcher extends matchers.FormDataMatcher {
+    explain() {
+        return `with form data including ${explainPairs(this.formData)}`;
+    }
+}
+
+// Used as the initial matcher for WebSocket rules. It matches everything, like the wildcard
+// matcher, but rules starting with this are sent to the server as WebSocket rules instead.
+export class WebSocketWildcardMatcher extends matchers.WildcardMatcher {
+
+    uiType = 'ws-wildcard';
+
+    explain() {
+        return 'WebSockets';
+    }
+}
+
 export class AmIUsingMatcher extends matchers.RegexPathMatcher {
 
     uiType = 'am-i-using';
@@ -124,6 +160,53 @@ serializr.createModelSchema(StaticResponseHandler, {
 }, (context) => new StaticResponseHandler(context.args.rulesStore));
 
 
+export class TemplatedResponseHandler extends handlers.CallbackHandler {
+
+    readonly status: number;
+
+    // Header values & body are templates, rendered separately for each request
+    readonly headers: Headers;
+    readonly body: string;
+
+    constructor(status: number, headers: Headers, body: string) {
+        super(async (request) => {
+            const templateRequest: TemplateRequest = {
+                method: request.method,
+                url: request.url,
+                headers: request.headers,
+                body: await request.body.getText()
+            };
+
+            return {
+                statusCode: status,
+                headers: renderTemplateHeaders(headers, templateRequest),
+                body: renderTemplate(body, templateRequest)
+            };
+        });
+
+        this.status = status;
+        this.headers = headers;
+        this.body = body;
+    }
+
+    explain() {
+        return `respond with status ${this.status}${
+            this.body ? ' and templated content' : ''
+        }`;
+    }
+}
+
+serializr.createModelSchema(TemplatedResponseHandler, {
+    uiType: serializeAsTag(() => 'templated-response'),
+    type: serializr.primitive(),
+    status: serializr.primitive(),
+    headers: serializr.raw(),
+    body: serializr.primitive()
+}, (context) => {
+    const data = context.json;
+    return new TemplatedResponseHandler(data.status, data.headers, data.body);
+});
+
 export class FromFileResponseHandler extends handlers.FileHandler {
     explain() {
         return `respond with status ${this.status} and content from ${this.filePath || 'a file'}`;
@@ -169,65 +252,135 @@ serializr.createModelSchema(ForwardToHostHandler, {
     );
 });
 
-export type RequestTransform = handlers.RequestTransform;
-export type ResponseTransform = handlers.ResponseTransform;
+// A regex find & replace operation, replacing every match of the pattern. The replacement
+// can reference capture groups from the pattern, as $1, $2, etc.
+export type MatchReplacePair = { pattern: string, replacement: string };
+
+// A rewrite of the request URL. Query parameters that are set to undefined in
+// updateQuery are removed, and all others are added or overridden.
+export type UrlRewrite = {
+    replaceProtocol?: 'http' | 'https';
+    matchReplacePath?: MatchReplacePair[];
+    updateQuery?: { [key: string]: string | undefined };
+};
+
+// Mockttp's own transforms, plus our own additions, which are applied by callbacks here
+// in the UI instead (see rule-transforms).
+export type RequestTransform = handlers.RequestTransform & {
+    rewriteUrl?: UrlRewrite;
+    matchReplaceHeaders?: MatchReplacePair[];
+    matchReplaceBody?: MatchReplacePair[];
+};
+export type ResponseTransform = handlers.ResponseTransform & {
+    matchReplaceHeaders?: MatchReplacePair[];
+    matchReplaceBody?: MatchReplacePair[];
+};
 
 export class TransformingHandler extends handlers.PassThroughHandler {
 
+    // The transforms as configured. These aren't stored as Mockttp's own transformRequest &
+    // transformResponse, as those must be left empty where we use callbacks instead.
+    readonly requestTransform: RequestTransform;
+    readonly responseTransform: ResponseTransform;
+
     constructor(
         rulesStore: RulesStore,
-        transformRequest: RequestTransform,
-        transformResponse: ResponseTransform
+        requestTransform: RequestTransform,
+        responseTransform: ResponseTransform
     ) {
         super({
             ...rulesStore.activePassthroughOptions,
-            transformRequest,
-            transformResponse
+            ...(requiresTransformCallback(requestTransform)
+                ? { beforeRequest: buildRequestTransformCallback(requestTransform) }
+                : { transformRequest: requestTransform }
+            ),
+            ...(requiresTransformCallback(responseTransform)
+                ? { beforeResponse: buildResponseTransformCallback(responseTransform) }
+                : { transformResponse: responseTransform }
+            )
         });
+
+        this.requestTransform = requestTransform;
+        this.responseTransform = responseTransform;
     }
 
     explain() {
-        const activeRequestTransforms = _.pickBy(this.transformRequest || {}, (v) => v !== undefined);
-        const activeResponseTransforms = _.pickBy(this.transformResponse || {}, (v) => v !== undefined);
+        const activeRequestTransforms = _.pickBy(this.requestTransform || {}, (v) => v !== undefined);
+        const activeResponseTransforms = _.pickBy(this.responseTransform || {}, (v) => v !== undefined);
 
         if (_.isEmpty(activeRequestTransforms) && _.isEmpty(activeResponseTransforms)) {
             return super.explain();
         } else if (!_.isEmpty(activeRequestTransforms) && !_.isEmpty(activeResponseTransforms)) {
-            return "automatically transform the request and response";
+            return "automatically transform the request and response" + this.explainUrlRewrite();
         } else if (!_.isEmpty(activeRequestTransforms)) {
-            return "automatically transform the request then pass it through to the target host";
+            return "automatically transform the request then pass it through to the target host" +
+                this.explainUrlRewrite();
         } else { // Must be response only
             return "automatically transform the response from the target host";
         }
     }
 
+    private explainUrlRewrite() {
+        const rewrite = this.requestTransform?.rewriteUrl;
+        const steps = rewrite ? getUrlRewriteSteps(rewrite) : [];
+        return steps.length ? `, ${joinAnd(steps)}` : '';
+    }
+
     // We override rule equality checks, to simplify them to treat undefined and missing
     // properties as different, because that matters for various transform properties.
     [CUSTOM_RULE_EQUALS](handlerA: TransformingHandler, handlerB: TransformingHandler): boolean {
-        return _.isEqual(handlerA.transformRequest, handlerB.transformRequest) &&
-            _.isEqual(handlerA.transformResponse, handlerB.transformResponse);
+        return _.isEqual(handlerA.requestTransform, handlerB.requestTransform) &&
+            _.isEqual(handlerA.responseTransform, handlerB.responseTransform);
     }
 
 }
 
+const quoteNames = (names: string[]) =>
+    joinAnd(names.map((name) => `'${name}'`));
+
+function getUrlRewriteSteps(rewrite: UrlRewrite): string[] {
+    const steps: string[] = [];
+
+    if (rewrite.replaceProtocol) {
+        steps.push(`switching to ${rewrite.replaceProtocol.toUpperCase()}`);
+    }
+
+    if (rewrite.matchReplacePath?.length) {
+        steps.push('rewriting the URL path');
+    }
+
+    const [removedParams, updatedParams] = _.partition(
+        Object.keys(rewrite.updateQuery ?? {}),
+        (key) => rewrite.updateQuery![key] === undefined
+    );
+
+    if (updatedParams.length) {
+        steps.push(`setting the ${quoteNames(updatedParams)} query parameter${
+            updatedParams.length > 1 ? 's' : ''
+        }`);
+    }
+
+    if (removedParams.length) {
+        steps.push(`removing the ${quoteNames(removedParams)} query parameter${
+            removedParams.length > 1 ? 's' : ''
+        }`);
+    }
+
+    return steps;
+}
+
+const TransformSchema = serializr.createSimpleSchema({
+    rewriteUrl: serializeWithUndefineds,
+    updateHeaders: serializeWithUndefineds,
+    updateJsonBody: serializeWithUndefineds,
+    replaceBody: serializeBuffer,
+    '*': Object.assign(serializr.raw(), { pattern: { test: () => true } })
+});
+
 serializr.createModelSchema(TransformingHandler, {
     uiType: serializeAsTag(() => 'req-res-transformer'),
-    transformRequest: serializr.object(
-        serializr.createSimpleSchema({
-            updateHeaders: serializeWithUndefineds,
-            updateJsonBody: serializeWithUndefineds,
-            replaceBody: serializeBuffer,
-            '*': Object.assign(serializr.raw(), { pattern: { test: () => true } })
-        })
-    ),
-    transformResponse: serializr.object(
-        serializr.createSimpleSchema({
-            updateHeaders: serializeWithUndefineds,
-            updateJsonBody: serializeWithUndefineds,
-            replaceBody: serializeBuffer,
-            '*': Object.assign(serializr.raw(), { pattern: { test: () => true } })
-        })
-    )
+    requestTransform: serializr.alias('transformRequest', serializr.object(TransformSchema)),
+    responseTransform: serializr.alias('transformResponse', serializr.object(TransformSchema))
 }, (context) => {
     const data = context.json;
     return new TransformingHandler(
@@ -237,70 +390,310 @@ serializr.createModelSchema(TransformingHandler, {
     );
 });
 
+// Breakpoints can optionally have a condition, written in the View page's filter language,
+// in which case only exchanges matching that condition are paused (see breakpoint-conditions).
+// They can also resume automatically after a delay, so forgotten breakpoints don't hang clients.
+export interface BreakpointOptions {
+    condition?: string;
+    autoResumeAfter?: number; // In seconds
+}
+
+const explainBreakpointOptions = ({ condition, autoResumeAfter }: BreakpointOptions) =>
+    (condition ? `, when matching '${condition}'` : '') +
+    (autoResumeAfter !== undefined
+        ? `, resuming automatically after ${autoResumeAfter} second${autoResumeAfter === 1 ? '' : 's'}`
+        : ''
+    );
+
+const BreakpointOptionsSchema = {
+    condition: serializr.primitive(),
+    autoResumeAfter: serializr.primitive()
+};
+
 export class RequestBreakpointHandler extends handlers.PassThroughHandler {
 
-    constructor(rulesStore: RulesStore) {
+    readonly condition: string | undefined;
+    readonly autoResumeAfter: number | undefined;
+
+    constructor(rulesStore: RulesStore, options: BreakpointOptions = {}) {
         super({
             ...rulesStore.activePassthroughOptions,
-            beforeRequest: rulesStore.triggerRequestBreakpoint
+            beforeRequest: (request) => rulesStore.triggerRequestBreakpoint(request, options)
         });
+
+        this.condition = options.condition || undefined;
+        this.autoResumeAfter = options.autoResumeAfter;
     }
 
     explain() {
-        return "manually rewrite the request before it's forwarded";
+        return "manually rewrite the request before it's forwarded" +
+            explainBreakpointOptions(this);
     }
 }
 
 serializr.createModelSchema(RequestBreakpointHandler, {
     uiType: serializeAsTag(() => 'request-breakpoint'),
-    type: serializr.primitive()
-}, (context) => new RequestBreakpointHandler(context.args.rulesStore));
+    type: serializr.primitive(),
+    ...BreakpointOptionsSchema
+}, (context) => new RequestBreakpointHandler(context.args.rulesStore, context.json));
 
 export class ResponseBreakpointHandler extends handlers.PassThroughHandler {
 
-    constructor(rulesStore: RulesStore) {
+    readonly condition: string | undefined;
+    readonly autoResumeAfter: number | undefined;
+
+    constructor(rulesStore: RulesStore, options: BreakpointOptions = {}) {
         super({
             ...rulesStore.activePassthroughOptions,
-            beforeResponse: rulesStore.triggerResponseBreakpoint
+            beforeResponse: (response) => rulesStore.triggerResponseBreakpoint(response, options)
         });
+
+        this.condition = options.condition || undefined;
+        this.autoResumeAfter = options.autoResumeAfter;
     }
 
     explain() {
-        return "manually rewrite the response before it's returned";
+        return "manually rewrite the response before it's returned" +
+            explainBreakpointOptions(this);
     }
 }
 
 serializr.createModelSchema(ResponseBreakpointHandler, {
     uiType: serializeAsTag(() => 'response-breakpoint'),
-    type: serializr.primitive()
-}, (context) => new ResponseBreakpointHandler(context.args.rulesStore));
+    type: serializr.primitive(),
+    ...BreakpointOptionsSchema
+}, (context) => new ResponseBreakpointHandler(context.args.rulesStore, context.json));
 
 
 export class RequestAndResponseBreakpointHandler extends handlers.PassThroughHandler {
 
-    constructor(rulesStore: RulesStore) {
+    readonly condition: string | undefined;
+    readonly autoResumeAfter: number | undefined;
+
+    constructor(rulesStore: RulesStore, options: BreakpointOptions = {}) {
         super({
             ...rulesStore.activePassthroughOptions,
-            beforeRequest: rulesStore.triggerRequestBreakpoint,
-            beforeResponse: rulesStore.triggerResponseBreakpoint
+            // Conditions are checked at each step, so e.g. a status condition will only ever
+            // match at the response step, and requests matching only by URL pause at both.
+            beforeRequest: (request) => rulesStore.triggerRequestBreakpoint(request, options),
+            beforeResponse: (response) => rulesStore.triggerResponseBreakpoint(response, options)
         });
+
+        this.condition = options.condition || undefined;
+        this.autoResumeAfter = options.autoResumeAfter;
     }
 
     explain() {
-        return "manually rewrite the request and response";
+        return "manually rewrite the request and response" +
+            explainBreakpointOptions(this);
     }
 }
 
 serializr.createModelSchema(RequestAndResponseBreakpointHandler, {
     uiType: serializeAsTag(() => 'request-and-response-breakpoint'),
-    type: serializr.primitive()
-}, (context) => new RequestAndResponseBreakpointHandler(context.args.rulesStore));
+    type: serializr.primitive(),
+    ...BreakpointOptionsSchema
+}, (context) => new RequestAndResponseBreakpointHandler(context.args.rulesStore, context.json));
+
+export type DelayConfig =
+    | { mode: 'fixed', duration: number }
+    | { mode: 'random', min: number, max: number }
+    | { mode: 'jitter', duration: number, jitter: number };
+
+export type DelayedResponse = { status: number, body: string };
+
+// Pick the delay (in ms) for a single request, given a delay configuration
+export function getDelayDuration(config: DelayConfig): number {
+    switch (config.mode) {
+        case 'fixed':
+            return config.duration;
+        case 'random':
+            return _.random(config.min, config.max);
+        case 'jitter':
+            return Math.max(0, config.duration + _.random(-config.jitter, config.jitter));
+    }
+}
+
+const describeDelay = (config: DelayConfig) => {
+    switch (config.mode) {
+        case 'fixed':
+            return `${config.duration}ms`;
+        case 'random':
+            return `${config.min}-${config.max}ms`;
+        case 'jitter':
+            return `${config.duration}±${config.jitter}ms`;
+    }
+}
+
+export class DelayHandler extends handlers.PassThroughHandler {
+
+    readonly delay: DelayConfig;
+
+    // If set, this response is returned after the delay, instead of passing the request on
+    readonly response: DelayedResponse | undefined;
+
+    constructor(rulesStore: RulesStore, delayConfig: DelayConfig, response?: DelayedResponse) {
+        super({
+            ...rulesStore.activePassthroughOptions,
+            beforeRequest: async (request) => {
+                await delay(getDelayDuration(delayConfig));
+
+                if (response) {
+                    return {
+                        response: {
+                            statusCode: response.status,
+                            body: response.body
+                        }
+                    };
+                }
+            }
+        });
+
+        this.delay = delayConfig;
+        this.response = response;
+    }
+
+    explain() {
+        return `wait ${describeDelay(this.delay)}, then ${
+            this.response
+                ? `respond with status ${this.response.status}`
+                : 'pass the request through to the target host'
+        }`;
+    }
+}
+
+serializr.createModelSchema(DelayHandler, {
+    uiType: serializeAsTag(() => 'delay'),
+    type: serializr.primitive(),
+    delay: serializr.raw(),
+    response: serializr.raw()
+}, (context) => {
+    const data = context.json;
+    return new DelayHandler(
+        context.args.rulesStore,
+        data.delay,
+        data.response
+    );
+});
+
+export type ChaosFailure =
+    | { type: 'status', status: number }
+    | { type: 'reset' }
+    | { type: 'timeout' };
+
+// The longest we'll hold a 'timeout' request open, if the client never gives up itself
+const MAX_CHAOS_TIMEOUT_MS = 2 * 60 * 1000;
+
+const describeChaosFailure = (failure: ChaosFailure) => {
+    switch (failure.type) {
+        case 'status':
+            return `respond with status ${failure.status}`;
+        case 'reset':
+            return 'close the connection';
+        case 'timeout':
+            return 'time out';
+    }
+}
+
+export class ChaosHandler extends handlers.PassThroughHandler {
+
+    // The percentage (0-100) of matching requests that should fail
+    readonly failureRate: number;
+
+    readonly failure: ChaosFailure;
+
+    constructor(rulesStore: RulesStore, failureRate: number, failure: ChaosFailure) {
+        super({
+            ...rulesStore.activePassthroughOptions,
+            beforeRequest: async (request) => {
+                if (Math.random() * 100 >= failureRate) return; // Pass through as normal
+
+                switch (failure.type) {
+                    case 'status':
+                        return { response: { statusCode: failure.status } };
+                    case 'reset':
+                        return { response: 'close' };
+                    case 'timeout':
+                        // Hold the request until the client gives up, then drop the connection.
+                        // This is capped, so nothing is left pending if the client waits forever.
+                        await rulesStore.waitForRequestAbort(request.id, MAX_CHAOS_TIMEOUT_MS);
+                        return { response: 'close' };
+                }
+            }
+        });
+
+        this.failureRate = failureRate;
+        this.failure = failure;
+    }
+
+    explain() {
+        return `${describeChaosFailure(this.failure)} for ${this.failureRate}% of requests, ` +
+            'and pass the rest through to the target host';
+    }
+}
+
+serializr.createModelSchema(ChaosHandler, {
+    uiType: serializeAsTag(() => 'chaos'),
+    type: serializr.primitive(),
+    failureRate: serializr.primitive(),
+    failure: serializr.raw()
+}, (context) => {
+    const data = context.json;
+    return new ChaosHandler(
+        context.args.rulesStore,
+        data.failureRate,
+        data.failure
+    );
+});
 
 export type TimeoutHandler = handlers.TimeoutHandler;
 export const TimeoutHandler = handlers.TimeoutHandler;
 export type CloseConnectionHandler = handlers.CloseConnectionHandler;
 export const CloseConnectionHandler = handlers.CloseConnectionHandler;
 
+export class WebSocketPassThroughHandler extends webSocketHandlers.PassThroughWebSocketHandler {
+
+    constructor(rulesStore: RulesStore) {
+        super(rulesStore.activePassthroughOptions);
+    }
+
+    explain() {
+        return 'pass the WebSocket through to the target host';
+    }
+
+}
+
+serializr.createModelSchema(WebSocketPassThroughHandler, {
+    type: serializr.primitive()
+}, (context) => new WebSocketPassThroughHandler(context.args.rulesStore));
+
+export class WebSocketForwardToHostHandler extends webSocketHandlers.PassThroughWebSocketHandler {
+
+    constructor(forwardToLocation: string, updateHostHeader: boolean, rulesStore: RulesStore) {
+        super({
+            ...rulesStore.activePassthroughOptions,
+            forwarding: {
+                targetHost: forwardToLocation,
+                updateHostHeader: updateHostHeader
+            }
+        });
+    }
+
+}
+
+serializr.createModelSchema(WebSocketForwardToHostHandler, {
+    uiType: serializeAsTag(() => 'ws-forward-to-host'),
+    type: serializr.primitive(),
+    forwarding: serializr.map(serializr.primitive())
+}, (context) => {
+    const data = context.json;
+    return new WebSocketForwardToHostHandler(
+        data.forwarding.targetHost,
+        data.forwarding.updateHostHeader,
+        context.args.rulesStore
+    );
+});
+
 export function getNewRule(rulesStore: RulesStore): HtkMockRule {
     return observable({
         id: uuid(),
@@ -367,6 +760,219 @@ export function buildRuleFromExchange(exchange: HttpExchange): HtkMockRule {
         ? (exchange.response as HtkResponse).body.decoded!
         : "A mock response";
 
+    return {
+        id: uuid(),
+        activated: true,
+        matchers: buildRequestMatchers(exchange.request),
+        handler: new StaticResponseHandler(
+            statusCode,
+            statusMessage || getStatusMessage(statusCode),
+            bodyContent,
+            buildMockResponseHeaders(headers, bodyContent)
+        ),
+        completionChecker: new completionCheckers.Always(),
+    };
+}
+
+/**
+ * Build a rule that makes the same edits as those made so far at the exchange's active
+ * breakpoint, for all future matching requests. Responses written from scratch become
+ * static responses, and all other edits become transforms of the real traffic.
+ */
+export function buildRuleFromBreakpointEdits(
+    rulesStore: RulesStore,
+    exchange: HttpExchange
+): HtkMockRule {
+    const { requestBreakpoint, responseBreakpoint } = exchange;
+
+    let handler: TransformingHandler | StaticResponseHandler;
+
+    if (requestBreakpoint) {
+        const { original, inProgressResult: edited } = requestBreakpoint;
+        const rewriteUrl = getUrlRewrite(original.url, edited.url);
+
+        handler = new TransformingHandler(rulesStore, {
+            ...(edited.method !== original.method
+                ? { replaceMethod: edited.method }
+                : {}
+            ),
+            ...(rewriteUrl ? { rewriteUrl } : {}),
+            ...getMessageEdits(original, { headers: edited.headers, body: edited.body.decoded })
+        }, {});
+    } else if (responseBreakpoint?.isDirectResponse) {
+        const { statusCode, statusMessage, headers, body } = responseBreakpoint.inProgressResult;
+
+        handler = new StaticResponseHandler(
+            statusCode,
+            statusMessage || getStatusMessage(statusCode),
+            body.decoded,
+            buildMockResponseHeaders(headers, body.decoded)
+        );
+    } else if (responseBreakpoint) {
+        const { original, inProgressResult: edited } = responseBreakpoint;
+
+        handler = new TransformingHandler(rulesStore, {}, {
+            ...(edited.statusCode !== original.statusCode
+                ? { replaceStatus: edited.statusCode }
+                : {}
+            ),
+            ...getMessageEdits(original, { headers: edited.headers, body: edited.body.decoded })
+        });
+    } else {
+        throw new Error("Can't build a rule from an exchange that isn't at a breakpoint");
+    }
+
+    return {
+        id: uuid(),
+        activated: true,
+        matchers: buildRequestMatchers(exchange.request),
+        handler,
+        completionChecker: new completionCheckers.Always(),
+    };
+}
+
+// Only protocol, path & query edits can be rewritten. Edits that send the request to a
+// different host or port aren't included.
+function getUrlRewrite(originalUrl: string, editedUrl: string): UrlRewrite | undefined {
+    if (originalUrl === editedUrl) return undefined;
+
+    let original: URL, edited: URL;
+    try {
+        original = new URL(originalUrl);
+        edited = new URL(editedUrl);
+    } catch (e) {
+        return undefined;
+    }
+
+    const rewrite: UrlRewrite = {};
+
+    if (original.protocol !== edited.protocol && ['http:', 'https:'].includes(edited.protocol)) {
+        rewrite.replaceProtocol = edited.protocol.slice(0, -1) as 'http' | 'https';
+    }
+
+    if (original.pathname !== edited.pathname) {
+        rewrite.matchReplacePath = [{
+            pattern: `^${_.escapeRegExp(original.pathname)}$`,
+            replacement: edited.pathname.replace(/\$/g, '$$$$') // Escape $ in replacements
+        }];
+    }
+
+    const originalQuery = querystring.parse(original.search.slice(1));
+    const editedQuery = querystring.parse(edited.search.slice(1));
+    const changedParams = _.union(Object.keys(originalQuery), Object.keys(editedQuery))
+        .filter((key) => !_.isEqual(originalQuery[key], editedQuery[key]));
+
+    if (changedParams.length) {
+        rewrite.updateQuery = _.fromPairs(changedParams.map((key) =>
+            [key, _.castArray(editedQuery[key])[0]] // Undefined if removed
+        ));
+    }
+
+    return _.isEmpty(rewrite) ? undefined : rewrite;
+}
+
+type DecodedMessage = { headers: Headers, body: Buffer };
+
+function getMessageEdits(
+    original: DecodedMessage,
+    edited: DecodedMessage
+): Pick<RequestTransform & ResponseTransform, 'updateHeaders' | 'updateJsonBody' | 'replaceBody'> {
+    const { body: originalBody } = original;
+    const { body: editedBody } = edited;
+    const bodyEdited = !originalBody.equals(editedBody);
+
+    const editedHeaders = _.union(Object.keys(original.headers), Object.keys(edited.headers))
+        .filter((key) =>
+            !key.startsWith(':') && // Pseudo-headers are generated automatically
+            // Mockttp corrects the content-length itself, if the body is transformed:
+            !(bodyEdited && key === 'content-length') &&
+            !_.isEqual(original.headers[key], edited.headers[key])
+        );
+
+    const updateHeaders = editedHeaders.length
+        ? _.fromPairs(editedHeaders.map((key) =>
+            [key, edited.headers[key]] // Undefined if removed
+        )) as Headers
+        : undefined;
+
+    if (!bodyEdited) {
+        return updateHeaders ? { updateHeaders } : {};
+    }
+
+    const originalJson = tryParseJson(originalBody.toString());
+    const editedJson = tryParseJson(editedBody.toString());
+    const jsonUpdate = _.isPlainObject(originalJson) && _.isPlainObject(editedJson)
+        ? getJsonBodyUpdate(originalJson as _.Dictionary<unknown>, editedJson as _.Dictionary<unknown>)
+        : undefined;
+
+    return {
+        ...(updateHeaders ? { updateHeaders } : {}),
+        ...(jsonUpdate
+            ? { updateJsonBody: jsonUpdate }
+            : { replaceBody: editedBody }
+        )
+    };
+}
+
+// Mockttp deep merges JSON updates into the real body, removing fields set to undefined.
+// It only restores undefined values at the top level after serialization though, and
+// arrays are merged index by index, so neither removed nested fields nor edited arrays
+// can be expressed as updates. For those we return undefined, so the whole body is
+// replaced instead.
+function getJsonBodyUpdate(
+    original: _.Dictionary<unknown>,
+    edited: _.Dictionary<unknown>,
+    isNested = false
+): _.Dictionary<unknown> | undefined {
+    const update: _.Dictionary<unknown> = {};
+
+    for (let key of _.union(Object.keys(original), Object.keys(edited))) {
+        const originalValue = original[key];
+        const editedValue = edited[key];
+
+        if (_.isEqual(originalValue, editedValue)) continue;
+
+        if (_.isPlainObject(originalValue) && _.isPlainObject(editedValue)) {
+            const nestedUpdate = getJsonBodyUpdate(
+                originalValue as _.Dictionary<unknown>,
+                editedValue as _.Dictionary<unknown>,
+                true
+            );
+            if (!nestedUpdate) return undefined;
+            update[key] = nestedUpdate;
+        } else if (Array.isArray(originalValue) && Array.isArray(editedValue)) {
+            return undefined;
+        } else if (editedValue === undefined && isNested) {
+            return undefined;
+        } else {
+            update[key] = editedValue; // Undefined if removed
+        }
+    }
+
+    return update;
+}
+
+/**
+ * Build a group of mock rules from a selection of exchanges. Only one rule is created for
+ * each distinct method, path & query combination, using the first matching exchange.
+ */
+export function buildRuleGroupFromExchanges(
+    title: string,
+    exchanges: HttpExchange[]
+): HtkMockRuleGroup {
+    const distinctExchanges = _.uniqBy(exchanges, ({ request }) =>
+        `${request.method} ${request.parsedUrl.toString()}`
+    );
+
+    return {
+        id: uuid(),
+        title,
+        items: distinctExchanges.map((exchange) => buildRuleFromExchange(exchange))
+    };
+}
+
+// Tidy up recorded response headers, so they can be used for a static mock response
+export function buildMockResponseHeaders(headers: Headers, bodyContent: string | Buffer): Headers {
     // Copy headers so we can mutate them independently:
     const mockRuleHeaders = Object.assign({}, headers);
 
@@ -381,18 +987,7 @@ export function buildRuleFromExchange(exchange: HttpExchange): HtkMockRule {
         mockRuleHeaders['content-length'] = byteLength(bodyContent).toString();
     }
 
-    return {
-        id: uuid(),
-        activated: true,
-        matchers: buildRequestMatchers(exchange.request),
-        handler: new StaticResponseHandler(
-            statusCode,
-            statusMessage || getStatusMessage(statusCode),
-            bodyContent,
-            mockRuleHeaders
-        ),
-        completionChecker: new completionCheckers.Always(),
-    };
+    return mockRuleHeaders;
 }
 
 export const buildDefaultGroup = (items: HtkMockItem[]): HtkMockRuleGroup => ({
@@ -1,21 +1,30 @@
 import * as _ from 'lodash';
-import { MockRuleData, matchers } from "mockttp";
+import { matchers, completionCheckers } from "mockttp";
 
-import { MatcherClass, HandlerClass } from "./rules";
+import { Matcher, MatcherClass, HandlerClass, CompletionCheckerClass } from "./rules";
+import { HtkMockRule } from "./rules-structure";
 import {
     WildcardMatcher,
     DefaultWildcardMatcher,
     MethodMatchers,
+    CookieMatcher,
+    FormDataMatcher,
+    WebSocketWildcardMatcher,
     StaticResponseHandler,
     ForwardToHostHandler,
     TransformingHandler,
+    DelayHandler,
+    ChaosHandler,
     RequestBreakpointHandler,
     ResponseBreakpointHandler,
     RequestAndResponseBreakpointHandler,
     PassThroughHandler,
     TimeoutHandler,
     CloseConnectionHandler,
-    FromFileResponseHandler
+    FromFileResponseHandler,
+    TemplatedResponseHandler,
+    WebSocketPassThroughHandler,
+    WebSocketForwardToHostHandler
 } from './rule-definitions';
 
 function withFirstCharUppercased(input: string): string {
@@ -29,6 +38,8 @@ export function summarizeMatcherClass(matcher: MatcherClass): string | undefined
         case DefaultWildcardMatcher:
         case matchers.WildcardMatcher:
             return "Any requests";
+        case WebSocketWildcardMatcher:
+            return "Any WebSocket";
         case matchers.MethodMatcher:
             return "Requests using method";
         case matchers.HostMatcher:
@@ -43,12 +54,14 @@ export function summarizeMatcherClass(matcher: MatcherClass): string | undefined
             return "With exact query string";
         case matchers.HeaderMatcher:
             return "Including headers";
+        case CookieMatcher:
         case matchers.CookieMatcher:
             return "With cookie";
         case matchers.RawBodyMatcher:
             return "With exact body";
         case matchers.RawBodyIncludesMatcher:
             return "With body including";
+        case FormDataMatcher:
         case matchers.FormDataMatcher:
             return "With form data";
         case matchers.JsonBodyMatcher:
@@ -73,6 +86,8 @@ export function summarizeHandlerClass(handler: HandlerClass): string | undefined
             return "Return a fixed response";
         case FromFileResponseHandler:
             return "Return a response from a file";
+        case TemplatedResponseHandler:
+            return "Return a response built from the request";
         case ForwardToHostHandler:
             return "Forward the request to a different host";
         case PassThroughHandler:
@@ -85,20 +100,56 @@ export function summarizeHandlerClass(handler: HandlerClass): string | undefined
             return "Pause the response to manually edit it";
         case RequestAndResponseBreakpointHandler:
             return "Pause the request & response to manually edit them";
+        case DelayHandler:
+            return "Delay the request, then pass it through or respond";
+        case ChaosHandler:
+            return "Fail a percentage of requests, and pass the rest through";
         case TimeoutHandler:
             return "Time out with no response";
         case CloseConnectionHandler:
             return "Close the connection immediately";
+        case WebSocketPassThroughHandler:
+            return "Pass the WebSocket on to its destination";
+        case WebSocketForwardToHostHandler:
+            return "Forward the WebSocket to a different host";
         default:
             return undefined;
     }
 }
 
+export function summarizeCompletionCheckerClass(checker: CompletionCheckerClass): string | undefined {
+    switch (checker) {
+        case completionCheckers.Always:
+            return "Always handle matching requests";
+        case completionCheckers.Once:
+            return "Handle only the first matching request";
+        case completionCheckers.Twice:
+            return "Handle only the first 2 matching requests";
+        case completionCheckers.Thrice:
+            return "Handle only the first 3 matching requests";
+        case completionCheckers.NTimes:
+            return "Handle only the first N matching requests";
+        default:
+            return undefined;
+    }
+}
+
+// Get the number of requests a rule will handle before it completes
+export function getCompletionLimit(rule: HtkMockRule): number {
+    const { completionChecker } = rule;
+
+    if (completionChecker instanceof completionCheckers.Once) return 1;
+    if (completionChecker instanceof completionCheckers.Twice) return 2;
+    if (completionChecker instanceof completionCheckers.Thrice) return 3;
+    if (completionChecker instanceof completionCheckers.NTimes) return completionChecker.count;
+    return Infinity;
+}
+
 // Summarize the matchers of an instantiated rule
 // Slight varation on the Mockttp explanation to make the
 // comma positioning more consistent for UX of changing rules
-export function summarizeMatcher(rule: MockRuleData): string {
-    const { matchers } = rule;
+export function summarizeMatcher(rule: HtkMockRule): string {
+    const matchers: Matcher[] = rule.matchers;
 
     if (matchers.length === 0) return 'Never';
     if (matchers.length === 1) return matchers[0].explain();
@@ -115,7 +166,27 @@ export function summarizeMatcher(rule: MockRuleData): string {
         .join(', ') + ', and ' + matchers.slice(-1)[0].explain();
 }
 
-// Summarize the handler of an instantiated rule
-export function summarizeHandler(rule: MockRuleData): string {
-    return withFirstCharUppercased(rule.handler.explain());
+// Summarize the handler of an instantiated rule, including any limit on how often it applies
+export function summarizeHandler(rule: HtkMockRule): string {
+    const handlerSummary = withFirstCharUppercased(rule.handler.explain());
+
+    const { completionChecker } = rule;
+    if (!completionChecker || completionChecker instanceof completionCheckers.Always) {
+        return handlerSummary;
+    }
+
+    return `${handlerSummary}, ${completionChecker.explain(undefined)}`;
+}
+
+// Summarize how many times an instantiated rule has matched so far
+export function summarizeMatchCount(rule: HtkMockRule, matchCount: number): string {
+    const limit = getCompletionLimit(rule);
+
+    if (limit === Infinity) {
+        return `${matchCount} ${matchCount === 1 ? 'match' : 'matches'}`;
+    } else if (matchCount < limit) {
+        return `${matchCount}/${limit} matches`;
+    } else {
+        return `${limit}/${limit} matches, done`;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,583 @@
+import * as _ from 'lodash';
+import * as uuid from 'uuid/v4';
+import { matchers, completionCheckers } from 'mockttp';
+
+import { Headers } from '../../types';
+import { getStatusMessage } from '../http/http-docs';
+import { MethodName, MethodNames } from '../http/methods';
+
+import { Matcher } from './rules';
+import { HtkMockRule, HtkMockRuleGroup } from './rules-structure';
+import {
+    MethodMatchers,
+    WildcardMatcher,
+    CookieMatcher,
+    StaticResponseHandler,
+    buildMockResponseHeaders
+} from './rule-definitions';
+
+export interface RuleImportResult {
+    // The name of the format that the rules were imported from
+    format: string;
+    group: HtkMockRuleGroup;
+    // A description of each part of the input that couldn't be converted
+    issues: string[];
+}
+
+const buildMethodMatcher = (method: string | undefined) => {
+    const methodName = (method ?? 'ANY').toUpperCase();
+
+    if (methodName === 'ANY') return new WildcardMatcher();
+    if (!MethodNames.includes(methodName as MethodName)) {
+        throw new Error(`the ${methodName} method is not supported`);
+    }
+    return new MethodMatchers[methodName as MethodName]();
+};
+
+const buildResponseRule = (
+    ruleMatchers: HtkMockRule['matchers'],
+    status: number,
+    statusMessage: string | undefined,
+    headers: Headers,
+    body: string | Buffer
+): HtkMockRule => ({
+    id: uuid(),
+    activated: true,
+    matchers: ruleMatchers,
+    handler: new StaticResponseHandler(
+        status,
+        statusMessage || getStatusMessage(status),
+        body,
+        buildMockResponseHeaders(_.mapKeys(headers, (_v, key) => key.toLowerCase()), body)
+    ),
+    completionChecker: new completionCheckers.Always()
+});
+
+const buildImportGroup = (title: string, rules: HtkMockRule[]): HtkMockRuleGroup => ({
+    id: uuid(),
+    title,
+    collapsed: true,
+    items: rules
+});
+
+// WireMock stub mappings, as used in its mappings/*.json files & admin API:
+// http://wiremock.org/docs/stubbing/
+
+type WireMockValuePattern = {
+    equalTo?: string;
+    caseInsensitive?: boolean;
+    [otherOperator: string]: unknown;
+};
+
+interface WireMockMapping {
+    name?: string;
+    priority?: number;
+    scenarioName?: string;
+    request: {
+        method?: string;
+        url?: string;
+        urlPath?: string;
+        urlPattern?: string;
+        urlPathPattern?: string;
+        host?: WireMockValuePattern;
+        headers?: _.Dictionary<WireMockValuePattern>;
+        queryParameters?: _.Dictionary<WireMockValuePattern>;
+        cookies?: _.Dictionary<WireMockValuePattern>;
+        basicAuthCredentials?: { username: string, password: string };
+        bodyPatterns?: Array<{ [operator: string]: unknown }>;
+        [otherField: string]: unknown;
+    };
+    response: {
+        status?: number;
+        statusMessage?: string;
+        headers?: _.Dictionary<string | string[]>;
+        body?: string;
+        jsonBody?: unknown;
+        base64Body?: string;
+        [otherField: string]: unknown;
+    };
+}
+
+const WIREMOCK_URL_FIELDS = ['url', 'urlPath', 'urlPattern', 'urlPathPattern'];
+const WIREMOCK_REQUEST_FIELDS = [
+    'method',
+    ...WIREMOCK_URL_FIELDS,
+    'host',
+    'headers',
+    'queryParameters',
+    'cookies',
+    'basicAuthCredentials',
+    'bodyPatterns'
+];
+const WIREMOCK_RESPONSE_FIELDS = [
+    'status',
+    'statusMessage',
+    'headers',
+    'body',
+    'jsonBody',
+    'base64Body'
+];
+// Response options that only affect how the response is sent, so can be safely skipped:
+const WIREMOCK_IGNORABLE_RESPONSE_FIELDS = [
+    'fixedDelayMilliseconds',
+    'delayDistribution',
+    'chunkedDribbleDelay',
+    'transformers',
+    'transformerParameters'
+];
+
+const isWireMockMapping = (data: any): data is WireMockMapping =>
+    _.isObject(data) &&
+    _.isObject((data as any).request) &&
+    _.isObject((data as any).response);
+
+function getWireMockMappings(data: any): WireMockMapping[] | undefined {
+    const mappings = _.isArray(data)
+        ? data
+    : _.isArray(data?.mappings)
+        ? data.mappings
+    : isWireMockMapping(data)
+        ? [data]
+    : undefined;
+
+    return mappings && mappings.length && mappings.every(isWireMockMapping)
+        ? mappings
+        : undefined;
+}
+
+function getWireMockEqualTo(pattern: WireMockValuePattern, description: string) {
+    const operators = Object.keys(pattern);
+    if (
+        operators.length !== 1 ||
+        operators[0] !== 'equalTo' ||
+        typeof pattern.equalTo !== 'string'
+    ) {
+        throw new Error(`only exact matches are supported for ${description}, not ${
+            JSON.stringify(pattern)
+        }`);
+    }
+
+    return pattern.equalTo;
+}
+
+const getWireMockEqualToValues = (
+    patterns: _.Dictionary<WireMockValuePattern>,
+    description: string
+) => _.mapValues(patterns, (pattern, name) =>
+    getWireMockEqualTo(pattern, `${description} '${name}'`)
+);
+
+// WireMock URL patterns must match the whole URL, whilst regex path matchers search within it
+function buildAnchoredRegex(pattern: string, description: string) {
+    try {
+        return new RegExp(`^(?:${pattern})$`);
+    } catch (e) {
+        throw new Error(`the ${description} ${pattern} is not a valid regular expression`);
+    }
+}
+
+// The literal text that a regex matches, or undefined if it uses any regex syntax
+function getRegexLiteral(pattern: string): string | undefined {
+    if (!/^(?:[^\\.*+?^$|()[\]{}]|\\[^A-Za-z0-9])*$/.test(pattern)) return undefined;
+    return pattern.replace(/\\(.)/g, '$1');
+}
+
+// WireMock's urlPattern matches the path & query together, but Mockttp's regex matcher only
+// ever sees the path, so any query has to be matched separately, and only exactly.
+function buildWireMockUrlPatternMatchers(urlPattern: string): Matcher[] {
+    const [pathPattern, ...queryParts] = urlPattern.split('\\?');
+    const query = queryParts.length
+        ? getRegexLiteral(queryParts.join('\\?'))
+        : '';
+
+    if (query === undefined) {
+        throw new Error(
+            `the URL pattern ${urlPattern} matches the query by regex, which is not supported`
+        );
+    }
+
+    return [
+        new matchers.RegexPathMatcher(buildAnchoredRegex(pathPattern, 'URL pattern')),
+        new matchers.ExactQueryMatcher(query ? '?' + query : '')
+    ];
+}
+
+function buildWireMockUrlMatchers(request: WireMockMapping['request']): Matcher[] {
+    if (request.url !== undefined) {
+        const [path, ...queryParts] = request.url.split('?');
+        return [
+            new matchers.SimplePathMatcher(path),
+            new matchers.ExactQueryMatcher(queryParts.length ? '?' + queryParts.join('?') : '')
+        ];
+    } else if (request.urlPath !== undefined) {
+        return [new matchers.SimplePathMatcher(request.urlPath)];
+    } else if (request.urlPattern !== undefined) {
+        return buildWireMockUrlPatternMatchers(request.urlPattern);
+    } else if (request.urlPathPattern !== undefined) {
+        return [new matchers.RegexPathMatcher(
+            buildAnchoredRegex(request.urlPathPattern, 'URL path pattern')
+        )];
+    } else {
+        return [];
+    }
+}
+
+function buildWireMockBodyMatcher(pattern: { [operator: string]: unknown }): Matcher {
+    if (typeof pattern.equalTo === 'string') {
+        return new matchers.RawBodyMatcher(pattern.equalTo);
+    } else if (typeof pattern.contains === 'string') {
+        return new matchers.RawBodyIncludesMatcher(pattern.contains);
+    } else if (pattern.equalToJson !== undefined && !pattern.ignoreArrayOrder) {
+        const json = typeof pattern.equalToJson === 'string'
+            ? JSON.parse(pattern.equalToJson)
+            : pattern.equalToJson;
+
+        return pattern.ignoreExtraElements
+            ? new matchers.JsonBodyFlexibleMatcher(json)
+            : new matchers.JsonBodyMatcher(json);
+    } else {
+        throw new Error(`the body pattern ${JSON.stringify(pattern)} is not supported`);
+    }
+}
+
+function buildWireMockMatchers(request: WireMockMapping['request']): HtkMockRule['matchers'] {
+    const unsupportedFields = _.difference(Object.keys(request), WIREMOCK_REQUEST_FIELDS);
+    if (unsupportedFields.length) {
+        throw new Error(`request matching by ${unsupportedFields.join(', ')} is not supported`);
+    }
+
+    const headers = request.headers
+        ? getWireMockEqualToValues(request.headers, 'header')
+        : {};
+    if (request.basicAuthCredentials) {
+        const { username, password } = request.basicAuthCredentials;
+        headers['authorization'] = 'Basic ' +
+            Buffer.from(`${username}:${password}`).toString('base64');
+    }
+
+    return [
+        buildMethodMatcher(request.method),
+        ...(request.host
+            ? [new matchers.HostMatcher(getWireMockEqualTo(request.host, 'the host'))]
+            : []
+        ),
+        ...buildWireMockUrlMatchers(request),
+        ...(request.queryParameters
+            ? [new matchers.QueryMatcher(
+                getWireMockEqualToValues(request.queryParameters, 'query parameter')
+            )]
+            : []
+        ),
+        ...(!_.isEmpty(headers)
+            ? [new matchers.HeaderMatcher(headers)]
+            : []
+        ),
+        // Each cookie matcher matches just one cookie:
+        ...Object.entries(
+            getWireMockEqualToValues(request.cookies ?? {}, 'cookie')
+        ).map(([name, value]) => new CookieMatcher({ [name]: value })),
+        ...(request.bodyPatterns ?? []).map(buildWireMockBodyMatcher)
+    ];
+}
+
+function getWireMockResponseBody(response: WireMockMapping['response']): string | Buffer {
+    if (response.base64Body !== undefined) {
+        return Buffer.from(response.base64Body, 'base64');
+    } else if (response.jsonBody !== undefined) {
+        return JSON.stringify(response.jsonBody, null, 2);
+    } else {
+        return response.body ?? '';
+    }
+}
+
+const describeWireMockMapping = (mapping: WireMockMapping, index: number) => {
+    const { request } = mapping;
+    const url = _.find(WIREMOCK_URL_FIELDS.map((field) => request[field]));
+
+    return `Mapping ${index + 1} (${
+        mapping.name || `${request.method ?? 'ANY'} ${url ?? 'any URL'}`
+    })`;
+};
+
+/**
+ * Convert a set of WireMock stub mappings into mock rules. Mappings that use request
+ * matching or response options that have no equivalent here are skipped, and mapping
+ * options that can't be represented but don't change the response content (e.g.
+ * delays) are dropped. Both are included in the returned issues.
+ */
+export function importWireMockMappings(data: unknown): RuleImportResult {
+    const mappings = getWireMockMappings(data);
+    if (!mappings) throw new Error('No WireMock stub mappings found');
+
+    const issues: string[] = [];
+
+    // WireMock uses the lowest priority number, then the most recently added mapping. We
+    // have no priorities, so we put the rules into that same order instead:
+    const orderedMappings = _.sortBy(
+        mappings.map((mapping, index) => ({ mapping, index })).reverse(),
+        ({ mapping }) => mapping.priority ?? 5 // WireMock's default priority
+    );
+
+    const rules = _.flatMap(orderedMappings, ({ mapping, index }): HtkMockRule[] => {
+        const { request, response } = mapping;
+        const description = describeWireMockMapping(mapping, index);
+
+        const unsupportedResponseFields = _.difference(
+            Object.keys(response),
+            WIREMOCK_RESPONSE_FIELDS,
+            WIREMOCK_IGNORABLE_RESPONSE_FIELDS
+        );
+        if (unsupportedResponseFields.length) {
+            issues.push(`${description} was skipped, as responses using ${
+                unsupportedResponseFields.join(', ')
+            } are not supported`);
+            return [];
+        }
+
+        let ruleMatchers: HtkMockRule['matchers'];
+        try {
+            ruleMatchers = buildWireMockMatchers(request);
+        } catch (e) {
+            issues.push(`${description} was skipped, as ${e.message}`);
+            return [];
+        }
+
+        const ignoredFields = _.intersection(
+            Object.keys(response),
+            WIREMOCK_IGNORABLE_RESPONSE_FIELDS
+        );
+        if (mapping.scenarioName) ignoredFields.push('scenarios');
+        if (ignoredFields.length) {
+            issues.push(`${description} was imported without its ${ignoredFields.join(', ')}`);
+        }
+
+        const status = response.status ?? 200;
+        return [buildResponseRule(
+            ruleMatchers,
+            status,
+            response.statusMessage,
+            response.headers ?? {},
+            getWireMockResponseBody(response)
+        )];
+    });
+
+    return {
+        format: 'WireMock',
+        group: buildImportGroup('Imported WireMock stubs', rules),
+        issues
+    };
+}
+
+// Postman collections (v2.0 & v2.1), using the saved example responses for each request,
+// as used by Postman's own mock servers:
+// https://schema.postman.com/collection/json/v2.1.0/draft-07/docs/index.html
+
+interface PostmanKeyValue {
+    key: string;
+    value?: string;
+    disabled?: boolean;
+}
+
+type PostmanUrl = string | {
+    raw?: string;
+    path?: string | string[];
+    query?: PostmanKeyValue[];
+};
+
+type PostmanRequest = string | {
+    method?: string;
+    url?: PostmanUrl;
+};
+
+interface PostmanResponse {
+    name?: string;
+    originalRequest?: PostmanRequest;
+    code?: number;
+    status?: string;
+    header?: PostmanKeyValue[] | string | null;
+    body?: string | null;
+}
+
+interface PostmanItem {
+    name?: string;
+    item?: PostmanItem[];
+    request?: PostmanRequest;
+    response?: PostmanResponse[];
+}
+
+interface PostmanCollection {
+    info: { name?: string, schema?: string };
+    item: PostmanItem[];
+}
+
+function getPostmanCollection(data: any): PostmanCollection | undefined {
+    // Collections exported from the Postman API are wrapped in a 'collection' property:
+    const collection = data?.collection ?? data;
+
+    return _.isObject(collection) &&
+        _.isArray((collection as any).item) &&
+        _.isString((collection as any).info?.schema) &&
+        (collection as any).info.schema.includes('getpostman.com')
+        ? collection as PostmanCollection
+        : undefined;
+}
+
+const isPostmanVariable = (value: string) => /{{.*}}|^:/.test(value);
+
+function getPostmanPathAndQuery(url: PostmanUrl | undefined) {
+    const rawUrl = typeof url === 'string' ? url : url?.raw ?? '';
+    const [rawPathAndHost, ...rawQueryParts] = rawUrl.split('#')[0].split('?');
+
+    const pathSegments = typeof url === 'object' && url.path !== undefined
+        ? _.castArray(url.path)
+        // Drop the protocol & host (normally a {{variable}} in Postman) from the raw URL:
+        : rawPathAndHost.replace(/^[a-z]+:\/\//i, '').split('/').slice(1);
+
+    const queryParams: PostmanKeyValue[] = typeof url === 'object' && url.query !== undefined
+        ? url.query.filter((param) => !param.disabled)
+        : rawQueryParts.join('?').split('&').filter((param) => !!param).map((param) => {
+            const [key, ...valueParts] = param.split('=');
+            return { key, value: valueParts.join('=') };
+        });
+
+    return { pathSegments, queryParams };
+}
+
+function buildPostmanMatchers(
+    request: PostmanRequest | undefined,
+    issues: string[]
+): HtkMockRule['matchers'] {
+    const { method, url } = typeof request === 'string'
+        ? { method: 'GET', url: request }
+        : { method: request?.method ?? 'GET', url: request?.url };
+
+    const { pathSegments, queryParams } = getPostmanPathAndQuery(url);
+
+    // Path variables (/:id or /{{id}}) match any value in that segment:
+    const pathMatcher = pathSegments.some(isPostmanVariable)
+        ? new matchers.RegexPathMatcher(new RegExp(`^/${
+            pathSegments.map((segment) =>
+                isPostmanVariable(segment) ? '[^/?]+' : _.escapeRegExp(segment)
+            ).join('/')
+        }(?:\\?.*)?$`))
+        : new matchers.SimplePathMatcher('/' + pathSegments.join('/'));
+
+    const [variableParams, fixedParams] = _.partition(queryParams, (param) =>
+        isPostmanVariable(param.value ?? '')
+    );
+    variableParams.forEach((param) => {
+        issues.push(`the '${param.key}' query parameter uses a variable, so matches any value`);
+    });
+
+    return [
+        buildMethodMatcher(method),
+        pathMatcher,
+        ...(fixedParams.length
+            ? [new matchers.QueryMatcher(_.mapValues(
+                _.groupBy(fixedParams, (param) => param.key),
+                (params) => params.length === 1
+                    ? params[0].value ?? ''
+                    : params.map((param) => param.value ?? '')
+            ))]
+            : []
+        )
+    ];
+}
+
+const getPostmanHeaders = (header: PostmanResponse['header']): Headers =>
+    _.isArray(header)
+        ? _.mapValues(
+            _.groupBy(header.filter((h) => !h.disabled), (h) => h.key.toLowerCase()),
+            (values) => values.length === 1
+                ? values[0].value ?? ''
+                : values.map((h) => h.value ?? '')
+        )
+        : {};
+
+// Flatten nested folders, tracking the folder path of each request for descriptions
+const getPostmanRequestItems = (items: PostmanItem[], prefix = ''): Array<{
+    item: PostmanItem,
+    description: string
+}> => _.flatMap(items, (item) => {
+    const name = prefix + (item.name || 'Unnamed request');
+
+    return item.item
+        ? getPostmanRequestItems(item.item, `${name} / `)
+        : [{ item, description: name }];
+});
+
+/**
+ * Convert a Postman collection into mock rules, mocking each request with its saved
+ * example responses, matching on the method, path & query like a Postman mock server.
+ * Requests without examples and repeated examples for an already mocked request are
+ * skipped, and included in the returned issues.
+ */
+export function importPostmanCollection(data: unknown): RuleImportResult {
+    const collection = getPostmanCollection(data);
+    if (!collection) throw new Error('No Postman collection found');
+
+    const issues: string[] = [];
+    const mockedRequests = new Set<string>();
+
+    const rules = _.flatMap(getPostmanRequestItems(collection.item), ({ item, description }) => {
+        const examples = item.response ?? [];
+        if (!examples.length) {
+            issues.push(`${description} was skipped, as it has no saved example responses`);
+            return [];
+        }
+
+        return _.flatMap(examples, (example): HtkMockRule[] => {
+            const exampleDescription = `${description} (example '${example.name || 'unnamed'}')`;
+            const exampleIssues: string[] = [];
+
+            let ruleMatchers: HtkMockRule['matchers'];
+            try {
+                ruleMatchers = buildPostmanMatchers(
+                    example.originalRequest ?? item.request,
+                    exampleIssues
+                );
+            } catch (e) {
+                issues.push(`${exampleDescription} was skipped, as ${e.message}`);
+                return [];
+            }
+
+            const requestKey = JSON.stringify(ruleMatchers);
+            if (mockedRequests.has(requestKey)) {
+                issues.push(`${exampleDescription} was skipped, as an earlier example ` +
+                    'already mocks the same request');
+                return [];
+            }
+            mockedRequests.add(requestKey);
+
+            exampleIssues.forEach((issue) => issues.push(`In ${exampleDescription}, ${issue}`));
+
+            return [buildResponseRule(
+                ruleMatchers,
+                example.code ?? 200,
+                example.status,
+                getPostmanHeaders(example.header),
+                example.body ?? ''
+            )];
+        });
+    });
+
+    return {
+        format: 'Postman',
+        group: buildImportGroup(collection.info.name || 'Imported Postman collection', rules),
+        issues
+    };
+}
+
+/**
+ * Convert rules from another mocking tool's format, if the data is in a supported format.
+ * Returns undefined for any other data, e.g. this app's own exported rules.
+ */
+export function importExternalRules(data: unknown): RuleImportResult | undefined {
+    if (getWireMockMappings(data)) {
+        return importWireMockMappings(data);
+    } else if (getPostmanCollection(data)) {
+        return importPostmanCollection(data);
+    } else {
+        return undefined;
+    }
+}
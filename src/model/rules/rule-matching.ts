@@ -0,0 +1,205 @@
+import * as _ from 'lodash';
+import * as querystring from 'querystring';
+import { matchers } from 'mockttp';
+
+import { HtkRequest } from '../../types';
+import { asHeaderArray } from '../../util';
+
+import { Matcher, isWebSocketRule } from './rules';
+import { HtkMockRule, HtkMockRuleGroup, flattenRules } from './rules-structure';
+
+export interface MatcherEvaluation {
+    matcher: Matcher;
+    // Undefined if this matcher can't be evaluated outside the proxy itself
+    matched: boolean | undefined;
+    // For failed matches, a description of the relevant part of the request
+    actual?: string;
+}
+
+export interface RuleEvaluation {
+    rule: HtkMockRule;
+    matcherResults: MatcherEvaluation[];
+    matched: boolean | undefined;
+    // Set if this rule isn't considered for this request at all
+    skippedReason?: string;
+}
+
+export interface RuleSetEvaluation {
+    ruleResults: RuleEvaluation[];
+    // The first rule that matches this request, i.e. the rule that would handle it
+    matchingRule: HtkMockRule | undefined;
+}
+
+const isWebSocketRequest = (request: HtkRequest) =>
+    asHeaderArray(request.headers['upgrade'])
+        .some((value) => value.toLowerCase() === 'websocket');
+
+const getHeaderValue = (value: string | string[]) =>
+    _.isArray(value) ? value.join(', ') : value;
+
+const describeText = (text: string) =>
+    text.length > 100
+        ? `'${text.slice(0, 97)}...'`
+        : `'${text}'`;
+
+// Build the request representation that Mockttp's own matchers use internally, so that
+// we can check requests against the matchers client-side, exactly as the proxy would.
+function buildMatchableRequest(request: HtkRequest, body: Buffer) {
+    const bodyText = body.toString('utf8');
+
+    return {
+        id: request.id,
+        protocol: request.protocol,
+        httpVersion: request.httpVersion,
+        method: request.method,
+        url: request.url,
+        path: request.parsedUrl.pathname + request.parsedUrl.search,
+        hostname: request.hostname,
+        headers: request.headers,
+        timingEvents: request.timingEvents,
+        tags: request.tags,
+        body: {
+            asBuffer: async () => body,
+            asText: async () => bodyText,
+            asJson: async () => JSON.parse(bodyText),
+            asFormData: async () => querystring.parse(bodyText)
+        }
+    };
+}
+
+// Describe the part of the request that a failed matcher was checking
+function describeRequestValue(matcher: Matcher, request: HtkRequest, body: Buffer): string | undefined {
+    const { parsedUrl, headers } = request;
+
+    if (matcher instanceof matchers.MethodMatcher) {
+        return `the request method was ${request.method}`;
+    } else if (matcher instanceof matchers.HostMatcher) {
+        return `the request host was ${parsedUrl.host}`;
+    } else if (
+        matcher instanceof matchers.SimplePathMatcher ||
+        matcher instanceof matchers.RegexPathMatcher
+    ) {
+        return `the request URL was ${parsedUrl.origin + parsedUrl.pathname}`;
+    } else if (
+        matcher instanceof matchers.QueryMatcher ||
+        matcher instanceof matchers.ExactQueryMatcher
+    ) {
+        return parsedUrl.search
+            ? `the request query was ${parsedUrl.search}`
+            : 'the request had no query string';
+    } else if (matcher instanceof matchers.HeaderMatcher) {
+        return Object.keys(matcher.headers).map((name) =>
+            headers[name] !== undefined
+                ? `the ${name} header was '${getHeaderValue(headers[name]!)}'`
+                : `there was no ${name} header`
+        ).join(', and ');
+    } else if (matcher instanceof matchers.CookieMatcher) {
+        return headers['cookie']
+            ? `the cookie header was '${getHeaderValue(headers['cookie'])}'`
+            : 'the request had no cookies';
+    } else if (
+        matcher instanceof matchers.RawBodyMatcher ||
+        matcher instanceof matchers.RawBodyIncludesMatcher ||
+        matcher instanceof matchers.RegexBodyMatcher ||
+        matcher instanceof matchers.JsonBodyMatcher ||
+        matcher instanceof matchers.JsonBodyFlexibleMatcher ||
+        matcher instanceof matchers.FormDataMatcher
+    ) {
+        return body.byteLength
+            ? `the request body was ${describeText(body.toString('utf8'))}`
+            : 'the request had no body';
+    } else {
+        return undefined;
+    }
+}
+
+async function evaluateMatcher(
+    matcher: Matcher,
+    request: HtkRequest,
+    bodyPromise: Promise<Buffer>
+): Promise<MatcherEvaluation> {
+    // Callback matchers run code within the proxy, so we can't check them here
+    if (matcher instanceof matchers.CallbackMatcher) {
+        return { matcher, matched: undefined };
+    }
+
+    const body = await bodyPromise;
+
+    let matched: boolean;
+    try {
+        matched = await matcher.matches(buildMatchableRequest(request, body) as any);
+    } catch (e) {
+        // Matchers throw for requests they can't process (e.g. invalid URLs), which the
+        // proxy treats as a failed match.
+        matched = false;
+    }
+
+    return matched
+        ? { matcher, matched }
+        : { matcher, matched, actual: describeRequestValue(matcher, request, body) };
+}
+
+async function evaluateRule(
+    rule: HtkMockRule,
+    request: HtkRequest,
+    bodyPromise: Promise<Buffer>
+): Promise<RuleEvaluation> {
+    if (!rule.activated) {
+        return { rule, matcherResults: [], matched: false, skippedReason: 'the rule is deactivated' };
+    }
+
+    if (isWebSocketRule(rule) !== isWebSocketRequest(request)) {
+        return {
+            rule,
+            matcherResults: [],
+            matched: false,
+            skippedReason: isWebSocketRule(rule)
+                ? 'this is not a WebSocket request'
+                : 'this is a WebSocket request'
+        };
+    }
+
+    const matcherResults = await Promise.all(rule.matchers.map((matcher: Matcher) =>
+        evaluateMatcher(matcher, request, bodyPromise)
+    ));
+
+    const matched = matcherResults.length === 0 || _.some(matcherResults, { matched: false })
+        ? false
+    : _.some(matcherResults, { matched: undefined })
+        ? undefined
+    : true;
+
+    return { rule, matcherResults, matched };
+}
+
+/**
+ * Check each rule against the given request, in order, as the proxy would do. This reports
+ * which matchers pass and fail for each rule, and which rule would handle the request.
+ *
+ * This doesn't consider rule completion (e.g. rules that only match once), since that
+ * depends on the traffic that the proxy has seen since these rules were activated.
+ *
+ * All rule state is read synchronously, before waiting for the request body, so this can
+ * be used within a computed value that's updated whenever the rules change.
+ */
+export async function evaluateRules(
+    rules: HtkMockRuleGroup,
+    request: HtkRequest
+): Promise<RuleSetEvaluation> {
+    const bodyPromise = Promise.resolve(request.body.decodedPromise)
+        .then((body) => body ?? Buffer.from([]));
+
+    const ruleResults = await Promise.all(flattenRules(rules).map((rule) =>
+        evaluateRule(rule, request, bodyPromise)
+    ));
+
+    // If a rule can't be fully evaluated, we can't know whether any later rule would match
+    const firstUnfailedResult = ruleResults.find((result) => result.matched !== false);
+
+    return {
+        ruleResults,
+        matchingRule: firstUnfailedResult?.matched
+            ? firstUnfailedResult.rule
+            : undefined
+    };
+}
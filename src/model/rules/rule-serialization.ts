@@ -1,18 +1,18 @@
 import * as _ from 'lodash';
 import { toJS } from 'mobx';
-import { completionCheckers } from 'mockttp';
 import * as serializr from 'serializr';
 
 import { hasSerializrSchema, serializeAsTag } from '../serialization';
 
 import { RulesStore } from './rules-store';
-import { MatcherLookup, HandlerLookup } from './rules';
+import { MatcherLookup, HandlerLookup, CompletionCheckerLookup } from './rules';
 import {
     HtkMockRule,
     HtkMockItem,
     HtkMockRuleRoot,
     isRuleGroup,
-    HtkMockRuleGroup
+    HtkMockRuleGroup,
+    HtkRuleProfile
 } from './rules-structure';
 import { migrateRuleData } from './rule-migrations';
 
@@ -70,7 +70,7 @@ const MockRuleSerializer = serializr.custom(
             completionChecker: data.completionChecker &&
                 deserializeByType(
                     data.completionChecker,
-                    completionCheckers.CompletionCheckerLookup,
+                    CompletionCheckerLookup,
                     context.args
                 )
         };
@@ -114,6 +114,13 @@ export const MockRulesetSchema = serializr.createSimpleSchema<MockRuleset>({
     items: serializr.list(MockItemSerializer)
 });
 
+// Drafts are never persisted, so only the saved rules of each profile are serialized
+export const RuleProfileSchema = serializr.createSimpleSchema<HtkRuleProfile>({
+    id: serializr.primitive(),
+    name: serializr.primitive(),
+    rules: serializr.object(MockRulesetSchema)
+});
+
 export const serializeRules = (rules: HtkMockRuleRoot): MockRuleset => {
     return serializr.serialize(MockRulesetSchema, rules);
 }
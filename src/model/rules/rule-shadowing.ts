@@ -0,0 +1,149 @@
+import * as _ from 'lodash';
+import * as querystring from 'querystring';
+import { matchers } from 'mockttp';
+
+import { Matcher, isWebSocketRule } from './rules';
+import { HtkMockRule, HtkMockRuleGroup, flattenRules } from './rules-structure';
+import { getCompletionLimit } from './rule-descriptions';
+
+// The parts of a simple path matcher's path. These can be absolute URLs, URLs without
+// a protocol, or just a path (matching any host).
+interface MatcherPathParts {
+    protocol?: string;
+    host?: string;
+    pathname: string;
+}
+
+function getMatcherPathParts(path: string): MatcherPathParts {
+    if (path.startsWith('/')) return { pathname: path };
+
+    const protocolMatch = /^(\w+):\/\//.exec(path);
+    const protocol = protocolMatch?.[1].toLowerCase();
+    const hostAndPath = protocolMatch ? path.slice(protocolMatch[0].length) : path;
+
+    const pathStart = hostAndPath.indexOf('/');
+    return {
+        protocol,
+        host: (pathStart === -1 ? hostAndPath : hostAndPath.slice(0, pathStart)).toLowerCase(),
+        pathname: pathStart === -1 ? '/' : hostAndPath.slice(pathStart)
+    };
+}
+
+// Does matching the 'narrow' matcher guarantee that the 'broad' matcher matches too? This is
+// conservative: when we can't be sure, we say no, so that we never warn about working rules.
+function matcherImplies(narrow: Matcher, broad: Matcher): boolean {
+    if (broad instanceof matchers.WildcardMatcher) return true;
+
+    if (narrow.constructor === broad.constructor && _.isEqual(narrow, broad)) return true;
+
+    if (broad instanceof matchers.MethodMatcher) {
+        return narrow instanceof matchers.MethodMatcher &&
+            narrow.method === broad.method;
+    }
+
+    if (broad instanceof matchers.HostMatcher) {
+        if (narrow instanceof matchers.HostMatcher) {
+            return narrow.host.toLowerCase() === broad.host.toLowerCase();
+        }
+
+        return narrow instanceof matchers.SimplePathMatcher &&
+            getMatcherPathParts(narrow.path).host === broad.host.toLowerCase();
+    }
+
+    if (broad instanceof matchers.SimplePathMatcher) {
+        if (!(narrow instanceof matchers.SimplePathMatcher)) return false;
+
+        const narrowParts = getMatcherPathParts(narrow.path);
+        const broadParts = getMatcherPathParts(broad.path);
+
+        return (!broadParts.protocol || broadParts.protocol === narrowParts.protocol) &&
+            (!broadParts.host || broadParts.host === narrowParts.host) &&
+            broadParts.pathname === narrowParts.pathname;
+    }
+
+    if (broad instanceof matchers.RegexPathMatcher) {
+        if (narrow instanceof matchers.RegexPathMatcher) {
+            return narrow.regexSource === broad.regexSource;
+        }
+
+        // Regexes are tested against both the full URL and the path, so if the regex matches
+        // a path or a full URL that is required by the other matcher, it'll always match.
+        return narrow instanceof matchers.SimplePathMatcher &&
+            (narrow.path.startsWith('/') || !!getMatcherPathParts(narrow.path).protocol) &&
+            new RegExp(broad.regexSource).test(narrow.path);
+    }
+
+    if (broad instanceof matchers.QueryMatcher) {
+        if (narrow instanceof matchers.QueryMatcher) {
+            return _.isMatch(narrow.queryObject, broad.queryObject);
+        }
+
+        return narrow instanceof matchers.ExactQueryMatcher &&
+            _.isMatch(querystring.parse(narrow.query.slice(1)), broad.queryObject);
+    }
+
+    if (broad instanceof matchers.HeaderMatcher) {
+        return narrow instanceof matchers.HeaderMatcher &&
+            _.isMatch(narrow.headers, broad.headers);
+    }
+
+    if (broad instanceof matchers.CookieMatcher) {
+        return narrow instanceof matchers.CookieMatcher &&
+            _.isMatch(narrow.cookie, broad.cookie);
+    }
+
+    if (broad instanceof matchers.FormDataMatcher) {
+        return narrow instanceof matchers.FormDataMatcher &&
+            _.isMatch(narrow.formData, broad.formData);
+    }
+
+    if (broad instanceof matchers.RawBodyIncludesMatcher) {
+        return (
+            narrow instanceof matchers.RawBodyMatcher ||
+            narrow instanceof matchers.RawBodyIncludesMatcher
+        ) && narrow.content.includes(broad.content);
+    }
+
+    if (broad instanceof matchers.JsonBodyFlexibleMatcher) {
+        return (
+            narrow instanceof matchers.JsonBodyMatcher ||
+            narrow instanceof matchers.JsonBodyFlexibleMatcher
+        ) && _.isMatch(narrow.body, broad.body);
+    }
+
+    return false;
+}
+
+// Does the broad rule match every request that the narrow rule could match?
+function ruleCovers(broadRule: HtkMockRule, narrowRule: HtkMockRule) {
+    const narrowMatchers: Matcher[] = narrowRule.matchers;
+    const broadMatchers: Matcher[] = broadRule.matchers;
+
+    return isWebSocketRule(broadRule) === isWebSocketRule(narrowRule) &&
+        broadMatchers.every((broadMatcher) =>
+            narrowMatchers.some((narrowMatcher) => matcherImplies(narrowMatcher, broadMatcher))
+        );
+}
+
+/**
+ * Find the active rules that can never match anything, because an earlier active rule that
+ * never completes matches every request they could match. Returns the earlier (shadowing)
+ * rule for each shadowed rule, by the shadowed rule's id.
+ */
+export function findShadowedRules(rules: HtkMockRuleGroup): _.Dictionary<HtkMockRule> {
+    const activeRules = flattenRules(rules).filter((rule) => rule.activated);
+
+    const shadowedRules: _.Dictionary<HtkMockRule> = {};
+
+    activeRules.forEach((rule, index) => {
+        const shadowingRule = activeRules.slice(0, index).find((earlierRule) =>
+            earlierRule.matchers.length > 0 &&
+            getCompletionLimit(earlierRule) === Infinity &&
+            ruleCovers(earlierRule, rule)
+        );
+
+        if (shadowingRule) shadowedRules[rule.id] = shadowingRule;
+    });
+
+    return shadowedRules;
+}
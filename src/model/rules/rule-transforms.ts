@@ -0,0 +1,163 @@
+import * as _ from 'lodash';
+
+import {
+    Headers,
+    MockttpBreakpointedRequest,
+    MockttpBreakpointedResponse,
+    MockttpBreakpointRequestResult,
+    MockttpBreakpointResponseResult
+} from '../../types';
+import { asBuffer, asHeaderArray } from '../../util';
+import { encodeBody } from '../../services/ui-worker-api';
+
+import type {
+    MatchReplacePair,
+    RequestTransform,
+    ResponseTransform,
+    UrlRewrite
+} from './rule-definitions';
+
+type MessageTransform = RequestTransform | ResponseTransform;
+
+// Transforms that Mockttp can't apply itself. If any of these are used, the whole transform
+// for that message is applied by our own callback instead.
+const CALLBACK_TRANSFORM_FIELDS = [
+    'rewriteUrl',
+    'matchReplaceHeaders',
+    'matchReplaceBody'
+] as const;
+
+export const requiresTransformCallback = (
+    transform: { [field in typeof CALLBACK_TRANSFORM_FIELDS[number]]?: unknown } | undefined
+) => CALLBACK_TRANSFORM_FIELDS.some((field) => transform?.[field] !== undefined);
+
+/**
+ * Apply each find & replace operation to the value in turn. Every match of each pattern is
+ * replaced, and replacements can reference the pattern's capture groups, as $1, $2, etc.
+ */
+export const applyMatchReplace = (value: string, operations: MatchReplacePair[]) =>
+    operations.reduce((result, { pattern, replacement }) =>
+        result.replace(new RegExp(pattern, 'g'), replacement)
+    , value);
+
+/**
+ * Rewrite a URL's protocol, path & query. The path rewrite applies to the path alone,
+ * and the query is only reformatted if parameters are actually updated.
+ */
+export function applyUrlRewrite(url: string, rewrite: UrlRewrite): string {
+    const parsedUrl = new URL(url);
+
+    if (rewrite.replaceProtocol) {
+        parsedUrl.protocol = `${rewrite.replaceProtocol}:`;
+    }
+
+    if (rewrite.matchReplacePath) {
+        parsedUrl.pathname = applyMatchReplace(parsedUrl.pathname, rewrite.matchReplacePath);
+    }
+
+    Object.entries(rewrite.updateQuery ?? {}).forEach(([key, value]) => {
+        if (value === undefined) parsedUrl.searchParams.delete(key);
+        else parsedUrl.searchParams.set(key, value);
+    });
+
+    return parsedUrl.toString();
+}
+
+function transformHeaders(headers: Headers, transform: MessageTransform): Headers {
+    if (transform.replaceHeaders) {
+        return { ...transform.replaceHeaders };
+    } else if (transform.updateHeaders) {
+        return _.omitBy(
+            { ...headers, ...transform.updateHeaders },
+            (value) => value === undefined
+        ) as Headers;
+    } else if (transform.matchReplaceHeaders) {
+        const operations = transform.matchReplaceHeaders;
+        return _.mapValues(headers, (value, key) =>
+            key.startsWith(':') // HTTP/2 pseudo-headers can't be modified
+                ? value
+            : _.isArray(value)
+                ? value.map((v) => applyMatchReplace(v, operations))
+            : value !== undefined
+                ? applyMatchReplace(value, operations)
+            : value
+        );
+    } else {
+        return { ...headers };
+    }
+}
+
+// Like _.merge, but with undefined values in the update removing the existing value.
+// JSON.stringify ignores symbols, so they're omitted from the resulting body.
+const OMIT_SYMBOL = Symbol('omit-value');
+const mergeJsonUpdate = (json: unknown, update: {}) =>
+    _.mergeWith(json, update, (_oldValue: unknown, newValue: unknown) => {
+        if (newValue === undefined) return OMIT_SYMBOL;
+    });
+
+// Returns the transformed decoded body, or undefined if the body is unchanged
+async function transformBody(
+    body: MockttpBreakpointedRequest['body'],
+    transform: MessageTransform
+): Promise<Buffer | undefined> {
+    if (transform.replaceBody !== undefined) {
+        return asBuffer(transform.replaceBody);
+    } else if (transform.updateJsonBody) {
+        const json = await body.getJson();
+        if (json === undefined) throw new Error("Can't transform non-JSON body");
+        return Buffer.from(JSON.stringify(mergeJsonUpdate(json, transform.updateJsonBody)));
+    } else if (transform.matchReplaceBody) {
+        const decodedBody = await body.getDecodedBuffer();
+        if (decodedBody === undefined) return undefined; // Undecodeable, so left unchanged
+        return Buffer.from(applyMatchReplace(decodedBody.toString('utf8'), transform.matchReplaceBody));
+    } else if (transform.replaceBodyFromFile) {
+        // Files can only be read by Mockttp itself, and the UI prevents combining these
+        throw new Error("Can't replace the body with a file whilst rewriting the URL or using regexes");
+    } else {
+        return undefined;
+    }
+}
+
+// Transform the headers & body of a message, re-encoding the body to match the
+// resulting content-encoding, and correcting the content-length if it's set.
+async function transformMessage(
+    message: { headers: Headers, body: MockttpBreakpointedRequest['body'] },
+    transform: MessageTransform
+) {
+    const headers = transformHeaders(message.headers, transform);
+
+    const decodedBody = await transformBody(message.body, transform);
+    if (decodedBody === undefined) return { headers, body: undefined };
+
+    const body = await encodeBody(decodedBody, asHeaderArray(headers['content-encoding']));
+    if (headers['content-length'] !== undefined) {
+        headers['content-length'] = body.byteLength.toString();
+    }
+
+    return { headers, body };
+}
+
+export const buildRequestTransformCallback = (transform: RequestTransform) =>
+    async (request: MockttpBreakpointedRequest): Promise<MockttpBreakpointRequestResult> => {
+        const { headers, body } = await transformMessage(request, transform);
+
+        return {
+            method: transform.replaceMethod,
+            url: transform.rewriteUrl
+                ? applyUrlRewrite(request.url, transform.rewriteUrl)
+                : undefined,
+            headers,
+            body
+        };
+    };
+
+export const buildResponseTransformCallback = (transform: ResponseTransform) =>
+    async (response: MockttpBreakpointedResponse): Promise<MockttpBreakpointResponseResult> => {
+        const { headers, body } = await transformMessage(response, transform);
+
+        return {
+            statusCode: transform.replaceStatus,
+            headers,
+            body
+        };
+    };
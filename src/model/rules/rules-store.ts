@@ -6,7 +6,9 @@ import {
     webSocketHandlers,
     MOCKTTP_PARAM_REF,
     ProxyConfig,
-    ProxySetting
+    ProxySetting,
+    RequestRuleData,
+    WebSocketRuleData
 } from 'mockttp';
 
 import {
@@ -29,7 +31,7 @@ import {
     MockttpBreakpointedRequest,
     MockttpBreakpointedResponse
 } from '../../types';
-import { lazyObservablePromise } from '../../util/observable';
+import { lazyObservablePromise, trackUndoHistory } from '../../util/observable';
 import { persist, hydrate } from '../../util/mobx-persist/persist';
 import { reportError } from '../../errors';
 
@@ -54,21 +56,27 @@ import {
     isRuleRoot,
     HtkMockItem,
     HtkMockRule,
-    areItemsEqual
+    areItemsEqual,
+    HtkRuleProfile
 } from './rules-structure';
 import {
     buildDefaultGroup,
     buildDefaultRules,
     buildForwardingRuleIntegration,
-    DefaultWildcardMatcher
+    DefaultWildcardMatcher,
+    BreakpointOptions
 } from './rule-definitions';
+import { isWebSocketRule } from './rules';
 import {
     serializeRules,
     deserializeRules,
     MockRulesetSchema,
+    RuleProfileSchema,
     DeserializationArgs
 } from './rule-serialization';
 import { migrateRuleData } from './rule-migrations';
+import { findShadowedRules } from './rule-shadowing';
+import { matchesBreakpointCondition } from './breakpoint-conditions';
 import { ParsedCertificate } from '../crypto';
 
 export type ClientCertificate = {
@@ -87,6 +95,27 @@ const reloadRules = (ruleRoot: HtkMockRuleRoot, rulesStore: RulesStore) => {
     return deserializeRules(serializeRules(ruleRoot), { rulesStore });
 };
 
+const getAllGroups = (group: HtkMockRuleGroup): HtkMockRuleGroup[] =>
+    _.flatMap(group.items.filter(isRuleGroup), (child) => [child, ...getAllGroups(child)]);
+
+type SerializedItem = { id: string, items?: SerializedItem[] };
+
+const getSerializedRules = (item: SerializedItem): SerializedItem[] =>
+    item.items ? _.flatMap(item.items, getSerializedRules) : [item];
+
+// The ids of all rules added, removed or edited between two serialized draft snapshots
+const getChangedRuleIds = (snapshotA: string, snapshotB: string): string[] => {
+    const [rulesA, rulesB] = [snapshotA, snapshotB].map((snapshot) =>
+        _.mapValues(
+            _.keyBy(getSerializedRules(JSON.parse(snapshot)), (rule) => rule.id),
+            (rule) => JSON.stringify(rule)
+        )
+    );
+
+    return _.union(Object.keys(rulesA), Object.keys(rulesB))
+        .filter((id) => rulesA[id] !== rulesB[id]);
+};
+
 const dockerProxyRuleParamName = (port: number) =>
     `docker-tunnel-proxy-${port}`;
 
@@ -117,6 +146,7 @@ export class RulesStore {
         ]);
 
         await this.loadSettings();
+        this.resetDraftHistory();
 
         const {
             setRequestRules,
@@ -155,17 +185,24 @@ export class RulesStore {
                     .filter(r => r.activated && r.matchers.length),
                 ),
                 (rules) => {
+                    const [webSocketRules, requestRules] = _.partition(rules, isWebSocketRule);
+                    this.resetRuleMatchCounts();
+
                     resolve(Promise.all([
-                        setRequestRules(...rules),
+                        setRequestRules(...requestRules as RequestRuleData[]),
                         ...(semver.satisfies(serverVersion, WEBSOCKET_RULE_RANGE)
                             ? [
-                                setWebSocketRules({
-                                    matchers: [new DefaultWildcardMatcher()],
-                                    completionChecker: new completionCheckers.Always(),
-                                    handler: new webSocketHandlers.PassThroughWebSocketHandler(
-                                        this.activePassthroughOptions
-                                    )
-                                })
+                                setWebSocketRules(
+                                    ...webSocketRules as WebSocketRuleData[],
+                                    {
+                                        // Unmatched websockets are always passed through
+                                        matchers: [new DefaultWildcardMatcher()],
+                                        completionChecker: new completionCheckers.Always(),
+                                        handler: new webSocketHandlers.PassThroughWebSocketHandler(
+                                            this.activePassthroughOptions
+                                        )
+                                    }
+                                )
                             ] : []
                         )
                     ]))
@@ -184,7 +221,7 @@ export class RulesStore {
         await hydrate({
             key: 'rules-store',
             store: this,
-            dataTransform: (data: {}) => _.omit(data, 'rules'),
+            dataTransform: (data: {}) => _.omit(data, 'rules', 'inactiveProfiles'),
         });
 
         try {
@@ -207,12 +244,24 @@ export class RulesStore {
             await hydrate({
                 key: 'rules-store',
                 store: this,
-                dataTransform: (data: { rules: any }) => ({
-                    rules: migrateRuleData(data.rules)
+                dataTransform: (data: { rules: any, inactiveProfiles?: any[] }) => ({
+                    rules: migrateRuleData(data.rules),
+                    ...(data.inactiveProfiles ? {
+                        inactiveProfiles: data.inactiveProfiles.map((profile) => ({
+                            ...profile,
+                            rules: migrateRuleData(profile.rules)
+                        }))
+                    } : {})
                 }),
                 customArgs: { rulesStore: this } as DeserializationArgs
             });
 
+            runInAction(() => {
+                this.inactiveProfiles.forEach((profile) => {
+                    profile.draftRules = _.cloneDeep(profile.rules);
+                });
+            });
+
             if (!this.rules) {
                 // If rules are somehow undefined (not sure, but seems it can happen, maybe odd data?) reset them:
                 this.resetRulesToDefault();
@@ -358,6 +407,17 @@ export class RulesStore {
     @observable
     draftRules!: HtkMockRuleRoot;
 
+    // The active rule profile, whose rules are the rules & draft rules above
+    @persist @observable
+    activeProfileId: string = 'default';
+
+    @persist @observable
+    activeProfileName: string = 'Default';
+
+    // All other rule profiles, each with their own rules (drafts are not persisted)
+    @persist('list', RuleProfileSchema) @observable
+    inactiveProfiles: HtkRuleProfile[] = [];
+
     @action.bound
     saveRules() {
         this.rules = this.draftRules;
@@ -377,6 +437,54 @@ export class RulesStore {
         this.resetRuleDrafts();
     }
 
+    // Undo/redo history for all draft rule changes. Snapshots are compared in serialized form,
+    // so changes that don't affect the rules themselves (e.g. saving, or collapsing a group)
+    // aren't recorded as separate steps. Quick successive edits to the same rule, e.g. typing
+    // into one of its fields, are undone together as a single step.
+    private draftHistory: ReturnType<typeof trackUndoHistory> | undefined;
+
+    @action.bound
+    resetDraftHistory() {
+        if (this.draftHistory) this.draftHistory.dispose();
+
+        this.draftHistory = trackUndoHistory(
+            () => JSON.stringify(serializeRules(this.draftRules)),
+            (snapshot) => this.restoreDraftSnapshot(snapshot),
+            {
+                maxSteps: 100,
+                mergeWithinMs: 1000,
+                isSameEdit: (before, current, next) => {
+                    const [editedRuleId] = getChangedRuleIds(before, current);
+                    const nextRuleIds = getChangedRuleIds(current, next);
+                    return nextRuleIds.length === 1 && nextRuleIds[0] === editedRuleId;
+                }
+            }
+        );
+    }
+
+    private restoreDraftSnapshot(snapshot: string) {
+        const draftRules = deserializeRules(JSON.parse(snapshot), { rulesStore: this });
+
+        // Deserialized groups are always collapsed, so we preserve the state of existing groups:
+        getAllGroups(draftRules).forEach((group) => {
+            const existingGroup = findItem(this.draftRules, { id: group.id }) as
+                HtkMockRuleGroup | undefined;
+            if (existingGroup) group.collapsed = existingGroup.collapsed;
+        });
+
+        this.draftRules = draftRules;
+    }
+
+    @action.bound
+    undoDraftChange() {
+        if (this.draftHistory) this.draftHistory.undo();
+    }
+
+    @action.bound
+    redoDraftChange() {
+        if (this.draftHistory) this.draftHistory.redo();
+    }
+
     @computed
     get areSomeRulesUnsaved() {
         return !_.isEqualWith(this.draftRules, this.rules, areItemsEqual);
@@ -388,6 +496,43 @@ export class RulesStore {
         return !_.isEqualWith(this.draftRules, defaultRules, areItemsEqual);
     }
 
+    // The last exchange collected before the current rules were sent to the server, if any.
+    // Mockttp resets every rule's completion state whenever the rules are set, so only
+    // exchanges collected after this one count towards each rule's matches.
+    @observable.ref
+    private lastExchangeBeforeRules: HttpExchange | undefined;
+
+    @action.bound
+    resetRuleMatchCounts() {
+        this.lastExchangeBeforeRules = _.last(this.eventsStore.exchanges);
+    }
+
+    // The number of collected exchanges that each rule has handled since the rules were last
+    // sent to the server, by rule id
+    @computed
+    get ruleMatchCounts(): _.Dictionary<number> {
+        const { exchanges } = this.eventsStore;
+        const { lastExchangeBeforeRules } = this;
+
+        // If the baseline exchange has since been cleared, all remaining exchanges are newer:
+        const newExchanges = lastExchangeBeforeRules
+            ? exchanges.slice(exchanges.indexOf(lastExchangeBeforeRules) + 1)
+            : exchanges;
+
+        return _.countBy(
+            newExchanges.filter((exchange) =>
+                exchange.matchedRuleId && exchange.matchedRuleId !== '?'
+            ),
+            (exchange) => exchange.matchedRuleId
+        );
+    }
+
+    // The draft rules that can never match, because of an earlier rule, by rule id
+    @computed
+    get shadowedDraftRules(): _.Dictionary<HtkMockRule> {
+        return findShadowedRules(this.draftRules);
+    }
+
     @action.bound
     resetRule(draftItemPath: ItemPath) {
         // To reset a single rule, we reset the group & content of that rule, resetting only the
@@ -712,30 +857,133 @@ export class RulesStore {
         }
     }
 
+    @computed
+    get ruleProfiles(): Array<{ id: string, name: string }> {
+        return _.sortBy([
+            { id: this.activeProfileId, name: this.activeProfileName },
+            ...this.inactiveProfiles.map(({ id, name }) => ({ id, name }))
+        ], (profile) => profile.name.toLowerCase());
+    }
+
+    // Store the active profile's rules with the inactive profiles, so another can be activated
+    private deactivateCurrentProfile() {
+        this.inactiveProfiles.push({
+            id: this.activeProfileId,
+            name: this.activeProfileName,
+            rules: this.rules,
+            draftRules: this.draftRules
+        });
+    }
+
+    @action.bound
+    switchRuleProfile(profileId: string) {
+        if (profileId === this.activeProfileId) return;
+
+        const targetProfile = _.find(this.inactiveProfiles, { id: profileId });
+        if (!targetProfile) throw new Error(`Can't switch to unknown rule profile ${profileId}`);
+
+        this.deactivateCurrentProfile();
+        _.remove(this.inactiveProfiles, { id: profileId });
+
+        this.activeProfileId = targetProfile.id;
+        this.activeProfileName = targetProfile.name;
+
+        // Inactive rules aren't updated when the config changes, so we reload them to re-inject it:
+        this.rules = reloadRules(targetProfile.rules, this);
+        this.draftRules = reloadRules(targetProfile.draftRules, this);
+        this.resetDraftHistory();
+    }
+
+    @action.bound
+    createRuleProfile(name: string) {
+        this.deactivateCurrentProfile();
+
+        this.activeProfileId = uuid();
+        this.activeProfileName = name;
+        this.resetRulesToDefault();
+        this.resetDraftHistory();
+    }
+
+    @action.bound
+    duplicateRuleProfile(name: string) {
+        const { rules, draftRules } = this;
+        this.deactivateCurrentProfile();
+
+        this.activeProfileId = uuid();
+        this.activeProfileName = name;
+        this.rules = reloadRules(rules, this);
+        this.draftRules = reloadRules(draftRules, this);
+        this.resetDraftHistory();
+    }
+
+    @action.bound
+    renameRuleProfile(profileId: string, name: string) {
+        if (profileId === this.activeProfileId) {
+            this.activeProfileName = name;
+        } else {
+            const profile = _.find(this.inactiveProfiles, { id: profileId });
+            if (!profile) throw new Error(`Can't rename unknown rule profile ${profileId}`);
+            profile.name = name;
+        }
+    }
+
+    @action.bound
+    deleteRuleProfile(profileId: string) {
+        if (this.inactiveProfiles.length === 0) {
+            throw new Error("Can't delete the only rule profile");
+        }
+
+        // To delete the active profile, we activate another profile first
+        if (profileId === this.activeProfileId) {
+            this.switchRuleProfile(this.inactiveProfiles[0].id);
+        }
+
+        _.remove(this.inactiveProfiles, { id: profileId });
+    }
+
     @action.bound
     loadSavedRules(savedData: any) {
         this.rules = deserializeRules(savedData, { rulesStore: this });
         this.resetRuleDrafts();
     }
 
-    readonly triggerRequestBreakpoint = (request: MockttpBreakpointedRequest) => {
+    readonly triggerRequestBreakpoint = (
+        request: MockttpBreakpointedRequest,
+        { condition, autoResumeAfter }: BreakpointOptions = {}
+    ) => {
         return this.triggerBreakpoint(
             request.id,
-            (exchange: HttpExchange) => exchange.triggerRequestBreakpoint(request)
+            (exchange: HttpExchange) => exchange.triggerRequestBreakpoint(
+                request,
+                autoResumeAfter !== undefined ? autoResumeAfter * 1000 : undefined
+            ),
+            condition,
+            (exchange: HttpExchange) => exchange
         );
     }
 
-    readonly triggerResponseBreakpoint = (response: MockttpBreakpointedResponse) => {
+    readonly triggerResponseBreakpoint = (
+        response: MockttpBreakpointedResponse,
+        { condition, autoResumeAfter }: BreakpointOptions = {}
+    ) => {
         return this.triggerBreakpoint(
             response.id,
-            (exchange: HttpExchange) => exchange.triggerResponseBreakpoint(response)
+            (exchange: HttpExchange) => exchange.triggerResponseBreakpoint(
+                response,
+                autoResumeAfter !== undefined ? autoResumeAfter * 1000 : undefined
+            ),
+            condition,
+            // The response hasn't reached the UI yet, but conditions should be able to match it:
+            (exchange: HttpExchange) => exchange.withPendingResponse(response)
         );
     }
 
     private triggerBreakpoint = flow(function * <T>(
         this: RulesStore,
         eventId: string,
-        getEditedEvent: (exchange: HttpExchange) => Promise<T>
+        getEditedEvent: (exchange: HttpExchange) => Promise<T>,
+        condition: string | undefined,
+        getConditionTarget: (exchange: HttpExchange) => HttpExchange
     ) {
         let exchange: HttpExchange | undefined;
 
@@ -747,6 +995,15 @@ export class RulesStore {
             return !!exchange && exchange.isCompletedRequest();
         });
 
+        // For conditional breakpoints, anything that doesn't match resumes immediately, unmodified:
+        if (condition) {
+            const conditionMatched: boolean = yield matchesBreakpointCondition(
+                condition,
+                getConditionTarget(exchange!)
+            );
+            if (!conditionMatched) return {};
+        }
+
         // Jump to the exchange:
         this.jumpToExchange(eventId);
 
@@ -755,4 +1012,13 @@ export class RulesStore {
         return (yield getEditedEvent(exchange!)) as T;
     });
 
+    // Resolves once the client has aborted the given request, or after the timeout, whichever
+    // comes first. Never rejects, and never leaves anything waiting beyond the timeout.
+    waitForRequestAbort(requestId: string, timeoutMs: number): Promise<void> {
+        return when(() => {
+            const exchange = _.find(this.eventsStore.exchanges, { id: requestId });
+            return !!exchange && exchange.response === 'aborted';
+        }, { timeout: timeoutMs }).catch(() => {});
+    }
+
 }
\ No newline at end of file
@@ -1,22 +1,23 @@
 import * as _ from 'lodash';
-import { MockRuleData, completionCheckers } from 'mockttp';
+import { MockRuleData } from 'mockttp';
 import * as uuid from 'uuid/v4'
 import { observable } from 'mobx';
 
 import {
     Matcher,
     InitialMatcher,
-    Handler
+    Handler,
+    CompletionChecker
 } from './rules';
 
 export type HtkMockItem = HtkMockRule | HtkMockRuleGroup | HtkMockRuleRoot;
 
-export interface HtkMockRule extends Omit<MockRuleData, 'matchers'> {
+export interface HtkMockRule extends Omit<MockRuleData, 'matchers' | 'handler'> {
     id: string;
     activated: boolean;
     matchers: Array<Matcher> & { 0?: InitialMatcher };
     handler: Handler;
-    completionChecker: completionCheckers.Always; // HTK rules all *always* match
+    completionChecker: CompletionChecker;
 };
 
 export type HtkMockRuleGroup = {
@@ -33,6 +34,15 @@ export interface HtkMockRuleRoot extends HtkMockRuleGroup {
     items: HtkMockItem[];
 }
 
+// A named & independent set of rules. One profile is active at any time, and its rules
+// are the store's current rules. Inactive profiles keep their own saved & draft rules.
+export interface HtkRuleProfile {
+    id: string;
+    name: string;
+    rules: HtkMockRuleRoot;
+    draftRules: HtkMockRuleRoot;
+}
+
 export type ItemPath = number[];
 
 export function isRuleGroup(item: HtkMockItem | undefined): item is HtkMockRuleGroup {
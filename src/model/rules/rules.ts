@@ -1,7 +1,8 @@
 import * as _ from 'lodash';
 import {
     handlers,
-    matchers
+    matchers,
+    completionCheckers
 } from 'mockttp';
 
 import { Omit } from '../../types';
@@ -12,6 +13,9 @@ import {
     StaticResponseHandler,
     AmIUsingMatcher,
     DefaultWildcardMatcher,
+    CookieMatcher,
+    FormDataMatcher,
+    WebSocketWildcardMatcher,
     ForwardToHostHandler,
     PassThroughHandler,
     RequestBreakpointHandler,
@@ -20,7 +24,12 @@ import {
     TimeoutHandler,
     CloseConnectionHandler,
     FromFileResponseHandler,
-    TransformingHandler
+    TemplatedResponseHandler,
+    TransformingHandler,
+    DelayHandler,
+    ChaosHandler,
+    WebSocketPassThroughHandler,
+    WebSocketForwardToHostHandler
 } from './rule-definitions';
 
 // Define maps to/from matcher keys to matcher classes, and
@@ -33,8 +42,12 @@ export const MatcherLookup = Object.assign(
     {
         // Replace the built-in wildcard matcher with our own:
         wildcard: WildcardMatcher,
+        // Replace the cookie & form data matchers, for more readable explanations:
+        'cookie': CookieMatcher,
+        'form-data': FormDataMatcher,
         // Add special types for our built-in matcher explanation overrides:
         'default-wildcard': DefaultWildcardMatcher,
+        'ws-wildcard': WebSocketWildcardMatcher,
         'am-i-using': AmIUsingMatcher
     }
 
@@ -61,19 +74,28 @@ export const HandlerLookup = Object.assign(
         'passthrough': PassThroughHandler,
         'simple': StaticResponseHandler,
         'file': FromFileResponseHandler,
+        'templated-response': TemplatedResponseHandler,
         'forward-to-host': ForwardToHostHandler,
         'req-res-transformer': TransformingHandler,
         'request-breakpoint': RequestBreakpointHandler,
         'response-breakpoint': ResponseBreakpointHandler,
-        'request-and-response-breakpoint': RequestAndResponseBreakpointHandler
+        'request-and-response-breakpoint': RequestAndResponseBreakpointHandler,
+        'delay': DelayHandler,
+        'chaos': ChaosHandler,
+        'ws-passthrough': WebSocketPassThroughHandler,
+        'ws-forward-to-host': WebSocketForwardToHostHandler
     }
 );
 
 const PaidHandlerClasses: HandlerClass[] = [
     StaticResponseHandler,
     FromFileResponseHandler,
+    TemplatedResponseHandler,
     ForwardToHostHandler,
+    WebSocketForwardToHostHandler,
     TransformingHandler,
+    DelayHandler,
+    ChaosHandler,
     TimeoutHandler,
     CloseConnectionHandler
 ];
@@ -97,9 +119,29 @@ export const HandlerKeys = new Map<HandlerClass, HandlerClassKey>(
     ) as Array<[HandlerClass, HandlerClassKey]>
 );
 
+// Define maps to/from completion checker keys to checker classes, and
+// types for the checkers & classes themselves.
+export const CompletionCheckerLookup = completionCheckers.CompletionCheckerLookup;
+
+export type CompletionCheckerClassKey = keyof typeof CompletionCheckerLookup;
+export type CompletionCheckerClass = typeof CompletionCheckerLookup[CompletionCheckerClassKey];
+export type CompletionChecker = InstanceType<CompletionCheckerClass>;
+
+export const CompletionCheckerKeys = new Map<CompletionCheckerClass, CompletionCheckerClassKey>(
+    Object.entries(CompletionCheckerLookup)
+    .map(
+        ([key, checker]) => [checker, key]
+    ) as Array<[CompletionCheckerClass, CompletionCheckerClassKey]>
+);
+
 export const InitialMatcherClasses = [
     WildcardMatcher,
-    ...Object.values(MethodMatchers)
+    ...Object.values(MethodMatchers),
+    WebSocketWildcardMatcher
 ];
 export type InitialMatcherClass = typeof InitialMatcherClasses[0];
-export type InitialMatcher = InstanceType<InitialMatcherClass>;
\ No newline at end of file
+export type InitialMatcher = InstanceType<InitialMatcherClass>;
+
+// WebSocket rules are defined by their initial matcher
+export const isWebSocketRule = (rule: { matchers: Matcher[] }) =>
+    rule.matchers[0] instanceof WebSocketWildcardMatcher;
\ No newline at end of file
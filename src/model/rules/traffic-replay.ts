@@ -0,0 +1,187 @@
+import * as _ from 'lodash';
+import * as uuid from 'uuid/v4';
+import { matchers, completionCheckers } from 'mockttp';
+
+import { Headers, HttpExchange } from '../../types';
+import { ParsedHar } from '../http/har';
+import { getStatusMessage } from '../http/http-docs';
+import { MethodName } from '../http/methods';
+
+import { HtkMockRule, HtkMockRuleGroup } from './rules-structure';
+import {
+    MethodMatchers,
+    WildcardMatcher,
+    StaticResponseHandler,
+    buildMockResponseHeaders
+} from './rule-definitions';
+
+// A recorded request & response pair, from either a HAR file or the captured traffic
+export interface RecordedExchange {
+    request: {
+        method: string;
+        url: string;
+        body: Buffer | undefined;
+    };
+    response: {
+        statusCode: number;
+        statusMessage: string | undefined;
+        headers: Headers;
+        body: Buffer | undefined;
+    };
+}
+
+// How strictly requests must match a recorded request: each option also
+// includes everything before it.
+export type ReplayMatchStrictness = 'method-and-path' | 'query' | 'body';
+
+// What to do with requests that don't match any recorded request
+export type ReplayMissBehaviour = 'pass-through' | 'not-found';
+
+export interface ReplayOptions {
+    matching: ReplayMatchStrictness;
+    onMiss: ReplayMissBehaviour;
+}
+
+export function getRecordedExchangesFromHar(har: ParsedHar): RecordedExchange[] {
+    const responsesById = _.keyBy(har.responses, (r) => r.id);
+
+    return _.flatMap(har.requests, (request) => {
+        const response = responsesById[request.id];
+        if (!response) return []; // Aborted requests can't be replayed
+
+        return [{
+            request: {
+                method: request.method,
+                url: request.url,
+                body: request.body.decoded
+            },
+            response: {
+                statusCode: response.statusCode,
+                statusMessage: response.statusMessage,
+                headers: response.headers,
+                body: response.body.decoded
+            }
+        }];
+    });
+}
+
+export function getRecordedExchanges(exchanges: HttpExchange[]): RecordedExchange[] {
+    return _.flatMap(exchanges, (exchange) => {
+        if (!exchange.isSuccessfulExchange()) return [];
+
+        const { request, response } = exchange;
+        return [{
+            request: {
+                method: request.method,
+                url: request.url,
+                body: request.body.decoded
+            },
+            response: {
+                statusCode: response.statusCode,
+                statusMessage: response.statusMessage,
+                headers: response.headers,
+                body: response.body.decoded
+            }
+        }];
+    });
+}
+
+function buildReplayMatchers(
+    request: RecordedExchange['request'],
+    matching: ReplayMatchStrictness
+) {
+    const [path, ...queryParts] = request.url.split('?');
+    const query = queryParts.length ? '?' + queryParts.join('?') : '';
+
+    return [
+        new (MethodMatchers[request.method as MethodName] || WildcardMatcher)(),
+        new matchers.SimplePathMatcher(path),
+        ...(matching !== 'method-and-path'
+            ? [new matchers.ExactQueryMatcher(query)]
+            : []
+        ),
+        ...(matching === 'body'
+            ? [new matchers.RawBodyMatcher(request.body?.toString('utf8') ?? '')]
+            : []
+        )
+    ];
+}
+
+/**
+ * Build a group of rules that replays the given recorded traffic. Each distinct request
+ * is mocked with its recorded response. Where the same request was recorded more than
+ * once, its responses are replayed in order, and the last one is repeated thereafter.
+ */
+export function buildReplayRuleGroup(
+    title: string,
+    exchanges: RecordedExchange[],
+    options: ReplayOptions
+): HtkMockRuleGroup {
+    const rules = exchanges.map(({ request, response }): HtkMockRule => {
+        const body = response.body ?? '';
+
+        return {
+            id: uuid(),
+            activated: true,
+            matchers: buildReplayMatchers(request, options.matching),
+            handler: new StaticResponseHandler(
+                response.statusCode,
+                response.statusMessage || getStatusMessage(response.statusCode),
+                body,
+                buildMockResponseHeaders(response.headers, body)
+            ),
+            completionChecker: new completionCheckers.Always()
+        };
+    });
+
+    // Rules for a repeated request should each match once, except the last which
+    // then matches forever. Mockttp uses the first incomplete rule that matches.
+    const rulesByRequest = _.groupBy(rules, (rule) =>
+        JSON.stringify(rule.matchers)
+    );
+    Object.values(rulesByRequest).forEach((requestRules) => {
+        requestRules.slice(0, -1).forEach((rule) => {
+            rule.completionChecker = new completionCheckers.Once();
+        });
+    });
+
+    return {
+        id: uuid(),
+        title,
+        collapsed: true,
+        items: options.onMiss === 'not-found'
+            ? [...rules, ...buildNotFoundRules(exchanges)]
+            // Otherwise unmatched requests fall through to the later rules, and
+            // so are normally passed through to their real destination.
+            : rules
+    };
+}
+
+// A 404 fallback for each recorded host, so that other requests to those hosts aren't
+// passed through, but traffic to all other hosts is unaffected.
+function buildNotFoundRules(exchanges: RecordedExchange[]): HtkMockRule[] {
+    const hosts = _.uniq(_.flatMap(exchanges, ({ request }) => {
+        try {
+            return [new URL(request.url).host];
+        } catch (e) {
+            return [];
+        }
+    }));
+
+    return _.flatMap(hosts, (host): HtkMockRule[] => {
+        let hostMatcher: matchers.HostMatcher;
+        try {
+            hostMatcher = new matchers.HostMatcher(host);
+        } catch (e) {
+            return []; // Mockttp can't match some hosts, e.g. IPv6 addresses
+        }
+
+        return [{
+            id: uuid(),
+            activated: true,
+            matchers: [new WildcardMatcher(), hostMatcher],
+            handler: new StaticResponseHandler(404, getStatusMessage(404)),
+            completionChecker: new completionCheckers.Always()
+        }];
+    });
+}
@@ -83,6 +83,7 @@ export class UiStore {
         'responseBody': { collapsed: false },
 
         'performance': { collapsed: true },
+        'rules': { collapsed: true },
         'export': { collapsed: true }
     };
 
@@ -1,4 +1,13 @@
-import { observable, createAtom, IAtom, computed, IComputedValueOptions, IComputedValue } from 'mobx';
+import {
+    observable,
+    createAtom,
+    IAtom,
+    computed,
+    IComputedValueOptions,
+    IComputedValue,
+    reaction,
+    action
+} from 'mobx';
 import { IPromiseBasedObservable, fromPromise, PromiseState } from 'mobx-utils';
 
 import { Omit } from '../types';
@@ -145,4 +154,66 @@ export function debounceComputed<T>(
 
         return computed(debounced(fn, timeoutMs), computedOptions);
     }
-}
\ No newline at end of file
+}
+
+/**
+ * Tracks undo/redo history for an observable value, like mobx-shallow-undo, but keeping only
+ * a limited number of steps, and merging quick successive changes that are part of the same
+ * edit (e.g. typing into a single field) into a single step.
+ */
+export function trackUndoHistory<T>(
+    readObservable: () => T,
+    setObservable: (value: T) => void,
+    options: {
+        maxSteps: number,
+        mergeWithinMs: number,
+        isSameEdit: (before: T, current: T, next: T) => boolean
+    }
+) {
+    const undoStack: T[] = [readObservable()];
+    let undoPointer = 0; // Always points to the current value
+    let lastChangeTime = -Infinity;
+
+    let stopTrackingChanges: () => void;
+    const trackChanges = () => {
+        stopTrackingChanges = reaction(readObservable, (newValue) => {
+            const now = Date.now();
+
+            const continuesLastEdit = undoPointer > 0 &&
+                now - lastChangeTime < options.mergeWithinMs &&
+                options.isSameEdit(undoStack[undoPointer - 1], undoStack[undoPointer], newValue);
+
+            if (!continuesLastEdit) undoPointer += 1;
+            undoStack[undoPointer] = newValue;
+            undoStack.length = undoPointer + 1; // On change, trim any trailing redos
+            lastChangeTime = now;
+
+            if (undoStack.length > options.maxSteps + 1) {
+                undoStack.shift();
+                undoPointer -= 1;
+            }
+        });
+    };
+
+    // Move through the history without recording it, but with other observers notified as normal
+    const moveTo = action((pointer: number) => {
+        undoPointer = pointer;
+        lastChangeTime = -Infinity; // Later changes are always a new step
+
+        stopTrackingChanges();
+        setObservable(undoStack[undoPointer]);
+        trackChanges();
+    });
+
+    trackChanges();
+
+    return {
+        undo: () => {
+            if (undoPointer > 0) moveTo(undoPointer - 1);
+        },
+        redo: () => {
+            if (undoPointer < undoStack.length - 1) moveTo(undoPointer + 1);
+        },
+        dispose: () => stopTrackingChanges()
+    };
+}
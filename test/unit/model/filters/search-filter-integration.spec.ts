@@ -1,5 +1,6 @@
 import * as _ from 'lodash';
 import * as zlib from 'zlib';
+import { Method, matchers, completionCheckers } from 'mockttp';
 
 import { expect } from '../../../test-setup';
 
@@ -22,6 +23,9 @@ import { HttpExchange, SuccessfulExchange } from '../../../../src/model/http/exc
 import { CollectedEvent, FailedTlsRequest } from '../../../../src/types';
 import { delay } from '../../../../src/util/promise';
 import { decodeBody } from '../../../../src/services/ui-worker-api';
+import { HtkMockRuleRoot } from '../../../../src/model/rules/rules-structure';
+import { parseSource } from '../../../../src/model/http/sources';
+import { StaticResponseHandler } from '../../../../src/model/rules/rule-definitions';
 
 // Given an exact input for a filter, creates the filter and returns it
 function createFilter(input: string): Filter {
@@ -62,16 +66,24 @@ describe("Search filter model integration test:", () => {
                 { index: 0, showAs: "query" },
                 { index: 0, showAs: "status" },
                 { index: 0, showAs: "header" },
+                { index: 0, showAs: "cookie" },
                 { index: 0, showAs: "body" },
+                { index: 0, showAs: "json" },
                 { index: 0, showAs: "bodySize" },
+                { index: 0, showAs: "duration" },
                 { index: 0, showAs: "completed" },
                 { index: 0, showAs: "pending" },
                 { index: 0, showAs: "aborted" },
                 { index: 0, showAs: "errored" },
+                { index: 0, showAs: "pinned" },
+                { index: 0, showAs: "unpinned" },
                 { index: 0, showAs: "category" },
                 { index: 0, showAs: "port" },
                 { index: 0, showAs: "protocol" },
                 { index: 0, showAs: "httpVersion" },
+                { index: 0, showAs: "rule" },
+                { index: 0, showAs: "source" },
+                { index: 0, showAs: "tag" },
                 { index: 0, showAs: "not" },
                 { index: 0, showAs: "or" }
             ]);
@@ -89,16 +101,24 @@ describe("Search filter model integration test:", () => {
                 "requests with a given query string",
                 "responses with a given status code",
                 "exchanges by header",
+                "exchanges by cookie",
                 "exchanges by body content",
+                "exchanges by a field in their JSON body",
                 "exchanges by body size",
+                "exchanges by duration",
                 "requests that have received a response",
                 "requests that are still waiting for a response",
                 "requests that aborted before receiving a response",
                 "requests that weren't transmitted successfully",
+                "exchanges that have been pinned",
+                "exchanges that have not been pinned",
                 "exchanges by their general category",
                 "requests sent to a given port",
                 "exchanges using either HTTP or HTTPS",
                 "exchanges using a given version of HTTP",
+                "requests handled by a given mock rule",
+                "requests sent by a given client",
+                "exchanges by their tags",
                 "exchanges that do not match a given condition",
                 "exchanges that match any one of multiple conditions"
             ]);
@@ -164,10 +184,12 @@ describe("Search filter model integration test:", () => {
             let suggestions = getFilterSuggestions(FilterClasses, input);
             input = applySuggestionToText(input, _.last(suggestions)!);
 
-            suggestions = getFilterSuggestions(FilterClasses, input, [
-                getExchangeData({ statusCode: 200 }),
-                getExchangeData({ statusCode: 404 }),
-            ]);
+            suggestions = getFilterSuggestions(FilterClasses, input, {
+                events: [
+                    getExchangeData({ statusCode: 200 }),
+                    getExchangeData({ statusCode: 404 }),
+                ]
+            });
 
             expect(input).to.equal("status<")
             expect(suggestions.map(s => _.pick(s, 'showAs', 'index'))).to.deep.equal([
@@ -344,6 +366,83 @@ describe("Search filter model integration test:", () => {
         });
     });
 
+    describe("Pinned filters", () => {
+        const exampleEvents = [
+            Object.assign(getExchangeData(), { pinned: true }),
+            Object.assign(getExchangeData(), { pinned: false }),
+            Object.assign(getFailedTls(), { pinned: true }),
+            Object.assign(getFailedTls(), { pinned: false })
+        ];
+
+        it("should correctly filter for pinned exchanges", () => {
+            const filter = createFilter("pinned");
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[0], exampleEvents[2]]);
+        });
+
+        it("should correctly filter for unpinned exchanges", () => {
+            const filter = createFilter("unpinned");
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[1], exampleEvents[3]]);
+        });
+    });
+
+    describe("Tag filters", () => {
+        const exampleEvents = [
+            getExchangeData({ requestTags: ['passthrough-tls-error'] }),
+            getExchangeData({ responseTags: ['passthrough-error:ECONNRESET'] }),
+            getExchangeData(),
+            Object.assign(getFailedTls(), { tags: ['passthrough-tls-error'] })
+        ];
+
+        it("should suggest tags seen in the current events", () => {
+            const suggestions = getFilterSuggestions(FilterClasses, "tag=", {
+                events: exampleEvents
+            });
+
+            expect(suggestions.map(s => _.pick(s, 'showAs', 'index'))).to.deep.equal([
+                { index: 3, showAs: '={tag}' },
+                { index: 3, showAs: '=passthrough-tls-error' },
+                { index: 3, showAs: '=passthrough-error:ECONNRESET' }
+            ]);
+        });
+
+        it("should correctly filter for an exact tag", () => {
+            const filter = createFilter("tag=passthrough-tls-error");
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[0], exampleEvents[3]]);
+        });
+
+        it("should correctly filter for exchanges without a tag", () => {
+            const filter = createFilter("tag!=passthrough-tls-error");
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[1], exampleEvents[2]]);
+        });
+
+        it("should correctly filter for partial tags", () => {
+            const filter = createFilter("tag*=passthrough-error");
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[1]]);
+        });
+
+        it("should correctly format descriptions", () => {
+            [
+                ["tag", "exchanges by their tags"],
+                ["tag=", "exchanges tagged with a given tag"],
+                ["tag!=abc", "exchanges not tagged with abc"],
+                ["tag*=error", "exchanges with a tag containing error"],
+            ].forEach(([input, expectedOutput]) => {
+                const description = getSuggestionDescriptions(input)[0];
+                expect(description).to.equal(expectedOutput);
+            });
+        });
+    });
+
     describe("Method filters", () => {
         it("should correctly filter for the given method", () => {
             const filter = createFilter("method=POST");
@@ -402,7 +501,7 @@ describe("Search filter model integration test:", () => {
                 getFailedTls()
             ];
 
-            const suggestions = getFilterSuggestions(FilterClasses, "method=", exampleEvents);
+            const suggestions = getFilterSuggestions(FilterClasses, "method=", { events: exampleEvents });
 
             expect(suggestions.map(s => _.pick(s, 'showAs', 'index'))).to.deep.equal([
                 { index: 6, showAs: '={method}' },
@@ -430,6 +529,199 @@ describe("Search filter model integration test:", () => {
         });
     });
 
+    describe("Rule filters", () => {
+        const rules = {
+            id: 'root',
+            title: "HTTP Toolkit Rules",
+            isRoot: true,
+            items: [
+                {
+                    id: 'a-rule',
+                    activated: true,
+                    matchers: [
+                        new matchers.MethodMatcher(Method.POST),
+                        new matchers.SimplePathMatcher('/api')
+                    ],
+                    completionChecker: new completionCheckers.Always(),
+                    handler: new StaticResponseHandler(404)
+                },
+                {
+                    id: 'a-group',
+                    title: "A group",
+                    items: [{
+                        id: 'grouped-rule',
+                        activated: true,
+                        matchers: [new matchers.HostMatcher('example.com')],
+                        completionChecker: new completionCheckers.Always(),
+                        handler: new StaticResponseHandler(200)
+                    }]
+                }
+            ]
+        } as HtkMockRuleRoot;
+
+        const getHandledExchange = (matchedRuleId: string | undefined) =>
+            Object.assign(getExchangeData(), { matchedRuleId });
+
+        it("should suggest rules from context, inserting their ids", () => {
+            const input = "rule=";
+
+            const suggestions = getFilterSuggestions(FilterClasses, input, {
+                events: [],
+                rules
+            });
+
+            expect(suggestions.map(s => _.pick(s, 'showAs', 'value', 'index'))).to.deep.equal([
+                { index: 4, showAs: '={rule}', value: '=' },
+                {
+                    index: 4,
+                    showAs: '=making POSTs for /api, respond with status 404',
+                    value: '=a-rule'
+                },
+                {
+                    index: 4,
+                    showAs: '=for host example.com, respond with status 200',
+                    value: '=grouped-rule'
+                }
+            ]);
+        });
+
+        it("should correctly filter for the given rule", () => {
+            const filter = createFilter("rule=a-rule");
+
+            const exampleEvents = [
+                getHandledExchange(undefined),
+                getHandledExchange('?'),
+                getHandledExchange('a-rule'),
+                getHandledExchange('grouped-rule'),
+                getFailedTls()
+            ];
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[2]]);
+        });
+
+        it("should correctly filter for exchanges not handled by the given rule", () => {
+            const filter = createFilter("rule!=a-rule");
+
+            const exampleEvents = [
+                getHandledExchange(undefined),
+                getHandledExchange('?'),
+                getHandledExchange('a-rule'),
+                getHandledExchange('grouped-rule'),
+                getFailedTls()
+            ];
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[1], exampleEvents[3]]);
+        });
+
+        it("should describe rules using the rules from context", () => {
+            const [suggestion] = getFilterSuggestions(FilterClasses, "rule=grouped-rule", {
+                events: [],
+                rules
+            });
+            const filter = applySuggestionToFilters(
+                [new StringFilter("rule=grouped-rule")],
+                suggestion,
+                { events: [], rules }
+            )[1];
+
+            expect(filter.toString()).to.equal("Rule = for host example.com");
+            expect(filter.filterDescription).to.equal(
+                "requests handled by the rule: for host example.com, respond with status 200"
+            );
+        });
+
+        it("should fall back to rule ids for unknown rules", () => {
+            const filter = createFilter("rule=unknown-rule");
+
+            expect(filter.toString()).to.equal("Rule = unknown-rule");
+            expect(filter.filterDescription).to.equal(
+                "requests handled by rule unknown-rule"
+            );
+        });
+    });
+
+    describe("Source filters", () => {
+        const chromeUA = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 " +
+            "(KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36";
+        const curlUA = "curl/7.68.0";
+
+        const getExchangeFrom = (userAgent: string | undefined) => {
+            const exchange = getExchangeData();
+            exchange.request.source = parseSource(userAgent);
+            return exchange;
+        };
+
+        it("should suggest sources from context", () => {
+            const input = "source=";
+
+            const suggestions = getFilterSuggestions(FilterClasses, input, {
+                events: [],
+                sources: [parseSource(chromeUA), parseSource(curlUA)]
+            });
+
+            expect(suggestions.map(s => _.pick(s, 'showAs', 'value', 'index'))).to.deep.equal([
+                { index: 6, showAs: '={source}', value: '=' },
+                { index: 6, showAs: '=[Chrome 91 (Windows 10)]', value: '=[Chrome 91 (Windows 10)]' },
+                { index: 6, showAs: '=Curl/7.68.0', value: '=Curl/7.68.0' }
+            ]);
+        });
+
+        it("should correctly filter for the given source", () => {
+            const filter = createFilter("source=[Chrome 91 (Windows 10)]");
+
+            const exampleEvents = [
+                getExchangeFrom(chromeUA),
+                getExchangeFrom(curlUA),
+                getExchangeFrom(undefined),
+                getFailedTls()
+            ];
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[0]]);
+        });
+
+        it("should filter for sources case-insensitively by substring", () => {
+            const filter = createFilter("source*=curl");
+
+            const exampleEvents = [
+                getExchangeFrom(chromeUA),
+                getExchangeFrom(curlUA),
+                getExchangeFrom(undefined),
+                getFailedTls()
+            ];
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[1]]);
+        });
+
+        it("should filter for exchanges not from the given source", () => {
+            const filter = createFilter("source!=Curl/7.68.0");
+
+            const exampleEvents = [
+                getExchangeFrom(chromeUA),
+                getExchangeFrom(curlUA),
+                getFailedTls()
+            ];
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[0]]);
+        });
+
+        it("should correctly format descriptions", () => {
+            [
+                ["source", "requests sent by a given client"],
+                ["source=", "requests sent by a given client"],
+                ["source!=curl", "requests not sent by curl"],
+                ["source*=Chrome", "requests sent by a client containing Chrome"],
+            ].forEach(([input, expectedOutput]) => {
+                const description = getSuggestionDescriptions(input)[0];
+                expect(description).to.equal(expectedOutput);
+            });
+        });
+    });
+
     describe("Protocol filters", () => {
         it("should only suggest http for =http", () => {
             const input = "protocol=http";
@@ -556,6 +848,23 @@ describe("Search filter model integration test:", () => {
             expect((matchedEvents[0] as SuccessfulExchange).request.parsedUrl.hostname).to.equal('example.com');
             expect((matchedEvents[1] as SuccessfulExchange).request.parsedUrl.hostname).to.equal('google.es');
         });
+
+        it("should correctly filter for hostnames matching a regex", () => {
+            const filter = createFilter("hostname~=/^(www\\.)?google\\.(com|es)$/");
+
+            const exampleEvents = [
+                getExchangeData({ hostname: 'example.com', statusCode: 404 }),
+                getExchangeData({ hostname: 'www.google.com', statusCode: 200 }),
+                getExchangeData({ hostname: 'google.es', statusCode: 200 }),
+                getExchangeData({ hostname: 'google.co.uk', statusCode: 200 }),
+                getFailedTls()
+            ];
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents.length).to.equal(2);
+            expect((matchedEvents[0] as SuccessfulExchange).request.parsedUrl.hostname).to.equal('www.google.com');
+            expect((matchedEvents[1] as SuccessfulExchange).request.parsedUrl.hostname).to.equal('google.es');
+        });
     });
 
     describe("Port filters", () => {
@@ -627,6 +936,58 @@ describe("Search filter model integration test:", () => {
             expect((matchedEvents[0] as SuccessfulExchange).request.parsedUrl.pathname).to.equal('/home');
             expect((matchedEvents[1] as SuccessfulExchange).request.parsedUrl.pathname).to.equal('/home/missing');
         });
+
+        it("should correctly filter for paths matching a regex", () => {
+            const filter = createFilter("path~=/^/users/\\d+/orders$/");
+
+            const exampleEvents = [
+                getExchangeData({ responseState: 'aborted', path: '/users/abc/orders' }),
+                getExchangeData({ responseState: 'pending', path: '/users/123/orders' }),
+                getExchangeData({ path: '/users/456/orders/789', statusCode: 200 }),
+                getExchangeData({ path: '/users/42/orders', statusCode: 200 }),
+                getFailedTls()
+            ];
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents.length).to.equal(2);
+            expect((matchedEvents[0] as SuccessfulExchange).request.parsedUrl.pathname).to.equal('/users/123/orders');
+            expect((matchedEvents[1] as SuccessfulExchange).request.parsedUrl.pathname).to.equal('/users/42/orders');
+        });
+
+        it("should suggest a regex template after the regex operator", () => {
+            const suggestions = getFilterSuggestions(FilterClasses, "path~=");
+
+            expect(suggestions.map(s => _.pick(s, 'showAs', 'value', 'index', 'matchType'))).to.deep.equal([
+                { index: 4, showAs: '~=/{path pattern}/', value: '~=/', matchType: 'template' }
+            ]);
+        });
+
+        it("should suggest closing an unclosed regex", () => {
+            const suggestions = getFilterSuggestions(FilterClasses, "path~=/api/v\\d");
+
+            expect(suggestions.map(s => _.pick(s, 'showAs', 'value', 'index', 'matchType'))).to.deep.equal([
+                { index: 6, showAs: '/api/v\\d/', value: '/api/v\\d/', matchType: 'full' }
+            ]);
+        });
+
+        it("should show validation errors for invalid regexes", () => {
+            const suggestions = getFilterSuggestions(FilterClasses, "path~=/api/(v1/");
+
+            expect(suggestions.length).to.equal(1);
+            expect(suggestions[0].matchType).to.equal('partial');
+            expect(suggestions[0].value).to.equal('/api/(v1/');
+            expect(suggestions[0].showAs).to.include('Unterminated group');
+        });
+
+        it("should correctly describe regex path filters", () => {
+            [
+                ["path~=", "requests to a path matching a given path"],
+                ["path~=/^/api/i", "requests to a path matching /^\\/api/i"]
+            ].forEach(([input, expectedOutput]) => {
+                const description = getSuggestionDescriptions(input)[0];
+                expect(description).to.equal(expectedOutput);
+            });
+        });
     });
 
     describe("Query filters", () => {
@@ -642,7 +1003,8 @@ describe("Search filter model integration test:", () => {
                 { index: 0, showAs: 'query!=', matchType: 'partial' },
                 { index: 0, showAs: 'query*=', matchType: 'partial' },
                 { index: 0, showAs: 'query^=', matchType: 'partial' },
-                { index: 0, showAs: 'query$=', matchType: 'partial' }
+                { index: 0, showAs: 'query$=', matchType: 'partial' },
+                { index: 0, showAs: 'query~=', matchType: 'partial' }
             ]);
         });
 
@@ -757,19 +1119,21 @@ describe("Search filter model integration test:", () => {
         it("should suggest seen header names using context", () => {
             let input = "header[";
 
-            const suggestions = getFilterSuggestions(FilterClasses, input, [
-                getExchangeData({
-                    responseState: 'pending',
-                    requestHeaders: {
-                        'another-header': 'other values',
-                        'Content-Type': 'application/xml'
-                    }
-                }),
-                getExchangeData({
-                    requestHeaders: { 'content-type': 'application/json' },
-                    responseHeaders: { 'content-type': 'application/problem+json' },
-                }),
-            ]);
+            const suggestions = getFilterSuggestions(FilterClasses, input, {
+                events: [
+                    getExchangeData({
+                        responseState: 'pending',
+                        requestHeaders: {
+                            'another-header': 'other values',
+                            'Content-Type': 'application/xml'
+                        }
+                    }),
+                    getExchangeData({
+                        requestHeaders: { 'content-type': 'application/json' },
+                        responseHeaders: { 'content-type': 'application/problem+json' },
+                    }),
+                ]
+            });
 
             expect(suggestions.map(s => _.pick(s, 'showAs', 'index'))).to.deep.equal([
                 { index: 7, showAs: "{header name}]" },
@@ -781,20 +1145,22 @@ describe("Search filter model integration test:", () => {
         it("should suggest seen input-matching header names from context", () => {
             let input = "header[cont";
 
-            const suggestions = getFilterSuggestions(FilterClasses, input, [
-                getExchangeData({
-                    responseState: 'pending',
-                    requestHeaders: {
-                        'another-header': 'other values',
-                        'cont': 'other-value',
-                        'Content-Type': 'application/xml'
-                    }
-                }),
-                getExchangeData({
-                    requestHeaders: { 'content-type': 'application/json' },
-                    responseHeaders: { 'content-type': 'application/problem+json' },
-                }),
-            ]);
+            const suggestions = getFilterSuggestions(FilterClasses, input, {
+                events: [
+                    getExchangeData({
+                        responseState: 'pending',
+                        requestHeaders: {
+                            'another-header': 'other values',
+                            'cont': 'other-value',
+                            'Content-Type': 'application/xml'
+                        }
+                    }),
+                    getExchangeData({
+                        requestHeaders: { 'content-type': 'application/json' },
+                        responseHeaders: { 'content-type': 'application/problem+json' },
+                    }),
+                ]
+            });
 
             expect(suggestions.map(s => _.pick(s, 'showAs', 'index'))).to.deep.equal([
                 { index: 7, showAs: "cont]" },
@@ -818,19 +1184,21 @@ describe("Search filter model integration test:", () => {
         it("should suggest seen header values from context, if available", () => {
             let input = "header[content-type]=";
 
-            const suggestions = getFilterSuggestions(FilterClasses, input, [
-                getExchangeData({
-                    responseState: 'pending',
-                    requestHeaders: {
-                        'another-header': 'other values',
-                        'Content-Type': 'application/xml'
-                    }
-                }),
-                getExchangeData({
-                    requestHeaders: { 'content-type': 'application/json' },
-                    responseHeaders: { 'content-type': 'application/problem+json' },
-                }),
-            ]);
+            const suggestions = getFilterSuggestions(FilterClasses, input, {
+                events: [
+                    getExchangeData({
+                        responseState: 'pending',
+                        requestHeaders: {
+                            'another-header': 'other values',
+                            'Content-Type': 'application/xml'
+                        }
+                    }),
+                    getExchangeData({
+                        requestHeaders: { 'content-type': 'application/json' },
+                        responseHeaders: { 'content-type': 'application/problem+json' },
+                    }),
+                ]
+            });
 
             expect(suggestions.map(s => _.pick(s, 'showAs', 'index'))).to.deep.equal([
                 { index: 20, showAs: "={header value}" },
@@ -927,6 +1295,138 @@ describe("Search filter model integration test:", () => {
                 { 'my-header': 'abc' }
             ]);
         });
+
+        it("should correctly filter header values matching a regex", () => {
+            const filter = createFilter("header[authorization]~=[/^Bearer \\w+$/]");
+
+            const exampleEvents = [
+                getExchangeData({ responseState: 'aborted' }),
+                getExchangeData({
+                    requestHeaders: { 'authorization': 'Bearer abc' }
+                }),
+                getExchangeData({
+                    requestHeaders: { 'Authorization': 'bearer def' }
+                }),
+                getExchangeData({
+                    requestHeaders: { 'authorization': 'Basic abc' }
+                }),
+                getExchangeData({ requestHeaders: { 'another-header': 'Bearer abc' } }),
+                getFailedTls()
+            ];
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+
+            expect((matchedEvents as HttpExchange[]).map(e => e.request.headers)).to.deep.equal([
+                { 'authorization': 'Bearer abc' }
+            ]);
+        });
+    });
+
+    describe("Cookie filters", () => {
+        const exampleEvents = [
+            getExchangeData({
+                requestHeaders: { 'cookie': 'session=abc123; theme=dark' }
+            }),
+            getExchangeData({
+                requestHeaders: { 'cookie': 'theme=light' },
+                responseHeaders: {
+                    'set-cookie': [
+                        'csrf=xyz; Path=/; Secure; SameSite=None',
+                        'session=def456; HttpOnly; SameSite=Lax'
+                    ]
+                }
+            }),
+            getExchangeData({
+                responseHeaders: { 'set-cookie': 'csrf=qwe; SameSite=Strict' }
+            }),
+            getExchangeData({ responseState: 'pending' }),
+            getFailedTls()
+        ];
+
+        it("should suggest cookie names from the given source", () => {
+            expect(
+                getFilterSuggestions(FilterClasses, "cookie.request[", {
+                    events: exampleEvents
+                }).map(s => s.showAs)
+            ).to.deep.equal([
+                '{cookie name}]',
+                'session]',
+                'theme]'
+            ]);
+
+            expect(
+                getFilterSuggestions(FilterClasses, "cookie.response[", {
+                    events: exampleEvents
+                }).map(s => s.showAs)
+            ).to.deep.equal([
+                '{cookie name}]',
+                'csrf]',
+                'session]'
+            ]);
+        });
+
+        it("should filter for requests that sent a cookie", () => {
+            const filter = createFilter("cookie.request[session]");
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[0]]);
+        });
+
+        it("should filter for responses that set a cookie", () => {
+            const filter = createFilter("cookie.response[session]");
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[1]]);
+        });
+
+        it("should filter by cookie value", () => {
+            expect(exampleEvents.filter(e =>
+                createFilter("cookie.request[theme]=light").matches(e)
+            )).to.deep.equal([exampleEvents[1]]);
+
+            expect(exampleEvents.filter(e =>
+                createFilter("cookie.request[theme]~=/^(dark|light)$/").matches(e)
+            )).to.deep.equal([exampleEvents[0], exampleEvents[1]]);
+        });
+
+        it("should filter by cookie attributes", () => {
+            expect(exampleEvents.filter(e =>
+                createFilter("cookie.response[csrf].sameSite=none").matches(e)
+            )).to.deep.equal([exampleEvents[1]]);
+
+            expect(exampleEvents.filter(e =>
+                createFilter("cookie.response[csrf].secure").matches(e)
+            )).to.deep.equal([exampleEvents[1]]);
+
+            expect(exampleEvents.filter(e =>
+                createFilter("cookie.response[session].httpOnly").matches(e)
+            )).to.deep.equal([exampleEvents[1]]);
+        });
+
+        it("should describe itself", () => {
+            expect(
+                createFilter("cookie.response[csrf].sameSite=None").toString()
+            ).to.equal("Response cookie csrf sameSite = none");
+
+            expect(
+                createFilter("cookie.request[session]").toString()
+            ).to.equal("Request has session cookie");
+        });
+
+        it("should correctly format descriptions", () => {
+            [
+                ["cookie", "exchanges by cookie"],
+                ["cookie.request", "requests that sent a given cookie"],
+                ["cookie.request[session]", "requests that sent a 'session' cookie"],
+                ["cookie.request[session]=", "requests that sent a 'session' cookie with a value equal to a given value"],
+                ["cookie.request[session]*=abc", "requests that sent a 'session' cookie with a value containing 'abc'"],
+                ["cookie.response[csrf].secure", "responses that set a 'csrf' cookie with a secure attribute"],
+                ["cookie.response[csrf].sameSite=None", "responses that set a 'csrf' cookie with a sameSite attribute equal to 'None'"],
+            ].forEach(([input, expectedOutput]) => {
+                const description = getSuggestionDescriptions(input)[0];
+                expect(description).to.equal(expectedOutput);
+            });
+        });
     });
 
     describe("Body filters", () => {
@@ -1065,6 +1565,31 @@ describe("Search filter model integration test:", () => {
             ]);
         });
 
+        it("should match regexes against decoded bodies", async () => {
+            const filter = createFilter('body~=[/"id": ?\\d+/]');
+
+            const exampleEvents = [
+                getExchangeData({ // gzipped correct match
+                    responseHeaders: { 'content-encoding': 'gzip' },
+                    responseBody: zlib.gzipSync('{"id": 123}')
+                }),
+                getExchangeData({ // This decodes but won't match
+                    responseHeaders: { 'content-encoding': 'gzip' },
+                    responseBody: zlib.gzipSync('{"id": "abc"}')
+                }),
+                getExchangeData({ requestBody: '{"id":456}' })
+            ];
+
+            await decodeBodies(exampleEvents);
+            await delay(100); // Wait for the gzip decoding to complete
+
+            const matchedEvents = exampleEvents.filter(e =>
+                filter.matches(e)
+            ) as HttpExchange[];
+
+            expect(matchedEvents).to.deep.equal([exampleEvents[0], exampleEvents[2]]);
+        });
+
         it("should correctly format descriptions", () => {
             [
                 ["body", "exchanges by body content"],
@@ -1072,6 +1597,167 @@ describe("Search filter model integration test:", () => {
                 ["body!=abc", "exchanges with a body not equal to abc"],
                 ["body*=qwe", "exchanges with a body containing qwe"],
                 ["body$=x", "exchanges with a body ending with x"],
+                ["body~=/a.c/", "exchanges with a body matching /a.c/"],
+            ].forEach(([input, expectedOutput]) => {
+                const description = getSuggestionDescriptions(input)[0];
+                expect(description).to.equal(expectedOutput);
+            });
+        });
+    });
+
+    describe("JSON body filters", () => {
+
+        before(async function () {
+            this.timeout(10000);
+            await decodeBody(Buffer.from(zlib.gzipSync('Warmup content')), ['gzip']);
+        });
+
+        const decodeBodies = async (events: CollectedEvent[]) => {
+            events.forEach(e => {
+                if (e instanceof HttpExchange) {
+                    e.request.body.decoded;
+                    if (e.isSuccessfulExchange()) e.response.body.decoded;
+                }
+            });
+            await delay(1);
+        };
+
+        it("should match response fields equal to a given JSON value", async () => {
+            const filter = createFilter("json.response.data.user.id=42");
+
+            const exampleEvents = [
+                getFailedTls(),
+                getExchangeData({ responseBody: '{"data":{"user":{"id":42}}}' }),
+                getExchangeData({ responseBody: '{"data":{"user":{"id":"42"}}}' }),
+                getExchangeData({ responseBody: '{"data":{"user":{"id":43}}}' }),
+                getExchangeData({ responseBody: '{"data":{"user":null}}' }),
+                getExchangeData({ responseBody: 'not json' }),
+                getExchangeData({ requestBody: '{"data":{"user":{"id":42}}}', responseBody: '' }),
+                getExchangeData({ responseState: 'pending' })
+            ];
+
+            await decodeBodies(exampleEvents);
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[1], exampleEvents[2]]);
+        });
+
+        it("should match request fields by existence", async () => {
+            const filter = createFilter("json.request.token");
+
+            const exampleEvents = [
+                getExchangeData({ requestBody: '{"token":null}' }),
+                getExchangeData({ requestBody: '{"other":"abc"}' }),
+                getExchangeData({ requestBody: '', responseBody: '{"token":"abc"}' }),
+                getExchangeData({ responseState: 'aborted', requestBody: '{"token":"abc"}' })
+            ];
+
+            await decodeBodies(exampleEvents);
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[0], exampleEvents[3]]);
+        });
+
+        it("should compare numeric and string fields", async () => {
+            const exampleEvents = [
+                getExchangeData({ responseBody: '{"count":5,"name":"alice"}' }),
+                getExchangeData({ responseBody: '{"count":50,"name":"bob"}' }),
+                getExchangeData({ responseBody: '{"count":"500","name":"carol"}' })
+            ];
+
+            await decodeBodies(exampleEvents);
+
+            expect(exampleEvents.filter(e => createFilter("json.response.count>10").matches(e)))
+                .to.deep.equal([exampleEvents[1]]);
+            expect(exampleEvents.filter(e => createFilter("json.response.name^=a").matches(e)))
+                .to.deep.equal([exampleEvents[0]]);
+            expect(exampleEvents.filter(e => createFilter('json.response.name*="o"').matches(e)))
+                .to.deep.equal([exampleEvents[1], exampleEvents[2]]);
+            expect(exampleEvents.filter(e => createFilter("json.response.name~=/^(bob|carol)$/").matches(e)))
+                .to.deep.equal([exampleEvents[1], exampleEvents[2]]);
+            expect(exampleEvents.filter(e => createFilter("json.response.name!=bob").matches(e)))
+                .to.deep.equal([exampleEvents[0], exampleEvents[2]]);
+        });
+
+        it("should compare fields to JSON null", async () => {
+            const exampleEvents = [
+                getExchangeData({ responseBody: '{"data":{"user":null}}' }),
+                getExchangeData({ responseBody: '{"data":{"user":"null"}}' }),
+                getExchangeData({ responseBody: '{"data":{"user":{"id":1}}}' })
+            ];
+
+            await decodeBodies(exampleEvents);
+
+            expect(exampleEvents.filter(e => createFilter("json.response.data.user=null").matches(e)))
+                .to.deep.equal([exampleEvents[0], exampleEvents[1]]);
+            expect(exampleEvents.filter(e => createFilter("json.response.data.user!=null").matches(e)))
+                .to.deep.equal([exampleEvents[2]]);
+        });
+
+        it("should match any value selected by a wildcard", async () => {
+            const filter = createFilter("json.response.items.*.status=failed");
+
+            const exampleEvents = [
+                getExchangeData({ responseBody: '{"items":[{"status":"ok"},{"status":"failed"}]}' }),
+                getExchangeData({ responseBody: '{"items":[{"status":"ok"},{"status":"ok"}]}' }),
+                getExchangeData({ responseBody: '{"items":{"a":{"status":"failed"}}}' }),
+                getExchangeData({ responseBody: '{"items":[]}' })
+            ];
+
+            await decodeBodies(exampleEvents);
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[0], exampleEvents[2]]);
+        });
+
+        it("should match fields within decoded bodies", async () => {
+            const filter = createFilter("json.response.id=123");
+
+            const exampleEvents = [
+                getExchangeData({
+                    responseHeaders: { 'content-encoding': 'gzip' },
+                    responseBody: zlib.gzipSync('{"id": 123}')
+                }),
+                getExchangeData({
+                    responseHeaders: { 'content-encoding': 'gzip' },
+                    responseBody: zlib.gzipSync('{"id": 456}')
+                })
+            ];
+
+            await decodeBodies(exampleEvents);
+            await delay(100); // Wait for the gzip decoding to complete
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[0]]);
+        });
+
+        it("should suggest body sources", () => {
+            expect(
+                getFilterSuggestions(FilterClasses, "json.").map(s => _.pick(s, 'showAs', 'index'))
+            ).to.deep.equal([
+                { index: 4, showAs: ".request" },
+                { index: 4, showAs: ".response" }
+            ]);
+        });
+
+        it("should describe itself", () => {
+            expect(
+                createFilter("json.response.data.id>=10").toString()
+            ).to.equal("Response JSON data.id >= 10");
+
+            expect(
+                createFilter("json.request.token").toString()
+            ).to.equal("Request JSON has token");
+        });
+
+        it("should correctly format descriptions", () => {
+            [
+                ["json", "exchanges by a field in their JSON body"],
+                ["json.response", "exchanges by a field in their JSON response body"],
+                ["json.request.token", "exchanges with a 'token' field in their JSON request body"],
+                ["json.response.data.id=", "exchanges with a JSON response body 'data.id' field equal to a given value"],
+                ["json.response.data.id>=10", "exchanges with a JSON response body 'data.id' field greater than or equal to '10'"],
+                ["json.response.name~=/a.c/", "exchanges with a JSON response body 'name' field matching '/a.c/'"],
             ].forEach(([input, expectedOutput]) => {
                 const description = getSuggestionDescriptions(input)[0];
                 expect(description).to.equal(expectedOutput);
@@ -1132,6 +1818,108 @@ describe("Search filter model integration test:", () => {
         });
     });
 
+    describe("Duration filters", () => {
+        const getTimedExchange = (duration: number | undefined, responseState = 'completed') =>
+            getExchangeData({
+                responseState,
+                timingEvents: {
+                    startTime: Date.now(),
+                    startTimestamp: 100,
+                    ...(duration === undefined
+                        ? {}
+                    : responseState === 'aborted'
+                        ? { abortedTimestamp: 100 + duration }
+                    : { responseSentTimestamp: 100 + duration }
+                    )
+                }
+            });
+
+        it("should suggest units after a duration", () => {
+            const suggestions = getFilterSuggestions(FilterClasses, "duration>500");
+
+            expect(suggestions.map(s => _.pick(s, 'showAs', 'index'))).to.deep.equal([
+                { index: 12, showAs: "" },
+                { index: 12, showAs: "ms" },
+                { index: 12, showAs: "s" }
+            ]);
+        });
+
+        it("should correctly filter for a given duration in milliseconds", () => {
+            const filter = createFilter("duration>500ms");
+
+            const exampleEvents = [
+                getFailedTls(),
+                getTimedExchange(100),
+                getTimedExchange(500),
+                getTimedExchange(500.5),
+                getTimedExchange(2000),
+                getTimedExchange(undefined, 'pending'),
+                getTimedExchange(1000, 'aborted'),
+                getExchangeData() // No timing data at all
+            ];
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([
+                exampleEvents[3],
+                exampleEvents[4],
+                exampleEvents[6]
+            ]);
+        });
+
+        it("should correctly filter for a given duration in seconds", () => {
+            const filter = createFilter("duration<=1s");
+
+            const exampleEvents = [
+                getTimedExchange(100),
+                getTimedExchange(1000),
+                getTimedExchange(1001),
+                getTimedExchange(undefined, 'pending')
+            ];
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([
+                exampleEvents[0],
+                exampleEvents[1]
+            ]);
+        });
+
+        it("should treat durations without a unit as milliseconds", () => {
+            const initialFilters: FilterSet = [new StringFilter("duration<100")];
+            const [noUnitSuggestion] = getFilterSuggestions(FilterClasses, "duration<100");
+            const filter = applySuggestionToFilters(initialFilters, noUnitSuggestion)[1];
+
+            expect(filter.toString()).to.equal("Duration < 100ms");
+            expect(filter.matches(getTimedExchange(50))).to.equal(true);
+            expect(filter.matches(getTimedExchange(150))).to.equal(false);
+        });
+
+        it("should match exact durations to the precision of the unit", () => {
+            const filter = createFilter("duration=2s");
+
+            const exampleEvents = [
+                getTimedExchange(1200),
+                getTimedExchange(2200),
+                getTimedExchange(2600)
+            ];
+
+            const matchedEvents = exampleEvents.filter(e => filter.matches(e));
+            expect(matchedEvents).to.deep.equal([exampleEvents[1]]);
+        });
+
+        it("should correctly describe duration filters", () => {
+            [
+                ["duration", "exchanges by duration"],
+                ["duration=", "exchanges with a duration equal to a given duration"],
+                ["duration>500", "exchanges with a duration longer than 500ms"],
+                ["duration<=50ms", "exchanges with a duration shorter than or equal to 50ms"],
+                ["duration>=2s", "exchanges with a duration longer than or equal to 2s"],
+            ].forEach(([input, expectedOutput]) => {
+                const description = getSuggestionDescriptions(input)[0];
+                expect(description).to.equal(expectedOutput);
+            });
+        });
+    });
+
     describe("Or() filters", () => {
         it("should list all filters initially", () => {
             let input = "or(";
@@ -1144,16 +1932,24 @@ describe("Search filter model integration test:", () => {
                 { index: 3, showAs: "query" },
                 { index: 3, showAs: "status" },
                 { index: 3, showAs: "header" },
+                { index: 3, showAs: "cookie" },
                 { index: 3, showAs: "body" },
+                { index: 3, showAs: "json" },
                 { index: 3, showAs: "bodySize" },
+                { index: 3, showAs: "duration" },
                 { index: 3, showAs: "completed" },
                 { index: 3, showAs: "pending" },
                 { index: 3, showAs: "aborted" },
                 { index: 3, showAs: "errored" },
+                { index: 3, showAs: "pinned" },
+                { index: 3, showAs: "unpinned" },
                 { index: 3, showAs: "category" },
                 { index: 3, showAs: "port" },
                 { index: 3, showAs: "protocol" },
                 { index: 3, showAs: "httpVersion" },
+                { index: 3, showAs: "rule" },
+                { index: 3, showAs: "source" },
+                { index: 3, showAs: "tag" },
             ]);
         });
 
@@ -1195,16 +1991,24 @@ describe("Search filter model integration test:", () => {
                 { index: 14, showAs: "query" },
                 { index: 14, showAs: "status" },
                 { index: 14, showAs: "header" },
+                { index: 14, showAs: "cookie" },
                 { index: 14, showAs: "body" },
+                { index: 14, showAs: "json" },
                 { index: 14, showAs: "bodySize" },
+                { index: 14, showAs: "duration" },
                 { index: 14, showAs: "completed)" },
                 { index: 14, showAs: "pending)" },
                 { index: 14, showAs: "aborted)" },
                 { index: 14, showAs: "errored)" },
+                { index: 14, showAs: "pinned)" },
+                { index: 14, showAs: "unpinned)" },
                 { index: 14, showAs: "category" },
                 { index: 14, showAs: "port" },
                 { index: 14, showAs: "protocol" },
                 { index: 14, showAs: "httpVersion" },
+                { index: 14, showAs: "rule" },
+                { index: 14, showAs: "source" },
+                { index: 14, showAs: "tag" },
             ]);
         });
 
@@ -1220,15 +2024,17 @@ describe("Search filter model integration test:", () => {
         it("should use context in suggestions", () => {
             let input = "or(header";
 
-            let suggestions = getFilterSuggestions(FilterClasses, input, [
-                getExchangeData({
-                    responseState: 'pending',
-                    requestHeaders: {
-                        'another-header': 'other values',
-                        'Content-Type': 'application/xml'
-                    }
-                }),
-            ]);
+            let suggestions = getFilterSuggestions(FilterClasses, input, {
+                events: [
+                    getExchangeData({
+                        responseState: 'pending',
+                        requestHeaders: {
+                            'another-header': 'other values',
+                            'Content-Type': 'application/xml'
+                        }
+                    }),
+                ]
+            });
             expect(suggestions.map(s => _.pick(s, 'showAs', 'index'))).to.deep.equal([
                 { index: 3, showAs: "header[{header name}])" },
                 { index: 3, showAs: "header[another-header]" },
@@ -1305,16 +2111,24 @@ describe("Search filter model integration test:", () => {
                 { index: 4, showAs: "query" },
                 { index: 4, showAs: "status" },
                 { index: 4, showAs: "header" },
+                { index: 4, showAs: "cookie" },
                 { index: 4, showAs: "body" },
+                { index: 4, showAs: "json" },
                 { index: 4, showAs: "bodySize" },
+                { index: 4, showAs: "duration" },
                 { index: 4, showAs: "completed)" },
                 { index: 4, showAs: "pending)" },
                 { index: 4, showAs: "aborted)" },
                 { index: 4, showAs: "errored)" },
+                { index: 4, showAs: "pinned)" },
+                { index: 4, showAs: "unpinned)" },
                 { index: 4, showAs: "category" },
                 { index: 4, showAs: "port" },
                 { index: 4, showAs: "protocol" },
                 { index: 4, showAs: "httpVersion" },
+                { index: 4, showAs: "rule" },
+                { index: 4, showAs: "source" },
+                { index: 4, showAs: "tag" },
             ]);
         });
 
@@ -1349,15 +2163,17 @@ describe("Search filter model integration test:", () => {
         it("should use context in suggestions", () => {
             let input = "not(header";
 
-            let suggestions = getFilterSuggestions(FilterClasses, input, [
-                getExchangeData({
-                    responseState: 'pending',
-                    requestHeaders: {
-                        'another-header': 'other values',
-                        'Content-Type': 'application/xml'
-                    }
-                }),
-            ]);
+            let suggestions = getFilterSuggestions(FilterClasses, input, {
+                events: [
+                    getExchangeData({
+                        responseState: 'pending',
+                        requestHeaders: {
+                            'another-header': 'other values',
+                            'Content-Type': 'application/xml'
+                        }
+                    }),
+                ]
+            });
             expect(suggestions.map(s => _.pick(s, 'showAs', 'index'))).to.deep.equal([
                 { index: 4, showAs: "header[{header name}])" },
                 { index: 4, showAs: "header[another-header]" },
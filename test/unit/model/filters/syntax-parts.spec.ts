@@ -10,7 +10,9 @@ import {
     SyntaxWrapperSyntax,
     CombinedSyntax,
     OptionsSyntax,
-    SyntaxRepeaterSyntax
+    SyntaxRepeaterSyntax,
+    RegexSyntax,
+    ConditionalSyntax
 } from "../../../../src/model/filters/syntax-parts";
 
 describe("Fixed string syntax", () => {
@@ -557,6 +559,168 @@ describe("String syntax", () => {
 
 });
 
+describe("Regex syntax", () => {
+
+    it("should not match values without a leading slash", () => {
+        const part = new RegexSyntax();
+        expect(part.match("abc/", 0)).to.equal(undefined);
+    });
+
+    it("should fully match a valid regex", () => {
+        const part = new RegexSyntax();
+
+        const match = part.match("/a+b/", 0)!;
+        expect(match.type).to.equal('full');
+        expect(match.consumed).to.equal(5);
+    });
+
+    it("should fully match a valid regex with flags", () => {
+        const part = new RegexSyntax();
+
+        const match = part.match("/a+b/is other", 0)!;
+        expect(match.type).to.equal('full');
+        expect(match.consumed).to.equal(7);
+    });
+
+    it("should match unescaped slashes within the pattern", () => {
+        const part = new RegexSyntax();
+
+        const match = part.match("/users/\\d+/orders/", 0)!;
+        expect(match.type).to.equal('full');
+        expect(match.consumed).to.equal(18);
+    });
+
+    it("should partially match an unclosed regex", () => {
+        const part = new RegexSyntax();
+
+        const match = part.match("/a+b", 0)!;
+        expect(match.type).to.equal('partial');
+        expect(match.consumed).to.equal(4);
+    });
+
+    it("should partially match at the end of a string", () => {
+        const part = new RegexSyntax();
+
+        const match = part.match("value=", 6)!;
+        expect(match.type).to.equal('partial');
+        expect(match.consumed).to.equal(0);
+    });
+
+    it("should only partially match invalid regexes", () => {
+        const part = new RegexSyntax();
+
+        const match = part.match("/(a+b/", 0)!;
+        expect(match.type).to.equal('partial');
+        expect(match.consumed).to.equal(6);
+    });
+
+    it("should only partially match regexes with unsupported flags", () => {
+        const part = new RegexSyntax();
+
+        const match = part.match("/a+b/g", 0)!;
+        expect(match.type).to.equal('partial');
+        expect(match.consumed).to.equal(6);
+    });
+
+    it("should stop matching at invalid chars", () => {
+        const part = new RegexSyntax();
+
+        const match = part.match("/a b/", 0)!;
+        expect(match.type).to.equal('partial');
+        expect(match.consumed).to.equal(2);
+    });
+
+    it("should match valid chars from a given range", () => {
+        const part = new RegexSyntax("a pattern", { allowedChars: [[0, 255]] });
+
+        const match = part.match("/a b/", 0)!;
+        expect(match.type).to.equal('full');
+        expect(match.consumed).to.equal(5);
+    });
+
+    it("should suggest inserting a regex", () => {
+        const part = new RegexSyntax("a pattern");
+
+        const suggestions = part.getSuggestions("value=", 6);
+
+        expect(suggestions).to.deep.equal([
+            {
+                showAs: '/{a pattern}/',
+                index: 6,
+                value: '/',
+                matchType: 'template'
+            }
+        ]);
+    });
+
+    it("should suggest closing an unclosed regex", () => {
+        const part = new RegexSyntax();
+
+        const suggestions = part.getSuggestions("value=/a+b", 6);
+
+        expect(suggestions).to.deep.equal([
+            {
+                showAs: '/a+b/',
+                index: 6,
+                value: '/a+b/',
+                matchType: 'full'
+            }
+        ]);
+    });
+
+    it("should suggest completing a valid regex", () => {
+        const part = new RegexSyntax();
+
+        const suggestions = part.getSuggestions("value=/a+b/i", 6);
+
+        expect(suggestions).to.deep.equal([
+            {
+                showAs: '/a+b/i',
+                index: 6,
+                value: '/a+b/i',
+                matchType: 'full'
+            }
+        ]);
+    });
+
+    it("should show validation errors for invalid regexes", () => {
+        const part = new RegexSyntax();
+
+        const suggestions = part.getSuggestions("value=/(a+b", 6);
+
+        expect(suggestions.length).to.equal(1);
+        expect(suggestions[0].matchType).to.equal('partial');
+        expect(suggestions[0].value).to.equal('/(a+b/');
+        expect(suggestions[0].showAs).to.include('/(a+b/ (');
+        expect(suggestions[0].showAs).to.include('Unterminated group');
+    });
+
+    it("should show validation errors for unsupported flags", () => {
+        const part = new RegexSyntax();
+
+        const suggestions = part.getSuggestions("value=/a+b/g", 6);
+
+        expect(suggestions).to.deep.equal([
+            {
+                showAs: "/a+b/g (Unsupported regular expression flag 'g')",
+                index: 6,
+                value: '/a+b/g',
+                matchType: 'partial'
+            }
+        ]);
+    });
+
+    it("should be able to parse a completed value", () => {
+        const part = new RegexSyntax();
+
+        const regex = part.parse("/users/\\d+/i", 0);
+        expect(regex).to.be.instanceOf(RegExp);
+        expect(regex.source).to.equal("users\\/\\d+");
+        expect(regex.flags).to.equal("i");
+    });
+
+});
+
 describe("Wrapper syntax", () => {
 
     it("should matched a wrapped value", () => {
@@ -1605,4 +1769,38 @@ describe("Combined syntax", () => {
         expect(part.parse("A-STRING", 0)).to.deep.equal(["a", "-", "string"]);
     });
 
-});
\ No newline at end of file
+});
+
+describe("Conditional syntax", () => {
+
+    const part = new ConditionalSyntax(
+        (value, index) => value.slice(0, index).endsWith('~'),
+        new NumberSyntax(),
+        new StringSyntax("a string", { allowedChars: [charRange("a", "z")] })
+    );
+
+    it("should match the first syntax if the condition passes", () => {
+        expect(part.match("~123", 1)).to.deep.equal({ type: 'full', consumed: 3 });
+        expect(part.match("~abc", 1)).to.equal(undefined);
+    });
+
+    it("should match the second syntax if the condition fails", () => {
+        expect(part.match("=abc", 1)).to.deep.equal({ type: 'full', consumed: 3 });
+        expect(part.match("=123", 1)).to.equal(undefined);
+    });
+
+    it("should suggest values from the syntax matching the condition", () => {
+        expect(part.getSuggestions("~", 1)).to.deep.equal([
+            { showAs: '{number}', index: 1, value: '', matchType: 'template' }
+        ]);
+        expect(part.getSuggestions("=", 1)).to.deep.equal([
+            { showAs: '{a string}', index: 1, value: '', matchType: 'template' }
+        ]);
+    });
+
+    it("should parse values with the syntax matching the condition", () => {
+        expect(part.parse("~123", 1)).to.equal(123);
+        expect(part.parse("=abc", 1)).to.equal("abc");
+    });
+
+});
@@ -0,0 +1,49 @@
+import { expect } from '../../../test-setup';
+
+import { delay } from '../../../../src/util/promise';
+import { getResponseBreakpoint } from '../../../../src/model/http/exchange-breakpoint';
+
+const getBreakpoint = () => getResponseBreakpoint({
+    id: 'id',
+    statusCode: 404,
+    headers: { 'content-type': 'text/plain' },
+    body: { buffer: Buffer.from('Not found') }
+} as any);
+
+describe("Breakpoint auto-resume", () => {
+
+    it("should resume unmodified after the delay", async () => {
+        const breakpoint = await getBreakpoint();
+        breakpoint.scheduleAutoResume(10);
+        expect(breakpoint.autoResumeAt).to.be.greaterThan(Date.now());
+
+        const result = await breakpoint.waitForCompletedResult() as any;
+
+        expect(result.statusCode).to.equal(404);
+        expect(result.body.toString()).to.equal('Not found');
+        expect(breakpoint.autoResumeAt).to.equal(undefined);
+    });
+
+    it("should not auto-resume once the breakpoint has been edited", async () => {
+        const breakpoint = await getBreakpoint();
+        breakpoint.scheduleAutoResume(10);
+
+        breakpoint.updateMetadata({ headers: { 'content-type': 'text/html' } });
+        expect(breakpoint.autoResumeAt).to.equal(undefined);
+
+        let resumed = false;
+        breakpoint.waitForCompletedResult().then(() => { resumed = true; });
+        await delay(30);
+        expect(resumed).to.equal(false);
+    });
+
+    it("should stop the countdown if the breakpoint is closed manually", async () => {
+        const breakpoint = await getBreakpoint();
+        breakpoint.scheduleAutoResume(1000);
+
+        breakpoint.close();
+
+        expect(await breakpoint.waitForCompletedResult()).to.equal('close');
+        expect(breakpoint.autoResumeAt).to.equal(undefined);
+    });
+});
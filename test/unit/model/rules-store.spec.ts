@@ -1,9 +1,41 @@
+import { completionCheckers } from "mockttp";
+import * as serializr from "serializr";
+import { observable } from "mobx";
+
+import { Matcher, isWebSocketRule } from "../../../src/model/rules/rules";
 import { RulesStore } from "../../../src/model/rules/rules-store";
 import {
     HtkMockRule,
     HtkMockRuleRoot,
-    HtkMockItem
+    HtkMockRuleGroup,
+    HtkMockItem,
+    isRuleGroup
 } from "../../../src/model/rules/rules-structure";
+import {
+    serializeRules,
+    deserializeRules,
+    RuleProfileSchema
+} from "../../../src/model/rules/rule-serialization";
+import {
+    WildcardMatcher,
+    CookieMatcher,
+    FormDataMatcher,
+    StaticResponseHandler,
+    WebSocketWildcardMatcher,
+    WebSocketPassThroughHandler,
+    WebSocketForwardToHostHandler,
+    CloseConnectionHandler,
+    DelayHandler,
+    DelayConfig,
+    getDelayDuration,
+    ChaosHandler,
+    TemplatedResponseHandler
+} from "../../../src/model/rules/rule-definitions";
+import {
+    summarizeHandler,
+    summarizeMatcher
+} from "../../../src/model/rules/rule-descriptions";
+import { delay } from "../../../src/util/promise";
 
 import { expect } from "../../test-setup";
 
@@ -20,6 +52,26 @@ const defaultGroup = (...items: Array<HtkMockItem>) => ({
     items
 });
 
+const staticRule = (id: string, status: number) => ({
+    id,
+    activated: true,
+    matchers: [new WildcardMatcher()],
+    handler: new StaticResponseHandler(status),
+    completionChecker: new completionCheckers.Always()
+}) as HtkMockRule;
+
+const ruleRoot = (...items: Array<HtkMockItem>) => ({
+    id: 'root',
+    title: 'HTTP Toolkit Rules',
+    isRoot: true,
+    items
+}) as HtkMockRuleRoot;
+
+const ruleStatuses = (rules: HtkMockRuleRoot) =>
+    (rules.items as HtkMockRule[]).map((rule) =>
+        (rule.handler as StaticResponseHandler).status
+    );
+
 describe("Rules store", () => {
 
     let store: RulesStore;
@@ -30,7 +82,8 @@ describe("Rules store", () => {
     beforeEach(() => {
         const proxyStore = {
             serverVersion: '1.0.0',
-            dnsServers: []
+            dnsServers: [],
+            ruleParameterKeys: []
         };
         store = new RulesStore({ featureFlags: [] } as any, proxyStore as any, null as any, null as any);
         store.rules = { id: 'root', items: [] } as any as HtkMockRuleRoot;
@@ -397,4 +450,626 @@ describe("Rules store", () => {
             expect(store.draftRules.items).to.deep.equal([a]);
         });
     });
-});
\ No newline at end of file
+
+    describe("completion checkers", () => {
+
+        const ruleWithChecker = (
+            id: string,
+            completionChecker: HtkMockRule['completionChecker']
+        ) => ({
+            id,
+            activated: true,
+            matchers: [new WildcardMatcher()],
+            handler: new StaticResponseHandler(500),
+            completionChecker
+        }) as HtkMockRule;
+
+        it("should serialize & deserialize rule completion checkers", () => {
+            const rules = {
+                id: 'root',
+                title: "HTTP Toolkit Rules",
+                isRoot: true,
+                items: [
+                    ruleWithChecker('always', new completionCheckers.Always()),
+                    ruleWithChecker('twice', new completionCheckers.Twice()),
+                    ruleWithChecker('n-times', new completionCheckers.NTimes(5))
+                ]
+            } as HtkMockRuleRoot;
+
+            const reloadedRules = deserializeRules(
+                JSON.parse(JSON.stringify(serializeRules(rules))),
+                { rulesStore: store }
+            );
+
+            const checkers = (reloadedRules.items as HtkMockRule[])
+                .map(r => r.completionChecker);
+
+            expect(checkers[0]).to.be.instanceOf(completionCheckers.Always);
+            expect(checkers[1]).to.be.instanceOf(completionCheckers.Twice);
+            expect(checkers[2]).to.be.instanceOf(completionCheckers.NTimes);
+            expect((checkers[2] as completionCheckers.NTimes).count).to.equal(5);
+        });
+
+        it("should include limited completion checkers in rule summaries", () => {
+            expect(summarizeHandler(
+                ruleWithChecker('always', new completionCheckers.Always())
+            )).to.equal("Respond with status 500");
+
+            expect(summarizeHandler(
+                ruleWithChecker('n-times', new completionCheckers.NTimes(5))
+            )).to.equal("Respond with status 500, 5 times");
+        });
+
+        it("should count the exchanges handled by each rule", () => {
+            const eventsStore = {
+                exchanges: [
+                    { matchedRuleId: 'a' },
+                    { matchedRuleId: 'a' },
+                    { matchedRuleId: 'b' },
+                    { matchedRuleId: '?' },
+                    { matchedRuleId: undefined }
+                ]
+            };
+            const countingStore = new RulesStore(
+                { featureFlags: [] } as any,
+                {} as any,
+                eventsStore as any,
+                null as any
+            );
+
+            expect(countingStore.ruleMatchCounts).to.deep.equal({ a: 2, b: 1 });
+        });
+
+        it("should only count exchanges since the rules were last sent to the server", () => {
+            const eventsStore = observable({
+                exchanges: [
+                    { matchedRuleId: 'a' },
+                    { matchedRuleId: 'b' }
+                ] as Array<{ matchedRuleId: string }>
+            });
+            const countingStore = new RulesStore(
+                { featureFlags: [] } as any,
+                {} as any,
+                eventsStore as any,
+                null as any
+            );
+
+            countingStore.resetRuleMatchCounts();
+            expect(countingStore.ruleMatchCounts).to.deep.equal({});
+
+            eventsStore.exchanges.push({ matchedRuleId: 'a' });
+            expect(countingStore.ruleMatchCounts).to.deep.equal({ a: 1 });
+
+            // Clearing the baseline exchange keeps counting from the remaining exchanges:
+            eventsStore.exchanges.splice(0, 2);
+            eventsStore.exchanges.push({ matchedRuleId: 'b' });
+            expect(countingStore.ruleMatchCounts).to.deep.equal({ a: 1, b: 1 });
+        });
+    });
+
+    describe("cookie & form data matchers", () => {
+
+        const ruleWithMatchers = (...matchers: Matcher[]) => ({
+            id: 'a-rule',
+            activated: true,
+            matchers: [new WildcardMatcher(), ...matchers],
+            handler: new StaticResponseHandler(200),
+            completionChecker: new completionCheckers.Always()
+        }) as HtkMockRule;
+
+        const reloadRule = (rule: HtkMockRule) => deserializeRules(
+            JSON.parse(JSON.stringify(serializeRules({
+                id: 'root',
+                title: "HTTP Toolkit Rules",
+                isRoot: true,
+                items: [rule]
+            }))),
+            { rulesStore: store }
+        ).items[0] as HtkMockRule;
+
+        it("should serialize & deserialize cookie matchers", () => {
+            const rule = reloadRule(ruleWithMatchers(
+                new CookieMatcher({ session: 'abc' }),
+                new CookieMatcher({ theme: 'dark' })
+            ));
+
+            expect(rule.matchers[1]).to.be.instanceOf(CookieMatcher);
+            expect(rule.matchers[1].type).to.equal('cookie');
+            expect((rule.matchers[1] as CookieMatcher).cookie).to.deep.equal({ session: 'abc' });
+            expect((rule.matchers[2] as CookieMatcher).cookie).to.deep.equal({ theme: 'dark' });
+        });
+
+        it("should serialize & deserialize form data matchers", () => {
+            const rule = reloadRule(ruleWithMatchers(
+                new FormDataMatcher({ username: 'alice', remember: 'on' })
+            ));
+
+            expect(rule.matchers[1]).to.be.instanceOf(FormDataMatcher);
+            expect(rule.matchers[1].type).to.equal('form-data');
+            expect((rule.matchers[1] as FormDataMatcher).formData).to.deep.equal({
+                username: 'alice',
+                remember: 'on'
+            });
+        });
+
+        it("should explain cookie & form data matchers", () => {
+            expect(summarizeMatcher(ruleWithMatchers(
+                new CookieMatcher({ session: 'abc' }),
+                new FormDataMatcher({ username: 'alice', remember: 'on' })
+            ))).to.equal(
+                "Any requests with cookie 'session' set to 'abc', " +
+                "and with form data including username=alice and remember=on"
+            );
+        });
+    });
+
+    describe("WebSocket rules", () => {
+
+        const wsRule = (handler: HtkMockRule['handler'], ...matchers: Matcher[]) => ({
+            id: 'ws-rule',
+            activated: true,
+            matchers: [new WebSocketWildcardMatcher(), ...matchers],
+            handler,
+            completionChecker: new completionCheckers.Always()
+        }) as HtkMockRule;
+
+        const reloadRule = (rule: HtkMockRule) => deserializeRules(
+            JSON.parse(JSON.stringify(serializeRules({
+                id: 'root',
+                title: "HTTP Toolkit Rules",
+                isRoot: true,
+                items: [rule]
+            }))),
+            { rulesStore: store }
+        ).items[0] as HtkMockRule;
+
+        it("should identify WebSocket rules by their initial matcher", () => {
+            expect(isWebSocketRule(wsRule(new CloseConnectionHandler()))).to.equal(true);
+            expect(isWebSocketRule({
+                matchers: [new WildcardMatcher()]
+            })).to.equal(false);
+            expect(isWebSocketRule({ matchers: [] })).to.equal(false);
+        });
+
+        it("should serialize & deserialize WebSocket passthrough rules", () => {
+            const rule = reloadRule(wsRule(new WebSocketPassThroughHandler(store)));
+
+            expect(rule.matchers[0]).to.be.instanceOf(WebSocketWildcardMatcher);
+            expect(rule.handler).to.be.instanceOf(WebSocketPassThroughHandler);
+            expect(rule.handler.type).to.equal('ws-passthrough');
+        });
+
+        it("should serialize & deserialize WebSocket forwarding rules", () => {
+            const rule = reloadRule(wsRule(
+                new WebSocketForwardToHostHandler('ws://localhost:8000', false, store)
+            ));
+
+            expect(rule.handler).to.be.instanceOf(WebSocketForwardToHostHandler);
+            expect((rule.handler as WebSocketForwardToHostHandler).forwarding).to.deep.equal({
+                targetHost: 'ws://localhost:8000',
+                updateHostHeader: false
+            });
+        });
+
+        it("should explain WebSocket rules", () => {
+            const rule = wsRule(new CloseConnectionHandler(), new CookieMatcher({ session: 'abc' }));
+
+            expect(summarizeMatcher(rule)).to.equal("WebSockets with cookie 'session' set to 'abc'");
+            expect(summarizeHandler(wsRule(new WebSocketPassThroughHandler(store))))
+                .to.equal("Pass the WebSocket through to the target host");
+            expect(summarizeHandler(wsRule(
+                new WebSocketForwardToHostHandler('localhost:8000', true, store)
+            ))).to.equal("Forward the websocket to localhost:8000");
+        });
+    });
+
+    describe("delay handlers", () => {
+
+        const delayRule = (handler: DelayHandler) => ({
+            id: 'delay-rule',
+            activated: true,
+            matchers: [new WildcardMatcher()],
+            handler,
+            completionChecker: new completionCheckers.Always()
+        }) as HtkMockRule;
+
+        const reloadHandler = (handler: DelayHandler) => (deserializeRules(
+            JSON.parse(JSON.stringify(serializeRules({
+                id: 'root',
+                title: "HTTP Toolkit Rules",
+                isRoot: true,
+                items: [delayRule(handler)]
+            }))),
+            { rulesStore: store }
+        ).items[0] as HtkMockRule).handler as DelayHandler;
+
+        it("should serialize & deserialize delayed passthrough handlers", () => {
+            const handler = reloadHandler(
+                new DelayHandler(store, { mode: 'random', min: 100, max: 500 })
+            );
+
+            expect(handler).to.be.instanceOf(DelayHandler);
+            expect(handler.delay).to.deep.equal({ mode: 'random', min: 100, max: 500 });
+            expect(handler.response).to.equal(undefined);
+            expect(handler.beforeRequest).to.be.a('function');
+        });
+
+        it("should serialize & deserialize delayed response handlers", () => {
+            const handler = reloadHandler(new DelayHandler(
+                store,
+                { mode: 'jitter', duration: 1000, jitter: 200 },
+                { status: 503, body: 'Unavailable' }
+            ));
+
+            expect(handler.delay).to.deep.equal({ mode: 'jitter', duration: 1000, jitter: 200 });
+            expect(handler.response).to.deep.equal({ status: 503, body: 'Unavailable' });
+        });
+
+        it("should explain delay handlers", () => {
+            expect(summarizeHandler(delayRule(
+                new DelayHandler(store, { mode: 'fixed', duration: 500 })
+            ))).to.equal("Wait 500ms, then pass the request through to the target host");
+
+            expect(summarizeHandler(delayRule(new DelayHandler(
+                store,
+                { mode: 'random', min: 100, max: 2000 },
+                { status: 503, body: '' }
+            )))).to.equal("Wait 100-2000ms, then respond with status 503");
+
+            expect(summarizeHandler(delayRule(
+                new DelayHandler(store, { mode: 'jitter', duration: 500, jitter: 100 })
+            ))).to.equal("Wait 500±100ms, then pass the request through to the target host");
+        });
+
+        it("should pick delays within the configured range", () => {
+            expect(getDelayDuration({ mode: 'fixed', duration: 250 })).to.equal(250);
+
+            const randomConfig: DelayConfig = { mode: 'random', min: 100, max: 200 };
+            const jitterConfig: DelayConfig = { mode: 'jitter', duration: 50, jitter: 100 };
+
+            for (let i = 0; i < 50; i++) {
+                const randomDelay = getDelayDuration(randomConfig);
+                expect(randomDelay).to.be.within(100, 200);
+
+                const jitteredDelay = getDelayDuration(jitterConfig);
+                expect(jitteredDelay).to.be.within(0, 150);
+            }
+        });
+    });
+
+    describe("chaos handlers", () => {
+
+        const chaosRule = (handler: ChaosHandler) => ({
+            id: 'chaos-rule',
+            activated: true,
+            matchers: [new WildcardMatcher()],
+            handler,
+            completionChecker: new completionCheckers.Always()
+        }) as HtkMockRule;
+
+        const runBeforeRequest = (handler: ChaosHandler) =>
+            handler.beforeRequest!({} as any);
+
+        it("should serialize & deserialize chaos handlers", () => {
+            const handler = (deserializeRules(
+                JSON.parse(JSON.stringify(serializeRules({
+                    id: 'root',
+                    title: "HTTP Toolkit Rules",
+                    isRoot: true,
+                    items: [chaosRule(new ChaosHandler(store, 25, { type: 'status', status: 502 }))]
+                }))),
+                { rulesStore: store }
+            ).items[0] as HtkMockRule).handler as ChaosHandler;
+
+            expect(handler).to.be.instanceOf(ChaosHandler);
+            expect(handler.failureRate).to.equal(25);
+            expect(handler.failure).to.deep.equal({ type: 'status', status: 502 });
+        });
+
+        it("should explain chaos handlers", () => {
+            expect(summarizeHandler(chaosRule(
+                new ChaosHandler(store, 10, { type: 'status', status: 503 })
+            ))).to.equal(
+                "Respond with status 503 for 10% of requests, and pass the rest through to the target host"
+            );
+
+            expect(summarizeHandler(chaosRule(
+                new ChaosHandler(store, 50, { type: 'reset' })
+            ))).to.equal(
+                "Close the connection for 50% of requests, and pass the rest through to the target host"
+            );
+        });
+
+        it("should fail every request at a 100% failure rate", async () => {
+            expect(await runBeforeRequest(
+                new ChaosHandler(store, 100, { type: 'status', status: 503 })
+            )).to.deep.equal({ response: { statusCode: 503 } });
+
+            expect(await runBeforeRequest(
+                new ChaosHandler(store, 100, { type: 'reset' })
+            )).to.deep.equal({ response: 'close' });
+        });
+
+        it("should pass through every request at a 0% failure rate", async () => {
+            for (let i = 0; i < 20; i++) {
+                expect(await runBeforeRequest(
+                    new ChaosHandler(store, 0, { type: 'reset' })
+                )).to.equal(undefined);
+            }
+        });
+
+        it("should close timed out requests once the client aborts them", async () => {
+            const eventsStore = observable({
+                exchanges: [{ id: 'req-1', response: undefined }] as Array<{ id: string, response: any }>
+            });
+            const abortingStore = new RulesStore(
+                { featureFlags: [] } as any,
+                { serverVersion: '1.0.0', dnsServers: [], ruleParameterKeys: [] } as any,
+                eventsStore as any,
+                null as any
+            );
+
+            let result: unknown = 'pending';
+            const handler = new ChaosHandler(abortingStore, 100, { type: 'timeout' });
+            const resultPromise = Promise.resolve(handler.beforeRequest!({ id: 'req-1' } as any))
+                .then((r) => { result = r; });
+
+            await delay(10);
+            expect(result).to.equal('pending');
+
+            eventsStore.exchanges[0].response = 'aborted';
+            await resultPromise;
+            expect(result).to.deep.equal({ response: 'close' });
+        });
+    });
+
+    describe("templated response handlers", () => {
+
+        it("should serialize & deserialize templated response handlers", () => {
+            const handler = (deserializeRules(
+                JSON.parse(JSON.stringify(serializeRules({
+                    id: 'root',
+                    title: "HTTP Toolkit Rules",
+                    isRoot: true,
+                    items: [{
+                        id: 'template-rule',
+                        activated: true,
+                        matchers: [new WildcardMatcher()],
+                        handler: new TemplatedResponseHandler(
+                            201,
+                            { 'x-id': '{{request.query.id}}' },
+                            '{"id": "{{uuid}}"}'
+                        ),
+                        completionChecker: new completionCheckers.Always()
+                    } as HtkMockRule]
+                }))),
+                { rulesStore: store }
+            ).items[0] as HtkMockRule).handler as TemplatedResponseHandler;
+
+            expect(handler).to.be.instanceOf(TemplatedResponseHandler);
+            expect(handler.status).to.equal(201);
+            expect(handler.headers).to.deep.equal({ 'x-id': '{{request.query.id}}' });
+            expect(handler.body).to.equal('{"id": "{{uuid}}"}');
+        });
+
+        it("should render responses from the request", async () => {
+            const handler = new TemplatedResponseHandler(
+                200,
+                { 'x-trace-id': '{{request.headers.x-trace-id}}' },
+                'Hello {{request.body.json.name}}'
+            );
+
+            const response = await handler.callback({
+                method: 'POST',
+                url: 'https://example.com/',
+                headers: { 'x-trace-id': 'abc' },
+                body: { getText: async () => '{"name":"Bob"}' }
+            } as any);
+
+            expect(response).to.deep.equal({
+                statusCode: 200,
+                headers: { 'x-trace-id': 'abc' },
+                body: 'Hello Bob'
+            });
+        });
+    });
+});
+
+describe("Rule profiles", () => {
+
+    let store: RulesStore;
+
+    beforeEach(() => {
+        const proxyStore = {
+            serverVersion: '1.0.0',
+            dnsServers: [],
+            ruleParameterKeys: []
+        };
+        store = new RulesStore({ featureFlags: [] } as any, proxyStore as any, null as any, null as any);
+        store.rules = ruleRoot(staticRule('a', 200));
+        store.draftRules = ruleRoot(staticRule('a', 200), staticRule('b', 404));
+    });
+
+    it("should start with a single default profile", () => {
+        expect(store.ruleProfiles).to.deep.equal([{ id: 'default', name: 'Default' }]);
+    });
+
+    it("should duplicate the saved & draft rules of the active profile", () => {
+        store.duplicateRuleProfile('Copy');
+
+        expect(store.activeProfileName).to.equal('Copy');
+        expect(store.ruleProfiles.map(p => p.name)).to.deep.equal(['Copy', 'Default']);
+        expect(ruleStatuses(store.rules)).to.deep.equal([200]);
+        expect(ruleStatuses(store.draftRules)).to.deep.equal([200, 404]);
+    });
+
+    it("should keep each profile's saved & draft rules when switching", () => {
+        store.duplicateRuleProfile('Copy');
+        store.draftRules.items.push(staticRule('c', 500));
+        store.saveRules();
+
+        store.switchRuleProfile('default');
+
+        expect(store.activeProfileName).to.equal('Default');
+        expect(ruleStatuses(store.rules)).to.deep.equal([200]);
+        expect(ruleStatuses(store.draftRules)).to.deep.equal([200, 404]);
+
+        const copyId = store.ruleProfiles.find(p => p.name === 'Copy')!.id;
+        store.switchRuleProfile(copyId);
+
+        expect(ruleStatuses(store.rules)).to.deep.equal([200, 404, 500]);
+        expect(ruleStatuses(store.draftRules)).to.deep.equal([200, 404, 500]);
+    });
+
+    it("should rename profiles", () => {
+        store.duplicateRuleProfile('Copy');
+        const copyId = store.activeProfileId;
+
+        store.renameRuleProfile('default', 'Original');
+        store.renameRuleProfile(copyId, 'Renamed copy');
+
+        expect(store.ruleProfiles.map(p => p.name)).to.deep.equal(['Original', 'Renamed copy']);
+    });
+
+    it("should switch to another profile when deleting the active profile", () => {
+        store.duplicateRuleProfile('Copy');
+        store.deleteRuleProfile(store.activeProfileId);
+
+        expect(store.ruleProfiles).to.deep.equal([{ id: 'default', name: 'Default' }]);
+        expect(store.activeProfileId).to.equal('default');
+        expect(ruleStatuses(store.draftRules)).to.deep.equal([200, 404]);
+    });
+
+    it("should not delete the only profile", () => {
+        expect(() => store.deleteRuleProfile('default')).to.throw();
+    });
+
+    it("should persist only the saved rules of inactive profiles", () => {
+        store.duplicateRuleProfile('Copy');
+
+        const serializedProfile = serializr.serialize(RuleProfileSchema, store.inactiveProfiles[0]);
+
+        expect(Object.keys(serializedProfile)).to.deep.equal(['id', 'name', 'rules']);
+        expect(serializedProfile.name).to.equal('Default');
+        expect(
+            deserializeRules(serializedProfile.rules, { rulesStore: store }).items.length
+        ).to.equal(1);
+    });
+});
+
+describe("Draft rule history", () => {
+
+    let store: RulesStore;
+
+    const ruleIds = (group: HtkMockRuleGroup): Array<string | string[]> =>
+        group.items.map((item) =>
+            isRuleGroup(item)
+                ? item.items.map((child) => child.id)
+                : item.id
+        );
+
+    beforeEach(() => {
+        const proxyStore = {
+            serverVersion: '1.0.0',
+            dnsServers: [],
+            ruleParameterKeys: []
+        };
+        store = new RulesStore({ featureFlags: [] } as any, proxyStore as any, null as any, null as any);
+        store.rules = ruleRoot(staticRule('a', 200), staticRule('b', 404), staticRule('c', 500));
+        store.resetRuleDrafts();
+        store.resetDraftHistory();
+    });
+
+    it("should undo & redo draft rule moves", () => {
+        store.moveDraftRule([0], [2]);
+        expect(ruleIds(store.draftRules)).to.deep.equal(['b', 'c', 'a']);
+
+        store.undoDraftChange();
+        expect(ruleIds(store.draftRules)).to.deep.equal(['a', 'b', 'c']);
+        expect(store.areSomeRulesUnsaved).to.equal(false);
+
+        store.redoDraftChange();
+        expect(ruleIds(store.draftRules)).to.deep.equal(['b', 'c', 'a']);
+    });
+
+    it("should undo group merges, restoring the original positions", () => {
+        store.combineDraftRulesAsGroup([2], [0]);
+        expect(ruleIds(store.draftRules)).to.deep.equal([['a', 'c'], 'b']);
+
+        store.moveDraftRule([1], [0, 1]);
+        expect(ruleIds(store.draftRules)).to.deep.equal([['a', 'b', 'c']]);
+
+        store.undoDraftChange();
+        store.undoDraftChange();
+        expect(ruleIds(store.draftRules)).to.deep.equal(['a', 'b', 'c']);
+    });
+
+    it("should undo edits & deletions within rules", () => {
+        (store.draftRules.items[1] as HtkMockRule).handler = new StaticResponseHandler(418);
+        store.deleteDraftItem([0]);
+        expect(ruleStatuses(store.draftRules)).to.deep.equal([418, 500]);
+
+        store.undoDraftChange();
+        expect(ruleStatuses(store.draftRules)).to.deep.equal([200, 418, 500]);
+
+        store.undoDraftChange();
+        expect(ruleStatuses(store.draftRules)).to.deep.equal([200, 404, 500]);
+    });
+
+    it("should undo quick successive edits to the same rule as a single step", () => {
+        const editRule = (index: number, status: number) => {
+            (store.draftRules.items[index] as HtkMockRule).handler = new StaticResponseHandler(status);
+        };
+
+        editRule(0, 2);
+        editRule(0, 20);
+        editRule(0, 201);
+        editRule(1, 4);
+        editRule(1, 41);
+        expect(ruleStatuses(store.draftRules)).to.deep.equal([201, 41, 500]);
+
+        store.undoDraftChange();
+        expect(ruleStatuses(store.draftRules)).to.deep.equal([201, 404, 500]);
+
+        store.undoDraftChange();
+        expect(ruleStatuses(store.draftRules)).to.deep.equal([200, 404, 500]);
+    });
+
+    it("should limit the number of undo steps", () => {
+        for (let i = 0; i < 150; i++) {
+            // Alternate rules, so that each edit is a separate step:
+            (store.draftRules.items[i % 2] as HtkMockRule).handler = new StaticResponseHandler(i);
+        }
+
+        for (let i = 0; i < 150; i++) store.undoDraftChange();
+
+        // Only the last 100 edits can be undone, i.e. back to statuses from edits 48 & 49:
+        expect(ruleStatuses(store.draftRules)).to.deep.equal([48, 49, 500]);
+    });
+
+    it("should drop redo history after a new change", () => {
+        store.deleteDraftItem([0]);
+        store.undoDraftChange();
+        store.deleteDraftItem([2]);
+
+        store.redoDraftChange();
+        expect(ruleIds(store.draftRules)).to.deep.equal(['a', 'b']);
+    });
+
+    it("should not record saving as a separate change", () => {
+        store.deleteDraftItem([0]);
+        store.saveRules();
+
+        store.undoDraftChange();
+        expect(ruleIds(store.draftRules)).to.deep.equal(['a', 'b', 'c']);
+        expect(store.areSomeRulesUnsaved).to.equal(true);
+    });
+
+    it("should reset the history when switching profiles", () => {
+        store.deleteDraftItem([0]);
+        store.duplicateRuleProfile('Copy');
+
+        store.undoDraftChange();
+        expect(ruleIds(store.draftRules)).to.deep.equal(['b', 'c']);
+    });
+});
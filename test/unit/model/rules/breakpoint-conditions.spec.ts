@@ -0,0 +1,74 @@
+import { expect } from '../../../test-setup';
+
+import { RulesStore } from '../../../../src/model/rules/rules-store';
+import {
+    describeBreakpointCondition,
+    matchesBreakpointCondition
+} from '../../../../src/model/rules/breakpoint-conditions';
+import { getExchangeData } from '../../unit-test-helpers';
+
+const pendingResponse = (statusCode: number, body: string) => ({
+    id: '',
+    statusCode,
+    headers: {},
+    body: { buffer: Buffer.from(body) }
+}) as any;
+
+describe("Breakpoint conditions", () => {
+
+    it("should describe conditions in order", () => {
+        expect(describeBreakpointCondition('method=POST status>=500 timeout')).to.equal(
+            'POST requests, responses with a status greater than or equal to 500 ' +
+            'and exchanges containing "timeout"'
+        );
+        expect(describeBreakpointCondition('')).to.equal(undefined);
+    });
+
+    it("should match request conditions against the exchange", async () => {
+        const exchange = getExchangeData({
+            method: 'POST',
+            requestBody: 'hello world',
+            responseState: 'pending'
+        });
+
+        expect(await matchesBreakpointCondition('method=POST body*=world', exchange)).to.equal(true);
+        expect(await matchesBreakpointCondition('method=POST body*=error', exchange)).to.equal(false);
+        expect(await matchesBreakpointCondition('status>=500', exchange)).to.equal(false);
+    });
+
+    it("should match response conditions against pending responses", async () => {
+        const exchange = getExchangeData({ responseState: 'pending' });
+
+        const failedExchange = exchange.withPendingResponse(pendingResponse(503, '{"error":true}'));
+        expect(await matchesBreakpointCondition('status>=500 body*=error', failedExchange))
+            .to.equal(true);
+
+        const successfulExchange = exchange.withPendingResponse(pendingResponse(200, '{}'));
+        expect(await matchesBreakpointCondition('status>=500', successfulExchange))
+            .to.equal(false);
+
+        // The real exchange is unaffected:
+        expect(exchange.response).to.equal(undefined);
+    });
+
+    it("should automatically resume exchanges that don't match the condition", async () => {
+        const exchange = getExchangeData({ method: 'GET', responseState: 'pending' });
+        const jumpedTo: string[] = [];
+
+        const store = new RulesStore(
+            { featureFlags: [] } as any,
+            {} as any,
+            { exchanges: [exchange] } as any,
+            (id) => jumpedTo.push(id)
+        );
+
+        const result = await store.triggerResponseBreakpoint(
+            { ...pendingResponse(200, ''), id: exchange.id },
+            { condition: 'status>=500' }
+        );
+
+        expect(result).to.deep.equal({});
+        expect(jumpedTo).to.deep.equal([]);
+        expect(exchange.responseBreakpoint).to.equal(undefined);
+    });
+});
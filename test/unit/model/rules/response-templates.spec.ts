@@ -0,0 +1,81 @@
+import { expect } from '../../../test-setup';
+
+import {
+    renderTemplate,
+    renderTemplateHeaders,
+    TemplateRequest
+} from '../../../../src/model/rules/response-templates';
+
+const request: TemplateRequest = {
+    method: 'POST',
+    url: 'https://example.com/users/create?id=123&tag=a.b',
+    headers: {
+        'content-type': 'application/json',
+        'x-trace-id': 'trace-abc',
+        'accept': ['text/html', 'application/json']
+    },
+    body: JSON.stringify({ name: 'Alice', address: { city: 'Paris' }, roles: ['admin'] })
+};
+
+describe("Response templates", () => {
+
+    it("should leave templates without expressions unchanged", () => {
+        expect(renderTemplate('Hello world', request)).to.equal('Hello world');
+    });
+
+    it("should render basic request fields", () => {
+        expect(renderTemplate(
+            '{{request.method}} {{request.url}} {{request.path}}',
+            request
+        )).to.equal('POST https://example.com/users/create?id=123&tag=a.b /users/create');
+    });
+
+    it("should render query parameters", () => {
+        expect(renderTemplate('{"id": {{request.query.id}}}', request)).to.equal('{"id": 123}');
+        expect(renderTemplate('{{ request.query.tag }}', request)).to.equal('a.b');
+        expect(renderTemplate('[{{request.query.missing}}]', request)).to.equal('[]');
+    });
+
+    it("should render headers case-insensitively", () => {
+        expect(renderTemplate('{{request.headers.X-Trace-Id}}', request)).to.equal('trace-abc');
+        expect(renderTemplate('{{request.headers.accept}}', request))
+            .to.equal('text/html, application/json');
+    });
+
+    it("should render the request body & JSON fields", () => {
+        expect(renderTemplate('{{request.body}}', request)).to.equal(request.body);
+        expect(renderTemplate('{{request.body.json.name}}', request)).to.equal('Alice');
+        expect(renderTemplate('{{request.body.json.address.city}}', request)).to.equal('Paris');
+        expect(renderTemplate('{{request.body.json.roles}}', request)).to.equal('["admin"]');
+        expect(renderTemplate('[{{request.body.json.unknown}}]', request)).to.equal('[]');
+    });
+
+    it("should render JSON fields as empty for non-JSON bodies", () => {
+        expect(renderTemplate('[{{request.body.json.name}}]', {
+            ...request,
+            body: 'not json'
+        })).to.equal('[]');
+    });
+
+    it("should render generated values", () => {
+        expect(renderTemplate('{{uuid}}', request)).to.match(
+            /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[0-9a-f]{4}-[0-9a-f]{12}$/
+        );
+        expect(new Date(renderTemplate('{{now}}', request)).getTime()).to.be.closeTo(Date.now(), 1000);
+    });
+
+    it("should leave unknown expressions untouched", () => {
+        expect(renderTemplate('{{unknown}} {{request.other}}', request))
+            .to.equal('{{unknown}} {{request.other}}');
+    });
+
+    it("should render header templates", () => {
+        expect(renderTemplateHeaders({
+            'x-trace-id': '{{request.headers.x-trace-id}}',
+            'x-values': ['{{request.method}}', 'fixed']
+        }, request)).to.deep.equal({
+            'x-trace-id': 'trace-abc',
+            'x-values': ['POST', 'fixed']
+        });
+    });
+});
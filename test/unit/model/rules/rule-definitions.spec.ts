@@ -0,0 +1,207 @@
+import { matchers } from 'mockttp';
+
+import { expect } from '../../../test-setup';
+import { getExchangeData } from '../../unit-test-helpers';
+
+import { HtkMockRule } from '../../../../src/model/rules/rules-structure';
+import {
+    MethodMatchers,
+    StaticResponseHandler,
+    TransformingHandler,
+    buildRuleGroupFromExchanges,
+    buildRuleFromBreakpointEdits
+} from '../../../../src/model/rules/rule-definitions';
+import {
+    getRequestBreakpoint,
+    getResponseBreakpoint
+} from '../../../../src/model/http/exchange-breakpoint';
+
+describe("Building rule groups from exchanges", () => {
+
+    it("should build a named group with a rule for each exchange", () => {
+        const group = buildRuleGroupFromExchanges('My mocks', [
+            getExchangeData({ method: 'GET', path: '/a', statusCode: 200 }),
+            getExchangeData({ method: 'POST', path: '/b', statusCode: 201 })
+        ]);
+
+        expect(group.title).to.equal('My mocks');
+        expect(group.items.length).to.equal(2);
+
+        const [ruleA, ruleB] = group.items as HtkMockRule[];
+
+        expect(ruleA.matchers[0]).to.be.instanceOf(MethodMatchers.GET);
+        expect((ruleA.matchers[1] as matchers.SimplePathMatcher).path)
+            .to.equal('https://example.com/a');
+        expect((ruleA.handler as StaticResponseHandler).status).to.equal(200);
+
+        expect(ruleB.matchers[0]).to.be.instanceOf(MethodMatchers.POST);
+        expect((ruleB.matchers[1] as matchers.SimplePathMatcher).path)
+            .to.equal('https://example.com/b');
+        expect((ruleB.handler as StaticResponseHandler).status).to.equal(201);
+    });
+
+    it("should de-duplicate exchanges with the same method, path & query", () => {
+        const group = buildRuleGroupFromExchanges('My mocks', [
+            getExchangeData({ method: 'GET', path: '/a', query: '?x=1', statusCode: 200 }),
+            getExchangeData({ method: 'GET', path: '/a', query: '?x=1', statusCode: 500 }),
+            getExchangeData({ method: 'GET', path: '/a', query: '?x=2', statusCode: 200 }),
+            getExchangeData({ method: 'POST', path: '/a', query: '?x=1', statusCode: 200 })
+        ]);
+
+        const rules = group.items as HtkMockRule[];
+        expect(rules.length).to.equal(3);
+
+        // The first matching exchange is used:
+        expect((rules[0].handler as StaticResponseHandler).status).to.equal(200);
+        expect((rules[1].matchers[2] as matchers.QueryMatcher).queryObject)
+            .to.deep.equal({ x: '2' });
+        expect(rules[2].matchers[0]).to.be.instanceOf(MethodMatchers.POST);
+    });
+});
+
+describe("Building rules from breakpoint edits", () => {
+
+    const rulesStore = { activePassthroughOptions: {} } as any;
+
+    const breakpointedRequest = (headers: {}, body: string) => getRequestBreakpoint({
+        id: '',
+        method: 'POST',
+        url: 'https://example.com/api/users?page=1&sort=asc',
+        headers,
+        body: { buffer: Buffer.from(body) }
+    } as any);
+
+    const breakpointedResponse = (headers: {}, body: string) => getResponseBreakpoint({
+        id: '',
+        statusCode: 200,
+        statusMessage: 'OK',
+        headers,
+        body: { buffer: Buffer.from(body) }
+    } as any);
+
+    it("should transform requests with the edited method, URL, headers & JSON fields", async () => {
+        const exchange = getExchangeData({ method: 'POST', path: '/api/users', query: '?page=1' });
+        const breakpoint = await breakpointedRequest(
+            { 'content-type': 'application/json', 'x-removed': 'true' },
+            JSON.stringify({ name: 'Alice', role: 'user', settings: { theme: 'dark' }, temp: true })
+        );
+        Object.assign(exchange, { _requestBreakpoint: breakpoint });
+
+        breakpoint.updateMetadata({
+            method: 'PUT',
+            url: 'http://example.com/api/v2/users?page=2&sort=asc',
+            headers: { 'content-type': 'application/json', 'x-added': 'true' }
+        } as any);
+        breakpoint.updateBody(Buffer.from(JSON.stringify(
+            { name: 'Alice', role: 'admin', settings: { theme: 'light' } }
+        )));
+
+        const rule = buildRuleFromBreakpointEdits(rulesStore, exchange);
+
+        expect(rule.matchers[0]).to.be.instanceOf(MethodMatchers.POST);
+        expect((rule.matchers[1] as matchers.SimplePathMatcher).path)
+            .to.equal('https://example.com/api/users');
+
+        const handler = rule.handler as TransformingHandler;
+        expect(handler).to.be.instanceOf(TransformingHandler);
+        expect(handler.responseTransform).to.deep.equal({});
+        expect(handler.requestTransform).to.deep.equal({
+            replaceMethod: 'PUT',
+            rewriteUrl: {
+                replaceProtocol: 'http',
+                matchReplacePath: [{ pattern: '^/api/users$', replacement: '/api/v2/users' }],
+                updateQuery: { page: '2' }
+            },
+            updateHeaders: { 'x-removed': undefined, 'x-added': 'true' },
+            updateJsonBody: { role: 'admin', settings: { theme: 'light' }, temp: undefined }
+        });
+    });
+
+    it("should replace non-JSON response bodies entirely", async () => {
+        const exchange = getExchangeData({ responseState: 'pending' });
+        const breakpoint = await breakpointedResponse(
+            { 'content-type': 'text/plain', 'content-length': '5' },
+            'hello'
+        );
+        Object.assign(exchange, { _responseBreakpoint: breakpoint });
+
+        breakpoint.updateMetadata({ statusCode: 404 } as any);
+        breakpoint.updateBody(Buffer.from('goodbye'));
+
+        const handler = buildRuleFromBreakpointEdits(rulesStore, exchange)
+            .handler as TransformingHandler;
+
+        expect(handler.requestTransform).to.deep.equal({});
+        // The content-length is corrected automatically, so isn't included:
+        expect(handler.responseTransform).to.deep.equal({
+            replaceStatus: 404,
+            replaceBody: Buffer.from('goodbye')
+        });
+    });
+
+    it("should update JSON response fields without a callback", async () => {
+        const exchange = getExchangeData({ responseState: 'pending' });
+        const breakpoint = await breakpointedResponse({}, '{"user":{"id":1},"debug":true}');
+        Object.assign(exchange, { _responseBreakpoint: breakpoint });
+
+        breakpoint.updateBody(Buffer.from('{"user":{"id":2}}'));
+
+        const handler = buildRuleFromBreakpointEdits(rulesStore, exchange)
+            .handler as TransformingHandler;
+
+        expect(handler.beforeResponse).to.equal(undefined);
+        expect(handler.transformResponse).to.deep.equal({
+            updateJsonBody: { user: { id: 2 }, debug: undefined }
+        });
+    });
+
+    it("should replace JSON bodies entirely if nested fields are removed", async () => {
+        const exchange = getExchangeData({ responseState: 'pending' });
+        const breakpoint = await breakpointedResponse({}, '{"user":{"id":1,"debug":true}}');
+        Object.assign(exchange, { _responseBreakpoint: breakpoint });
+
+        breakpoint.updateBody(Buffer.from('{"user":{"id":1}}'));
+
+        const handler = buildRuleFromBreakpointEdits(rulesStore, exchange)
+            .handler as TransformingHandler;
+
+        expect(handler.beforeResponse).to.equal(undefined);
+        expect(handler.transformResponse).to.deep.equal({
+            replaceBody: Buffer.from('{"user":{"id":1}}')
+        });
+    });
+
+    it("should replace JSON bodies entirely if arrays are edited", async () => {
+        const exchange = getExchangeData({ responseState: 'pending' });
+        const breakpoint = await breakpointedResponse({}, '{"ids":[1,2,3],"total":3}');
+        Object.assign(exchange, { _responseBreakpoint: breakpoint });
+
+        breakpoint.updateBody(Buffer.from('{"ids":[1],"total":1}'));
+
+        const handler = buildRuleFromBreakpointEdits(rulesStore, exchange)
+            .handler as TransformingHandler;
+
+        expect(handler.responseTransform).to.deep.equal({
+            replaceBody: Buffer.from('{"ids":[1],"total":1}')
+        });
+    });
+
+    it("should build static responses from responses written directly", async () => {
+        const exchange = getExchangeData({ responseState: 'pending' });
+        Object.assign(exchange, { _requestBreakpoint: await breakpointedRequest({}, '') });
+
+        exchange.respondToBreakpointedRequest();
+        const breakpoint = exchange.responseBreakpoint!;
+        breakpoint.updateMetadata({ headers: { 'content-type': 'text/plain' } });
+        breakpoint.updateBody(Buffer.from('Mocked'));
+
+        const handler = buildRuleFromBreakpointEdits(rulesStore, exchange)
+            .handler as StaticResponseHandler;
+
+        expect(handler).to.be.instanceOf(StaticResponseHandler);
+        expect(handler.status).to.equal(200);
+        expect(handler.statusMessage).to.equal('OK');
+        expect(handler.data!.toString()).to.equal('Mocked');
+        expect(handler.headers).to.deep.equal({ 'content-type': 'text/plain' });
+    });
+});
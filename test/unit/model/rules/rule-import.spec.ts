@@ -0,0 +1,299 @@
+import { matchers } from 'mockttp';
+
+import { expect } from '../../../test-setup';
+
+import { HtkMockRule } from '../../../../src/model/rules/rules-structure';
+import {
+    MethodMatchers,
+    WildcardMatcher,
+    CookieMatcher,
+    StaticResponseHandler
+} from '../../../../src/model/rules/rule-definitions';
+import {
+    importExternalRules,
+    importWireMockMappings,
+    importPostmanCollection
+} from '../../../../src/model/rules/rule-import';
+
+const getRules = (result: { group: { items: unknown[] } }) =>
+    result.group.items as HtkMockRule[];
+
+describe("Rule import", () => {
+
+    describe("from WireMock", () => {
+
+        it("should convert request matchers", () => {
+            const result = importWireMockMappings({
+                mappings: [{
+                    request: {
+                        method: 'POST',
+                        urlPath: '/api/users',
+                        headers: { 'Content-Type': { equalTo: 'application/json' } },
+                        queryParameters: { 'dryRun': { equalTo: 'true' } },
+                        cookies: {
+                            'session': { equalTo: 'abc' },
+                            'theme': { equalTo: 'dark' }
+                        },
+                        bodyPatterns: [
+                            { equalToJson: '{"name":"Alice"}', ignoreExtraElements: true },
+                            { contains: 'Alice' }
+                        ]
+                    },
+                    response: { status: 201 }
+                }]
+            });
+
+            expect(result.issues).to.deep.equal([]);
+
+            const [rule] = getRules(result);
+            expect(rule.matchers).to.deep.equal([
+                new MethodMatchers.POST(),
+                new matchers.SimplePathMatcher('/api/users'),
+                new matchers.QueryMatcher({ dryRun: 'true' }),
+                new matchers.HeaderMatcher({ 'content-type': 'application/json' }),
+                new CookieMatcher({ session: 'abc' }),
+                new CookieMatcher({ theme: 'dark' }),
+                new matchers.JsonBodyFlexibleMatcher({ name: 'Alice' }),
+                new matchers.RawBodyIncludesMatcher('Alice')
+            ]);
+        });
+
+        it("should convert exact & pattern URLs", () => {
+            const result = importWireMockMappings([
+                { request: { method: 'GET', url: '/a?b=c' }, response: {} },
+                { request: { method: 'ANY', urlPattern: '/users/[0-9]+' }, response: {} }
+            ]);
+
+            // Later mappings take precedence in WireMock, so come first:
+            const [patternRule, urlRule] = getRules(result);
+
+            expect(urlRule.matchers).to.deep.equal([
+                new MethodMatchers.GET(),
+                new matchers.SimplePathMatcher('/a'),
+                new matchers.ExactQueryMatcher('?b=c')
+            ]);
+
+            expect(patternRule.matchers[0]).to.deep.equal(new WildcardMatcher());
+            const regex = new RegExp((patternRule.matchers[1] as matchers.RegexPathMatcher).regexSource);
+            expect(regex.test('/users/123')).to.equal(true);
+            expect(regex.test('/users/123/friends')).to.equal(false);
+        });
+
+        it("should match the query of URL patterns separately", () => {
+            const result = importWireMockMappings([
+                { request: { urlPattern: '/items/[a-z]+\\?page=1&sort=a\\.b' }, response: {} },
+                { request: { urlPattern: '/items/[a-z]+' }, response: {} },
+                { request: { urlPathPattern: '/items/[a-z]+' }, response: {} }
+            ]);
+
+            const [pathPatternRule, noQueryRule, queryRule] = getRules(result);
+
+            expect(queryRule.matchers[1]).to.deep.equal(
+                new matchers.RegexPathMatcher(/^(?:\/items\/[a-z]+)$/)
+            );
+            expect(queryRule.matchers[2]).to.deep.equal(
+                new matchers.ExactQueryMatcher('?page=1&sort=a.b')
+            );
+
+            // URL patterns without a query only match requests without a query:
+            expect(noQueryRule.matchers[2]).to.deep.equal(new matchers.ExactQueryMatcher(''));
+
+            // Path patterns match requests with any query:
+            expect(pathPatternRule.matchers.length).to.equal(2);
+        });
+
+        it("should report URL patterns that match the query by regex", () => {
+            const result = importWireMockMappings([
+                { request: { method: 'GET', urlPattern: '/items\\?page=.*' }, response: {} }
+            ]);
+
+            expect(getRules(result).length).to.equal(0);
+            expect(result.issues).to.deep.equal([
+                'Mapping 1 (GET /items\\?page=.*) was skipped, as the URL pattern ' +
+                    '/items\\?page=.* matches the query by regex, which is not supported'
+            ]);
+        });
+
+        it("should order mappings by priority", () => {
+            const result = importWireMockMappings([
+                { request: { urlPath: '/a' }, response: { status: 200 } },
+                { request: { urlPath: '/b' }, response: { status: 201 }, priority: 1 },
+                { request: { urlPath: '/c' }, response: { status: 202 }, priority: 10 }
+            ]);
+
+            expect(getRules(result).map(r => (r.handler as StaticResponseHandler).status))
+                .to.deep.equal([201, 200, 202]);
+        });
+
+        it("should convert responses", () => {
+            const result = importWireMockMappings([
+                {
+                    request: { urlPath: '/json' },
+                    response: {
+                        status: 404,
+                        headers: { 'Content-Type': 'application/json' },
+                        jsonBody: { error: 'not found' }
+                    }
+                },
+                {
+                    request: { urlPath: '/binary' },
+                    response: { base64Body: Buffer.from('hello').toString('base64') }
+                }
+            ]);
+
+            const [binaryRule, jsonRule] = getRules(result);
+
+            const jsonHandler = jsonRule.handler as StaticResponseHandler;
+            expect(jsonHandler.status).to.equal(404);
+            expect(jsonHandler.statusMessage).to.equal('Not Found');
+            expect(jsonHandler.headers).to.deep.equal({ 'content-type': 'application/json' });
+            expect(JSON.parse(jsonHandler.data as string)).to.deep.equal({ error: 'not found' });
+
+            const binaryHandler = binaryRule.handler as StaticResponseHandler;
+            expect(binaryHandler.status).to.equal(200);
+            expect(binaryHandler.data!.toString()).to.equal('hello');
+        });
+
+        it("should report mappings that can't be converted", () => {
+            const result = importWireMockMappings([
+                {
+                    name: 'Regex header',
+                    request: { urlPath: '/a', headers: { 'accept': { matches: '.*json' } } },
+                    response: { body: 'a' }
+                },
+                {
+                    request: { method: 'GET', urlPath: '/b' },
+                    response: { bodyFileName: 'b.json' }
+                },
+                {
+                    request: { method: 'GET', urlPath: '/c' },
+                    response: { body: 'c', fixedDelayMilliseconds: 1000 }
+                }
+            ]);
+
+            expect(getRules(result).length).to.equal(1);
+            expect(result.issues).to.deep.equal([
+                'Mapping 3 (GET /c) was imported without its fixedDelayMilliseconds',
+                'Mapping 2 (GET /b) was skipped, as responses using bodyFileName are not supported',
+                'Mapping 1 (Regex header) was skipped, as only exact matches are supported for ' +
+                    `header 'accept', not {"matches":".*json"}`
+            ]);
+        });
+    });
+
+    describe("from Postman", () => {
+
+        const collection = (...item: unknown[]) => ({
+            info: {
+                name: 'My API',
+                schema: 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json'
+            },
+            item
+        });
+
+        it("should mock each request with its example responses", () => {
+            const result = importPostmanCollection(collection({
+                name: 'Users',
+                item: [{
+                    name: 'Get user',
+                    request: { method: 'GET', url: '{{baseUrl}}/users/:id?verbose=true' },
+                    response: [{
+                        name: 'Found',
+                        code: 200,
+                        status: 'OK',
+                        header: [
+                            { key: 'Content-Type', value: 'application/json' },
+                            { key: 'X-Ignored', value: 'true', disabled: true }
+                        ],
+                        body: '{"id":1}'
+                    }]
+                }]
+            }));
+
+            expect(result.group.title).to.equal('My API');
+            expect(result.issues).to.deep.equal([]);
+
+            const [rule] = getRules(result);
+            expect(rule.matchers[0]).to.deep.equal(new MethodMatchers.GET());
+            expect(rule.matchers[2]).to.deep.equal(new matchers.QueryMatcher({ verbose: 'true' }));
+
+            const regex = new RegExp((rule.matchers[1] as matchers.RegexPathMatcher).regexSource);
+            expect(regex.test('/users/123')).to.equal(true);
+            expect(regex.test('/users/123/posts')).to.equal(false);
+
+            const handler = rule.handler as StaticResponseHandler;
+            expect(handler.status).to.equal(200);
+            expect(handler.headers).to.deep.equal({ 'content-type': 'application/json' });
+            expect(handler.data).to.equal('{"id":1}');
+        });
+
+        it("should use each example's original request", () => {
+            const result = importPostmanCollection(collection({
+                name: 'Search',
+                request: {
+                    method: 'GET',
+                    url: { raw: 'https://example.com/search', path: ['search'] }
+                },
+                response: [{
+                    name: 'No results',
+                    originalRequest: {
+                        method: 'GET',
+                        url: {
+                            raw: 'https://example.com/search?q=none',
+                            path: ['search'],
+                            query: [{ key: 'q', value: 'none' }]
+                        }
+                    },
+                    code: 404,
+                    body: '[]'
+                }]
+            }));
+
+            const [rule] = getRules(result);
+            expect(rule.matchers).to.deep.equal([
+                new MethodMatchers.GET(),
+                new matchers.SimplePathMatcher('/search'),
+                new matchers.QueryMatcher({ q: 'none' })
+            ]);
+            expect((rule.handler as StaticResponseHandler).statusMessage).to.equal('Not Found');
+        });
+
+        it("should report requests that can't be mocked", () => {
+            const request = { method: 'GET', url: '{{baseUrl}}/a' };
+            const result = importPostmanCollection(collection(
+                { name: 'No examples', request, response: [] },
+                {
+                    name: 'Two examples',
+                    request,
+                    response: [{ name: 'First', code: 200 }, { name: 'Second', code: 500 }]
+                }
+            ));
+
+            expect(getRules(result).length).to.equal(1);
+            expect(result.issues).to.deep.equal([
+                'No examples was skipped, as it has no saved example responses',
+                "Two examples (example 'Second') was skipped, as an earlier example " +
+                    'already mocks the same request'
+            ]);
+        });
+    });
+
+    it("should detect the format of imported data", () => {
+        expect(importExternalRules({
+            mappings: [{ request: { urlPath: '/' }, response: {} }]
+        })!.format).to.equal('WireMock');
+
+        expect(importExternalRules({
+            collection: {
+                info: { schema: 'https://schema.getpostman.com/json/collection/v2.0.0/' },
+                item: []
+            }
+        })!.format).to.equal('Postman');
+
+        expect(importExternalRules({
+            id: 'root',
+            title: 'HTTP Toolkit Rules',
+            items: []
+        })).to.equal(undefined);
+    });
+});
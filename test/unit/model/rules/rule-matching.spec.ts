@@ -0,0 +1,135 @@
+import { matchers, completionCheckers } from 'mockttp';
+
+import { expect } from '../../../test-setup';
+import { getExchangeData } from '../../unit-test-helpers';
+
+import { Matcher } from '../../../../src/model/rules/rules';
+import { HtkMockRule, HtkMockRuleGroup } from '../../../../src/model/rules/rules-structure';
+import {
+    MethodMatchers,
+    WildcardMatcher,
+    WebSocketWildcardMatcher,
+    StaticResponseHandler
+} from '../../../../src/model/rules/rule-definitions';
+import { evaluateRules } from '../../../../src/model/rules/rule-matching';
+
+let ruleCount = 0;
+const rule = (
+    ruleMatchers: Matcher[],
+    options: Partial<HtkMockRule> = {}
+): HtkMockRule => ({
+    id: `rule-${ruleCount++}`,
+    activated: true,
+    matchers: ruleMatchers,
+    handler: new StaticResponseHandler(200),
+    completionChecker: new completionCheckers.Always(),
+    ...options
+});
+
+const group = (...items: HtkMockRule[]): HtkMockRuleGroup => ({
+    id: 'group',
+    title: 'Rules',
+    items
+});
+
+describe("Rule matching", () => {
+
+    it("should find the first matching rule", async () => {
+        const postRule = rule([new MethodMatchers.POST()]);
+        const pathRule = rule([new MethodMatchers.GET(), new matchers.SimplePathMatcher('/a')]);
+        const wildcardRule = rule([new WildcardMatcher()]);
+
+        const { request } = getExchangeData({ method: 'GET', path: '/a' });
+        const result = await evaluateRules(group(postRule, pathRule, wildcardRule), request);
+
+        expect(result.matchingRule).to.equal(pathRule);
+        expect(result.ruleResults.map(r => r.matched)).to.deep.equal([false, true, true]);
+    });
+
+    it("should explain why matchers failed", async () => {
+        const hostRule = rule([
+            new MethodMatchers.GET(),
+            new matchers.HostMatcher('example.org'),
+            new matchers.QueryMatcher({ a: '1' })
+        ]);
+
+        const { request } = getExchangeData({ method: 'GET', path: '/', query: '?a=1' });
+        const result = await evaluateRules(group(hostRule), request);
+
+        expect(result.matchingRule).to.equal(undefined);
+
+        const [ruleResult] = result.ruleResults;
+        expect(ruleResult.matched).to.equal(false);
+        expect(ruleResult.matcherResults.map(r => r.matched)).to.deep.equal([true, false, true]);
+        expect(ruleResult.matcherResults[1].actual).to.equal('the request host was example.com');
+    });
+
+    it("should check header & body matchers", async () => {
+        const bodyRule = rule([
+            new MethodMatchers.POST(),
+            new matchers.HeaderMatcher({ 'content-type': 'application/json' }),
+            new matchers.JsonBodyFlexibleMatcher({ a: 1 })
+        ]);
+
+        const matchingRequest = getExchangeData({
+            method: 'POST',
+            requestHeaders: { 'content-type': 'application/json' },
+            requestBody: '{"a":1,"b":2}'
+        }).request;
+        const otherRequest = getExchangeData({
+            method: 'POST',
+            requestHeaders: { 'content-type': 'text/plain' },
+            requestBody: '{"a":2}'
+        }).request;
+
+        expect((await evaluateRules(group(bodyRule), matchingRequest)).matchingRule)
+            .to.equal(bodyRule);
+
+        const otherResult = (await evaluateRules(group(bodyRule), otherRequest)).ruleResults[0];
+        expect(otherResult.matcherResults.map(r => r.actual)).to.deep.equal([
+            undefined,
+            "the content-type header was 'text/plain'",
+            "the request body was '{\"a\":2}'"
+        ]);
+    });
+
+    it("should skip deactivated & WebSocket rules for HTTP requests", async () => {
+        const deactivatedRule = rule([new WildcardMatcher()], { activated: false });
+        const webSocketRule = rule([new WebSocketWildcardMatcher()]);
+        const wildcardRule = rule([new WildcardMatcher()]);
+
+        const { request } = getExchangeData();
+        const result = await evaluateRules(
+            group(deactivatedRule, webSocketRule, wildcardRule),
+            request
+        );
+
+        expect(result.matchingRule).to.equal(wildcardRule);
+        expect(result.ruleResults[0].skippedReason).to.equal('the rule is deactivated');
+        expect(result.ruleResults[1].skippedReason).to.equal('this is not a WebSocket request');
+    });
+
+    it("should only consider WebSocket rules for WebSocket requests", async () => {
+        const wildcardRule = rule([new WildcardMatcher()]);
+        const webSocketRule = rule([new WebSocketWildcardMatcher()]);
+
+        const { request } = getExchangeData({
+            requestHeaders: { 'upgrade': 'websocket' }
+        });
+        const result = await evaluateRules(group(wildcardRule, webSocketRule), request);
+
+        expect(result.matchingRule).to.equal(webSocketRule);
+        expect(result.ruleResults[0].skippedReason).to.equal('this is a WebSocket request');
+    });
+
+    it("should not pick a winner after a rule that can't be checked", async () => {
+        const callbackRule = rule([new WildcardMatcher(), new matchers.CallbackMatcher(() => true)]);
+        const wildcardRule = rule([new WildcardMatcher()]);
+
+        const { request } = getExchangeData();
+        const result = await evaluateRules(group(callbackRule, wildcardRule), request);
+
+        expect(result.ruleResults[0].matched).to.equal(undefined);
+        expect(result.matchingRule).to.equal(undefined);
+    });
+});
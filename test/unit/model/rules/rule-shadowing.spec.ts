@@ -0,0 +1,148 @@
+import { matchers, completionCheckers } from 'mockttp';
+
+import { expect } from '../../../test-setup';
+
+import { Matcher } from '../../../../src/model/rules/rules';
+import { HtkMockRule, HtkMockRuleGroup } from '../../../../src/model/rules/rules-structure';
+import {
+    MethodMatchers,
+    WildcardMatcher,
+    WebSocketWildcardMatcher,
+    StaticResponseHandler
+} from '../../../../src/model/rules/rule-definitions';
+import { findShadowedRules } from '../../../../src/model/rules/rule-shadowing';
+
+let ruleCount = 0;
+const rule = (
+    ruleMatchers: Matcher[],
+    options: Partial<HtkMockRule> = {}
+): HtkMockRule => ({
+    id: `rule-${ruleCount++}`,
+    activated: true,
+    matchers: ruleMatchers,
+    handler: new StaticResponseHandler(200),
+    completionChecker: new completionCheckers.Always(),
+    ...options
+});
+
+const group = (...items: HtkMockRule[]): HtkMockRuleGroup => ({
+    id: 'group',
+    title: 'Rules',
+    items
+});
+
+describe("Rule shadowing", () => {
+
+    it("should flag rules after a wildcard rule", () => {
+        const wildcardRule = rule([new WildcardMatcher()]);
+        const laterRule = rule([new MethodMatchers.GET(), new matchers.SimplePathMatcher('/a')]);
+
+        const shadowed = findShadowedRules(group(wildcardRule, laterRule));
+
+        expect(shadowed).to.deep.equal({ [laterRule.id]: wildcardRule });
+    });
+
+    it("should not flag rules before a wildcard rule", () => {
+        const specificRule = rule([new MethodMatchers.GET(), new matchers.SimplePathMatcher('/a')]);
+        const wildcardRule = rule([new WildcardMatcher()]);
+
+        expect(findShadowedRules(group(specificRule, wildcardRule))).to.deep.equal({});
+    });
+
+    it("should flag rules covered by an earlier host matcher", () => {
+        const hostRule = rule([new WildcardMatcher(), new matchers.HostMatcher('example.com')]);
+        const pathRule = rule([
+            new MethodMatchers.POST(),
+            new matchers.SimplePathMatcher('https://example.com/a')
+        ]);
+        const otherHostRule = rule([
+            new MethodMatchers.POST(),
+            new matchers.SimplePathMatcher('https://example.org/a')
+        ]);
+        const relativePathRule = rule([
+            new MethodMatchers.POST(),
+            new matchers.SimplePathMatcher('/a')
+        ]);
+
+        const shadowed = findShadowedRules(
+            group(hostRule, pathRule, otherHostRule, relativePathRule)
+        );
+
+        expect(Object.keys(shadowed)).to.deep.equal([pathRule.id]);
+    });
+
+    it("should compare methods, paths & queries", () => {
+        const broadRule = rule([
+            new MethodMatchers.GET(),
+            new matchers.SimplePathMatcher('/a'),
+            new matchers.QueryMatcher({ x: '1' })
+        ]);
+        const narrowRule = rule([
+            new MethodMatchers.GET(),
+            new matchers.SimplePathMatcher('https://example.com/a'),
+            new matchers.ExactQueryMatcher('?x=1&y=2')
+        ]);
+        const otherMethodRule = rule([
+            new MethodMatchers.POST(),
+            new matchers.SimplePathMatcher('/a'),
+            new matchers.QueryMatcher({ x: '1' })
+        ]);
+        const otherQueryRule = rule([
+            new MethodMatchers.GET(),
+            new matchers.SimplePathMatcher('/a'),
+            new matchers.QueryMatcher({ x: '2' })
+        ]);
+
+        const shadowed = findShadowedRules(
+            group(broadRule, narrowRule, otherMethodRule, otherQueryRule)
+        );
+
+        expect(Object.keys(shadowed)).to.deep.equal([narrowRule.id]);
+    });
+
+    it("should flag paths matched by an earlier regex", () => {
+        const regexRule = rule([new WildcardMatcher(), new matchers.RegexPathMatcher(/^\/api\//)]);
+        const apiRule = rule([new MethodMatchers.GET(), new matchers.SimplePathMatcher('/api/users')]);
+        const otherRule = rule([new MethodMatchers.GET(), new matchers.SimplePathMatcher('/users')]);
+
+        const shadowed = findShadowedRules(group(regexRule, apiRule, otherRule));
+
+        expect(Object.keys(shadowed)).to.deep.equal([apiRule.id]);
+    });
+
+    it("should not flag rules after rules that eventually complete", () => {
+        const onceRule = rule([new WildcardMatcher()], {
+            completionChecker: new completionCheckers.Once()
+        });
+        const laterRule = rule([new MethodMatchers.GET()]);
+
+        expect(findShadowedRules(group(onceRule, laterRule))).to.deep.equal({});
+    });
+
+    it("should ignore deactivated rules", () => {
+        const deactivatedRule = rule([new WildcardMatcher()], { activated: false });
+        const laterRule = rule([new MethodMatchers.GET()]);
+
+        expect(findShadowedRules(group(deactivatedRule, laterRule))).to.deep.equal({});
+    });
+
+    it("should not compare HTTP & WebSocket rules", () => {
+        const wildcardRule = rule([new WildcardMatcher()]);
+        const webSocketRule = rule([new WebSocketWildcardMatcher()]);
+
+        expect(findShadowedRules(group(wildcardRule, webSocketRule))).to.deep.equal({});
+    });
+
+    it("should find shadowing rules across groups", () => {
+        const wildcardRule = rule([new WildcardMatcher()]);
+        const laterRule = rule([new MethodMatchers.GET()]);
+
+        const shadowed = findShadowedRules({
+            id: 'root',
+            title: 'Rules',
+            items: [group(wildcardRule), { ...group(laterRule), id: 'other-group' }]
+        });
+
+        expect(Object.keys(shadowed)).to.deep.equal([laterRule.id]);
+    });
+});
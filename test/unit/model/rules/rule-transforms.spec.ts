@@ -0,0 +1,167 @@
+import * as serializr from 'serializr';
+
+import { expect } from '../../../test-setup';
+
+import { Headers } from '../../../../src/types';
+import { TransformingHandler } from '../../../../src/model/rules/rule-definitions';
+import {
+    applyMatchReplace,
+    applyUrlRewrite,
+    buildRequestTransformCallback,
+    buildResponseTransformCallback
+} from '../../../../src/model/rules/rule-transforms';
+
+const rulesStore = { activePassthroughOptions: {} } as any;
+
+const message = (headers: Headers, body: string) => ({
+    id: 'id',
+    url: 'https://example.com/api/v1/users?page=2',
+    headers,
+    body: {
+        buffer: Buffer.from(body),
+        getDecodedBuffer: async () => Buffer.from(body),
+        getText: async () => body,
+        getJson: async () => JSON.parse(body)
+    }
+}) as any;
+
+describe("Rule transforms", () => {
+
+    it("should apply each find & replace in order, with capture groups", () => {
+        expect(applyMatchReplace('https://www.example.com/a https://www.example.com/b', [
+            { pattern: 'www\\.example\\.com/(\\w)', replacement: 'staging.example.com/$1$1' },
+            { pattern: 'https', replacement: 'http' }
+        ])).to.equal('http://staging.example.com/aa http://staging.example.com/bb');
+    });
+
+    it("should rewrite URL protocols, paths & query parameters", () => {
+        expect(applyUrlRewrite('https://example.com/api/v1/users/1?page=2&sort=asc#top', {
+            replaceProtocol: 'http',
+            matchReplacePath: [{ pattern: '^/api/v1/(.*)', replacement: '/v2/$1' }],
+            updateQuery: { page: '3', debug: 'true', sort: undefined }
+        })).to.equal('http://example.com/v2/users/1?page=3&debug=true#top');
+    });
+
+    it("should leave the rest of the URL untouched when rewriting", () => {
+        expect(applyUrlRewrite('http://localhost:8080/a/b?q=a%20b', {
+            matchReplacePath: [{ pattern: '/b$', replacement: '/c' }]
+        })).to.equal('http://localhost:8080/a/c?q=a%20b');
+    });
+
+    it("should rewrite request URLs alongside other transforms", async () => {
+        const transform = buildRequestTransformCallback({
+            rewriteUrl: { matchReplacePath: [{ pattern: 'v1', replacement: 'v2' }] },
+            updateHeaders: { 'x-api-version': '2' }
+        });
+
+        const result = await transform(message({}, ''));
+
+        expect(result.url).to.equal('https://example.com/api/v2/users?page=2');
+        expect(result.headers).to.deep.equal({ 'x-api-version': '2' });
+        expect(result.body).to.equal(undefined);
+    });
+
+    it("should find & replace within request bodies, fixing the content-length", async () => {
+        const transform = buildRequestTransformCallback({
+            replaceMethod: 'PUT',
+            matchReplaceBody: [{ pattern: 'prod', replacement: 'test' }]
+        });
+
+        const result = await transform(message({
+            'content-type': 'text/plain',
+            'content-length': '13'
+        }, 'prod and prod'));
+
+        expect(result.method).to.equal('PUT');
+        expect(result.body!.toString()).to.equal('test and test');
+        expect(result.headers).to.deep.equal({
+            'content-type': 'text/plain',
+            'content-length': '13'
+        });
+    });
+
+    it("should find & replace within header values", async () => {
+        const transform = buildResponseTransformCallback({
+            replaceStatus: 201,
+            matchReplaceHeaders: [{ pattern: 'example\\.com', replacement: 'example.org' }]
+        });
+
+        const result: any = await transform(message({
+            'location': 'https://example.com/a',
+            'set-cookie': ['a=1; Domain=example.com', 'b=2']
+        }, ''));
+
+        expect(result.statusCode).to.equal(201);
+        expect(result.body).to.equal(undefined);
+        expect(result.headers).to.deep.equal({
+            'location': 'https://example.org/a',
+            'set-cookie': ['a=1; Domain=example.org', 'b=2']
+        });
+    });
+
+    it("should combine regex transforms with other transforms", async () => {
+        const transform = buildRequestTransformCallback({
+            updateHeaders: { 'x-added': 'true', 'x-removed': undefined } as any,
+            matchReplaceBody: [{ pattern: '"a"', replacement: '"b"' }]
+        });
+
+        const result = await transform(message({ 'x-removed': 'true' }, '{"a":1}'));
+
+        expect(result.headers).to.deep.equal({ 'x-added': 'true' });
+        expect(result.body!.toString()).to.equal('{"b":1}');
+    });
+
+    it("should only use callbacks for transforms that Mockttp can't apply", () => {
+        const handler = new TransformingHandler(rulesStore,
+            { matchReplaceBody: [{ pattern: 'a', replacement: 'b' }] },
+            { replaceStatus: 404 }
+        );
+
+        expect(handler.beforeRequest).to.be.a('function');
+        expect(handler.transformRequest).to.equal(undefined);
+
+        expect(handler.beforeResponse).to.equal(undefined);
+        expect(handler.transformResponse).to.deep.equal({ replaceStatus: 404 });
+    });
+
+    it("should serialize & deserialize regex transforms", () => {
+        const handler = new TransformingHandler(rulesStore,
+            { matchReplaceHeaders: [{ pattern: 'a', replacement: 'b' }] },
+            { matchReplaceBody: [{ pattern: '(c)', replacement: '$1d' }] }
+        );
+
+        const data = serializr.serialize(handler);
+        expect(data.transformRequest.matchReplaceHeaders).to.deep.equal([
+            { pattern: 'a', replacement: 'b' }
+        ]);
+
+        const result = serializr.deserialize(
+            TransformingHandler, data as {}, undefined, { rulesStore }
+        );
+        expect(result.requestTransform).to.deep.equal(handler.requestTransform);
+        expect(result.responseTransform).to.deep.equal(handler.responseTransform);
+        expect(result.explain()).to.equal('automatically transform the request and response');
+    });
+
+    it("should serialize & explain URL rewrites", () => {
+        const handler = new TransformingHandler(rulesStore, {
+            rewriteUrl: {
+                replaceProtocol: 'https',
+                matchReplacePath: [{ pattern: '^/v1', replacement: '/v2' }],
+                updateQuery: { a: '1', b: '2', c: undefined }
+            }
+        }, {});
+
+        expect(handler.explain()).to.equal(
+            'automatically transform the request then pass it through to the target host, ' +
+            "switching to HTTPS, rewriting the URL path, setting the 'a' and 'b' query parameters " +
+            "and removing the 'c' query parameter"
+        );
+
+        const result = serializr.deserialize(
+            TransformingHandler, serializr.serialize(handler) as {}, undefined, { rulesStore }
+        );
+        expect(result.requestTransform).to.deep.equal(handler.requestTransform);
+        expect(result.beforeRequest).to.be.a('function');
+    });
+});
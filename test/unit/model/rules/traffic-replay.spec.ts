@@ -0,0 +1,149 @@
+import { matchers, completionCheckers } from 'mockttp';
+
+import { expect } from '../../../test-setup';
+
+import { ParsedHar } from '../../../../src/model/http/har';
+import { HtkMockRule } from '../../../../src/model/rules/rules-structure';
+import {
+    MethodMatchers,
+    WildcardMatcher,
+    StaticResponseHandler
+} from '../../../../src/model/rules/rule-definitions';
+import {
+    buildReplayRuleGroup,
+    getRecordedExchangesFromHar,
+    RecordedExchange
+} from '../../../../src/model/rules/traffic-replay';
+
+const recordedExchange = (
+    method: string,
+    url: string,
+    statusCode: number,
+    responseBody: string,
+    requestBody?: string
+): RecordedExchange => ({
+    request: {
+        method,
+        url,
+        body: requestBody !== undefined ? Buffer.from(requestBody) : undefined
+    },
+    response: {
+        statusCode,
+        statusMessage: undefined,
+        headers: {
+            'content-type': 'text/plain',
+            'content-length': '1',
+            'date': 'Mon, 01 Jan 2024 00:00:00 GMT'
+        },
+        body: Buffer.from(responseBody)
+    }
+});
+
+describe("Traffic replay", () => {
+
+    it("should build a rule for each recorded exchange", () => {
+        const group = buildReplayRuleGroup('Replay', [
+            recordedExchange('GET', 'https://example.com/a?x=1', 200, 'a'),
+            recordedExchange('POST', 'https://example.com/b', 201, 'bb')
+        ], { matching: 'method-and-path', onMiss: 'pass-through' });
+
+        expect(group.title).to.equal('Replay');
+        expect(group.items.length).to.equal(2);
+
+        const [ruleA, ruleB] = group.items as HtkMockRule[];
+
+        expect(ruleA.matchers.length).to.equal(2);
+        expect(ruleA.matchers[0]).to.be.instanceOf(MethodMatchers.GET);
+        expect((ruleA.matchers[1] as matchers.SimplePathMatcher).path)
+            .to.equal('https://example.com/a');
+        expect(ruleB.matchers[0]).to.be.instanceOf(MethodMatchers.POST);
+
+        const handler = ruleB.handler as StaticResponseHandler;
+        expect(handler).to.be.instanceOf(StaticResponseHandler);
+        expect(handler.status).to.equal(201);
+        expect(handler.statusMessage).to.equal('Created');
+        expect(handler.data!.toString()).to.equal('bb');
+        expect(handler.headers).to.deep.equal({
+            'content-type': 'text/plain',
+            'content-length': '2'
+        });
+    });
+
+    it("should match query strings & bodies when requested", () => {
+        const [queryRule] = buildReplayRuleGroup('Replay', [
+            recordedExchange('GET', 'https://example.com/a?x=1', 200, 'a', 'body')
+        ], { matching: 'query', onMiss: 'pass-through' }).items as HtkMockRule[];
+
+        expect(queryRule.matchers.length).to.equal(3);
+        expect((queryRule.matchers[2] as matchers.ExactQueryMatcher).query).to.equal('?x=1');
+
+        const [bodyRule] = buildReplayRuleGroup('Replay', [
+            recordedExchange('GET', 'https://example.com/a', 200, 'a', 'body')
+        ], { matching: 'body', onMiss: 'pass-through' }).items as HtkMockRule[];
+
+        expect(bodyRule.matchers.length).to.equal(4);
+        expect((bodyRule.matchers[2] as matchers.ExactQueryMatcher).query).to.equal('');
+        expect((bodyRule.matchers[3] as matchers.RawBodyMatcher).content).to.equal('body');
+    });
+
+    it("should replay repeated requests' responses in order", () => {
+        const rules = buildReplayRuleGroup('Replay', [
+            recordedExchange('GET', 'https://example.com/poll', 200, '1'),
+            recordedExchange('GET', 'https://example.com/other', 200, 'x'),
+            recordedExchange('GET', 'https://example.com/poll', 200, '2'),
+            recordedExchange('GET', 'https://example.com/poll', 200, '3')
+        ], { matching: 'method-and-path', onMiss: 'pass-through' }).items as HtkMockRule[];
+
+        expect(rules.map(r => r.completionChecker.constructor)).to.deep.equal([
+            completionCheckers.Once,
+            completionCheckers.Always,
+            completionCheckers.Once,
+            completionCheckers.Always
+        ]);
+    });
+
+    it("should add a 404 rule for unmatched requests to each recorded host if requested", () => {
+        const rules = buildReplayRuleGroup('Replay', [
+            recordedExchange('GET', 'https://example.com/a', 200, 'a'),
+            recordedExchange('GET', 'https://example.com/b', 200, 'b'),
+            recordedExchange('GET', 'http://localhost:8080/c', 200, 'c')
+        ], { matching: 'method-and-path', onMiss: 'not-found' }).items as HtkMockRule[];
+
+        expect(rules.length).to.equal(5);
+
+        const notFoundRules = rules.slice(3);
+        expect(notFoundRules.map((rule) => rule.matchers)).to.deep.equal([
+            [new WildcardMatcher(), new matchers.HostMatcher('example.com')],
+            [new WildcardMatcher(), new matchers.HostMatcher('localhost:8080')]
+        ]);
+        notFoundRules.forEach((rule) => {
+            expect((rule.handler as StaticResponseHandler).status).to.equal(404);
+        });
+    });
+
+    it("should pair HAR requests with their responses, skipping aborts", () => {
+        const har = {
+            requests: [
+                { id: '1', method: 'GET', url: 'https://example.com/a', body: { decoded: Buffer.from('') } },
+                { id: '2', method: 'GET', url: 'https://example.com/b', body: { decoded: Buffer.from('') } }
+            ],
+            responses: [
+                {
+                    id: '1',
+                    statusCode: 204,
+                    statusMessage: 'No Content',
+                    headers: {},
+                    body: { decoded: Buffer.from('') }
+                }
+            ],
+            aborts: [],
+            tlsErrors: []
+        } as unknown as ParsedHar;
+
+        const exchanges = getRecordedExchangesFromHar(har);
+
+        expect(exchanges.length).to.equal(1);
+        expect(exchanges[0].request.url).to.equal('https://example.com/a');
+        expect(exchanges[0].response.statusCode).to.equal(204);
+    });
+});
@@ -19,6 +19,7 @@ export const getExchangeData = ({
     responseHeaders = {},
     responseState = 'completed',
     responseTags = [] as string[],
+    timingEvents = { startTime: Date.now() } as {},
 } = {}) => Object.assign(Object.create(HttpExchange.prototype), {
     id: '',
     matchedRuleId: '?',
@@ -73,7 +74,7 @@ export const getExchangeData = ({
         tags: responseTags,
         cache: new Map()  as any
     } as HtkResponse,
-    timingEvents: { startTime: Date.now() },
+    timingEvents,
     searchIndex: '',
     category: 'unknown',
     cache: new Map() as any,